@@ -0,0 +1,310 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CHUNK_TOKEN_BUDGET } from '../../services/ai.service';
+import { AIResponse, Message, PanelSource } from '../../types';
+import { joinChunks, splitIntoChunks } from '../../utils/text-chunks';
+
+const { ai, history, storage } = vi.hoisted(() => ({
+  ai: { rewriteText: vi.fn(), rewriteVariants: vi.fn(), rewriteChunks: vi.fn() },
+  history: { addEntry: vi.fn(), getEntries: vi.fn() },
+  storage: { getActions: vi.fn(), getSettings: vi.fn(), getPanelSource: vi.fn(), savePanelSource: vi.fn() },
+}));
+
+vi.mock('../../services/ai.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/ai.service')>()),
+  AIService: { getInstance: () => ai },
+}));
+vi.mock('../../services/history.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/history.service')>()),
+  HistoryService: { getInstance: () => history },
+}));
+vi.mock('../../services/storage.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/storage.service')>()),
+  StorageService: { getInstance: () => storage },
+}));
+
+type Listener = (...args: any[]) => unknown;
+
+const createEvent = () => {
+  const listeners: Listener[] = [];
+  return { listeners, addListener: (listener: Listener) => listeners.push(listener) };
+};
+
+const events = {
+  onMessage: createEvent(),
+  onConnect: createEvent(),
+  onInstalled: createEvent(),
+  onStartup: createEvent(),
+  onRemoved: createEvent(),
+  onUpdated: createEvent(),
+  onChanged: createEvent(),
+  onClicked: createEvent(),
+  onCommand: createEvent(),
+};
+
+const emit = (event: ReturnType<typeof createEvent>, ...args: unknown[]) =>
+  event.listeners.map((listener) => listener(...args));
+
+const tabs = {
+  TAB_ID_NONE: -1,
+  onRemoved: events.onRemoved,
+  onUpdated: events.onUpdated,
+  sendMessage: vi.fn(),
+  get: vi.fn(),
+  query: vi.fn(),
+};
+
+const response = (content: string): AIResponse => ({ success: true, content, provider: 'openai', model: 'gpt-4o' });
+
+// Lets the history write that follows the final STREAM_END run.
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const failure: AIResponse = { success: false, content: '', error: { code: 'server', message: 'Down' } };
+
+const sentToTab = (type: Message['type']) =>
+  tabs.sendMessage.mock.calls.filter(([, message]) => (message as Message).type === type);
+
+describe('background rewrites', () => {
+  beforeAll(async () => {
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      runtime: {
+        onMessage: events.onMessage,
+        onConnect: events.onConnect,
+        onInstalled: events.onInstalled,
+        onStartup: events.onStartup,
+      },
+      tabs,
+      storage: {
+        onChanged: events.onChanged,
+        session: { get: vi.fn(async () => ({})), set: vi.fn(async () => undefined) },
+      },
+      contextMenus: { onClicked: events.onClicked },
+      commands: { onCommand: events.onCommand },
+      sidePanel: { open: vi.fn(async () => undefined) },
+    } as unknown as typeof chrome;
+    await import('../background');
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tabs.sendMessage.mockResolvedValue(undefined);
+    storage.getActions.mockResolvedValue([
+      { id: 'fix', title: 'Fix grammar', instruction: 'Fix the grammar.', enabled: true },
+    ]);
+    storage.getSettings.mockResolvedValue({ variantCount: 1 });
+    history.addEntry.mockResolvedValue(null);
+  });
+
+  it('saves one history entry for a request with several variants', async () => {
+    storage.getSettings.mockResolvedValue({ variantCount: 3 });
+    ai.rewriteVariants.mockResolvedValue([
+      response('First'),
+      failure,
+      response('Third'),
+    ]);
+
+    emit(
+      events.onMessage,
+      { type: 'REWRITE_SELECTED_TEXT', payload: { text: 'Teh text', actionId: 'fix' } },
+      { tab: { id: 1, url: 'https://example.com/', title: 'Example' }, frameId: 0 }
+    );
+    await vi.waitFor(() => expect(sentToTab('STREAM_END')).toHaveLength(1));
+    await settle();
+
+    expect(history.addEntry).toHaveBeenCalledTimes(1);
+    expect(history.addEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        originalText: 'Teh text',
+        rewrittenText: 'First',
+        variants: ['Third'],
+        actionTitle: 'Fix grammar',
+        pageUrl: 'https://example.com/',
+      })
+    );
+  });
+
+  it.each([
+    [false, 'use'],
+    [true, undefined],
+  ])('keeps incognito rewrites out of the response cache (incognito: %s)', async (incognito, cache) => {
+    ai.rewriteText.mockResolvedValue(response('The text'));
+
+    emit(
+      events.onMessage,
+      { type: 'REWRITE_SELECTED_TEXT', payload: { text: 'Teh text', actionId: 'fix' } },
+      { tab: { id: 4, incognito }, frameId: 0 }
+    );
+    await vi.waitFor(() => expect(ai.rewriteText).toHaveBeenCalledTimes(1));
+    emit(
+      events.onMessage,
+      { type: 'REGENERATE_VARIANT', payload: { text: 'Teh text', actionId: 'fix', variant: 0, variantCount: 1 } },
+      { tab: { id: 4, incognito }, frameId: 0 }
+    );
+    await vi.waitFor(() => expect(ai.rewriteText).toHaveBeenCalledTimes(2));
+
+    expect(ai.rewriteText.mock.calls.map(([, options]) => options.cache)).toEqual([
+      cache,
+      incognito ? undefined : 'refresh',
+    ]);
+  });
+
+  it('saves a chunked rewrite once a retried section completes it', async () => {
+    const text = ['First paragraph. '.repeat(400), 'Second paragraph. '.repeat(400)].join('\n\n');
+    const chunks = splitIntoChunks(text, CHUNK_TOKEN_BUDGET);
+    const last = chunks.length - 1;
+    const outputs = chunks.map((_, index) => `Section ${index}.`);
+    expect(last).toBeGreaterThan(0);
+    ai.rewriteChunks.mockResolvedValue(outputs.map((output, index) => (index === last ? failure : response(output))));
+    ai.rewriteText.mockResolvedValue(response(outputs[last]));
+    const sender = { tab: { id: 2 }, frameId: 0 };
+
+    emit(events.onMessage, { type: 'REWRITE_SELECTED_TEXT', payload: { text, actionId: 'fix' } }, sender);
+    await vi.waitFor(() => expect(sentToTab('STREAM_END')).toHaveLength(1));
+    await settle();
+    expect(history.addEntry).not.toHaveBeenCalled();
+
+    emit(
+      events.onMessage,
+      { type: 'RETRY_CHUNK', payload: { text: chunks[last].text, chunk: last, actionId: 'fix' } },
+      sender
+    );
+    await vi.waitFor(() => expect(sentToTab('STREAM_END')).toHaveLength(2));
+    await settle();
+
+    expect(history.addEntry).toHaveBeenCalledTimes(1);
+    expect(history.addEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ originalText: text, rewrittenText: joinChunks(chunks, outputs) })
+    );
+  });
+
+  it.each([
+    [false, 1],
+    [true, 0],
+  ])('records panel rewrites with the page they came from (incognito: %s)', async (incognito, entries) => {
+    let panelSource: PanelSource | null = null;
+    storage.savePanelSource.mockImplementation(async (source: PanelSource) => {
+      panelSource = source;
+    });
+    storage.getPanelSource.mockImplementation(async () => panelSource);
+    tabs.sendMessage.mockResolvedValue({ selectedText: 'Teh text' });
+    tabs.get.mockResolvedValue({ id: 3, title: 'Private draft', url: 'https://example.com/draft', incognito });
+    ai.rewriteText.mockImplementation(async (_text, _options, callbacks) => {
+      callbacks?.onComplete?.(false);
+      return response('The text');
+    });
+
+    await Promise.all(
+      emit(events.onClicked, { menuItemId: 'openInSidePanel', frameId: 0 }, { id: 3, windowId: 1 })
+    );
+    expect(panelSource).toMatchObject({ text: 'Teh text', tabId: 3, frameId: 0, incognito });
+
+    const port = {
+      name: 'side-panel',
+      onMessage: createEvent(),
+      onDisconnect: createEvent(),
+      postMessage: vi.fn(),
+    };
+    emit(events.onConnect, port);
+    emit(port.onMessage, { type: 'REWRITE_SELECTED_TEXT', payload: { text: 'Teh text', actionId: 'fix' } });
+    await vi.waitFor(() =>
+      expect(port.postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'STREAM_END' }))
+    );
+    await settle();
+
+    expect(history.addEntry).toHaveBeenCalledTimes(entries);
+    if (entries > 0) {
+      expect(history.addEntry).toHaveBeenCalledWith(
+        expect.objectContaining({ pageUrl: 'https://example.com/draft', pageTitle: 'Private draft' })
+      );
+    }
+  });
+
+  it.each([
+    ['the text sent from the page', 'Teh text and more', {}, 'https://example.com/'],
+    ['other text', 'Something else', {}, undefined],
+    ['a detached source', 'Teh text', { detached: true }, undefined],
+  ])('attributes a panel rewrite of %s to the page accordingly', async (_case, text, state, pageUrl) => {
+    const panelSource: PanelSource = {
+      text: 'Teh text and more',
+      tabId: 3,
+      frameId: 0,
+      pageUrl: 'https://example.com/',
+      pageTitle: 'Example',
+      ...state,
+    };
+    storage.getPanelSource.mockResolvedValue(panelSource);
+    ai.rewriteText.mockImplementation(async (_text, _options, callbacks) => {
+      callbacks?.onComplete?.(false);
+      return response('Rewritten.');
+    });
+    const port = { name: 'side-panel', onMessage: createEvent(), onDisconnect: createEvent(), postMessage: vi.fn() };
+
+    emit(events.onConnect, port);
+    emit(port.onMessage, { type: 'REWRITE_SELECTED_TEXT', payload: { text, actionId: 'fix' } });
+    await vi.waitFor(() =>
+      expect(port.postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'STREAM_END' }))
+    );
+    await settle();
+
+    expect(history.addEntry).toHaveBeenCalledWith(expect.objectContaining({ originalText: text, pageUrl }));
+  });
+
+  it('keeps a detached incognito panel source incognito', async () => {
+    storage.getPanelSource.mockResolvedValue({
+      text: 'Teh text',
+      tabId: 3,
+      frameId: 0,
+      incognito: true,
+      detached: true,
+    });
+    ai.rewriteText.mockImplementation(async (_text, _options, callbacks) => {
+      callbacks?.onComplete?.(false);
+      return response('Rewritten.');
+    });
+    const port = { name: 'side-panel', onMessage: createEvent(), onDisconnect: createEvent(), postMessage: vi.fn() };
+
+    emit(events.onConnect, port);
+    emit(port.onMessage, { type: 'REWRITE_SELECTED_TEXT', payload: { text: 'Something else', actionId: 'fix' } });
+    await vi.waitFor(() =>
+      expect(port.postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'STREAM_END' }))
+    );
+    await settle();
+
+    expect(history.addEntry).not.toHaveBeenCalled();
+  });
+
+  it('re-runs a history entry in the background and saves it with the same page', async () => {
+    history.getEntries.mockResolvedValue([
+      {
+        id: 'entry',
+        originalText: 'Teh text',
+        rewrittenText: 'The text',
+        actionTitle: 'Shorten',
+        createdAt: 0,
+        pageUrl: 'https://example.com/',
+        pageTitle: 'Example',
+      },
+    ]);
+    ai.rewriteText.mockResolvedValue(response('Text.'));
+    const sendResponse = vi.fn();
+
+    const [keepsChannelOpen] = emit(
+      events.onMessage,
+      { type: 'RERUN_HISTORY_ENTRY', payload: { entryId: 'entry', actionId: 'fix' } },
+      {},
+      sendResponse
+    );
+    await vi.waitFor(() => expect(sendResponse).toHaveBeenCalledWith({ success: true }));
+
+    expect(keepsChannelOpen).toBe(true);
+    expect(ai.rewriteText).toHaveBeenCalledWith('Teh text', expect.objectContaining({ instruction: 'Fix the grammar.' }));
+    expect(history.addEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        originalText: 'Teh text',
+        rewrittenText: 'Text.',
+        actionTitle: 'Fix grammar',
+        pageUrl: 'https://example.com/',
+        pageTitle: 'Example',
+      })
+    );
+  });
+});
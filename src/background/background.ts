@@ -1,198 +1,889 @@
-import { AIService } from '../services/ai.service';
-import { Message } from '../types';
-
-const menuItems = [
-  {
-    id: 'rewriteText',
-    title: 'Rewrite it',
-    instruction: 'Rewrite the following text in clear, basic English.',
-  },
-  {
-    id: 'rewriteShorter',
-    title: 'Make it shorter',
-    instruction: 'Shorten the following text while preserving the meaning.',
-  },
-  {
-    id: 'rewriteLonger',
-    title: 'Make it longer',
-    instruction: 'Expand the following text with more detail while keeping the meaning.',
-  },
-  {
-    id: 'rewriteFormal',
-    title: 'Make it formal',
-    instruction: 'Rewrite the following text in a formal, professional tone.',
-  },
-  {
-    id: 'rewriteCasual',
-    title: 'Make it casual',
-    instruction: 'Rewrite the following text in a friendly, casual tone.',
-  },
-  {
-    id: 'rewriteGrammar',
-    title: 'Fix grammar',
-    instruction: 'Fix grammar, spelling, and punctuation while keeping the same tone.',
-  },
-  {
-    id: 'rewriteSimplify',
-    title: 'Simplify',
-    instruction: 'Simplify the following text to be easier to understand.',
-  },
-];
-
-const activeStreams = new Map<number, { cancelled: boolean }>();
-
-const runRewrite = async (tabId: number, selectedText: string, instruction: string) => {
-  let streamErrorEmitted = false;
+import {
+  AIService,
+  CHUNK_TOKEN_BUDGET,
+  MAX_VARIANTS,
+  RewriteOptions,
+  actionToRewriteOptions,
+  needsChunking,
+} from '../services/ai.service';
+import { COMMANDS, REWRITE_COMMANDS, resolveCommandAction } from '../services/commands';
+import { HistoryService } from '../services/history.service';
+import { KeyVaultService } from '../services/key-vault.service';
+import { SIDE_PANEL_PORT } from '../services/side-panel';
+import { ACTIONS_KEY, ACTIVE_PROFILE_KEY, PROFILES_KEY, StorageService } from '../services/storage.service';
+import { AIResponse, Message, RewriteAction, RewriteError, TextChunk, TextFormat } from '../types';
+import { richTextToPlainText } from '../utils/rich-text';
+import { joinChunks, splitIntoChunks } from '../utils/text-chunks';
+
+const PARENT_MENU_ID = 'aiRewriter';
+const PROFILE_MENU_ID = 'useProfile';
+const PROFILE_MENU_PREFIX = 'profile:';
+const SIDE_PANEL_MENU_ID = 'openInSidePanel';
+
+interface StreamTarget {
+  tabId: number;
+  frameId: number;
+  /** Set for a side panel, whose tab id is `TAB_ID_NONE` and whose frame id numbers the connection. */
+  port?: chrome.runtime.Port;
+}
+
+interface ActiveStream extends StreamTarget {
+  controller: AbortController;
+}
+
+/** Where a rewrite came from, recorded in the history once it completes. */
+interface RewriteSource {
+  action?: RewriteAction;
+  tab?: Pick<chrome.tabs.Tab, 'incognito' | 'url' | 'title'>;
+  /** Overrides the action title in the history, e.g. for refinements. */
+  title?: string;
+  /** Formatted (`html`) texts are recorded as plain text. */
+  format?: TextFormat;
+}
+
+/** A chunked rewrite with failed sections; it goes to the history once retries have filled them in. */
+interface PendingChunkedRewrite {
+  selectedText: string;
+  chunks: TextChunk[];
+  results: Array<string | null>;
+  response: Pick<AIResponse, 'provider' | 'model'>;
+  source: RewriteSource;
+}
+
+// Keyed by request id so concurrent rewrites in different tabs or frames stay independent.
+const activeStreams = new Map<string, ActiveStream>();
+// Keyed by frame (see frameKey): a frame's card shows one rewrite at a time.
+const pendingChunkedRewrites = new Map<string, PendingChunkedRewrite>();
+let requestCounter = 0;
+
+const createRequestId = ({ tabId, frameId }: StreamTarget): string => {
+  requestCounter += 1;
+  return `${tabId}:${frameId}:${Date.now().toString(36)}${requestCounter.toString(36)}`;
+};
+
+const frameKey = ({ tabId, frameId }: StreamTarget): string => `${tabId}:${frameId}`;
+
+const forgetChunkedRewrites = (tabId: number) => {
+  Array.from(pendingChunkedRewrites.keys())
+    .filter((key) => key.startsWith(`${tabId}:`))
+    .forEach((key) => pendingChunkedRewrites.delete(key));
+};
+
+const sendToFrame = (target: StreamTarget, message: Message) => {
+  if (target.port) {
+    try {
+      target.port.postMessage(message);
+    } catch (error) {
+      // The side panel was closed; its disconnect cancels the stream.
+    }
+    return;
+  }
+  chrome.tabs.sendMessage(target.tabId, message, { frameId: target.frameId }).catch(() => {
+    // The tab may have navigated away or closed while the rewrite was running.
+  });
+};
+
+// The frame each tab's user last moved into. Keyboard shortcuts carry no frame of their own, and
+// session storage keeps this across service worker restarts.
+const FOCUSED_FRAMES_KEY = 'focusedFrames';
+
+const getFocusedFrames = async (): Promise<Record<string, number>> =>
+  ((await chrome.storage.session.get(FOCUSED_FRAMES_KEY))[FOCUSED_FRAMES_KEY] as Record<string, number>) ?? {};
+
+const setFocusedFrame = async (tabId: number, frameId: number | null) => {
+  const frames = await getFocusedFrames();
+  if (frameId === null) {
+    delete frames[tabId];
+  } else {
+    frames[tabId] = frameId;
+  }
+  await chrome.storage.session.set({ [FOCUSED_FRAMES_KEY]: frames });
+};
+
+const getFocusedFrame = async (tabId: number): Promise<number> => (await getFocusedFrames())[tabId] ?? 0;
+
+// Stream failures outside the AI service (e.g. a broken message port) have no code of their own.
+const UNEXPECTED_ERROR: RewriteError = { code: 'unknown', message: 'Failed to rewrite text. Please try again.' };
+
+const errorPayload = ({ code, message }: RewriteError) => ({ error: message, errorCode: code });
+
+const cancelStream = (requestId: string) => {
+  const stream = activeStreams.get(requestId);
+  if (!stream) return;
+  activeStreams.delete(requestId);
+  stream.controller.abort();
+  sendToFrame(stream, {
+    type: 'STREAM_END',
+    payload: { requestId },
+  });
+};
+
+const cancelStreamsWhere = (predicate: (stream: ActiveStream) => boolean) => {
+  Array.from(activeStreams.entries())
+    .filter(([, stream]) => predicate(stream))
+    .forEach(([requestId]) => cancelStream(requestId));
+};
+
+// Nothing read in an incognito window may outlive it, so its rewrites neither read nor fill the response cache.
+const cacheFor = (source: RewriteSource, cache: RewriteOptions['cache']): RewriteOptions['cache'] =>
+  source.tab?.incognito ? undefined : cache;
+
+const recordHistory = async (
+  selectedText: string,
+  rewrittenText: string,
+  response: Pick<AIResponse, 'provider' | 'model'>,
+  source: RewriteSource,
+  variants: string[] = []
+) => {
+  // Never persist anything typed or read in an incognito window.
+  if (source.tab?.incognito || !rewrittenText.trim()) return;
+  const toPlainText = (text: string) => (source.format === 'html' ? richTextToPlainText(text) : text);
   try {
-    const aiService = AIService.getInstance();
-    activeStreams.set(tabId, { cancelled: false });
+    await HistoryService.getInstance().addEntry({
+      originalText: toPlainText(selectedText),
+      rewrittenText: toPlainText(rewrittenText),
+      variants: variants.length > 0 ? variants.map(toPlainText) : undefined,
+      actionId: source.action?.id,
+      actionTitle: source.title ?? source.action?.title ?? 'Custom instruction',
+      provider: response.provider,
+      model: response.model,
+      pageUrl: source.tab?.url,
+      pageTitle: source.tab?.title,
+    });
+  } catch (error) {
+    console.error('Failed to save rewrite history:', error);
+  }
+};
+
+const beginStream = (target: StreamTarget) => {
+  // A frame shows a single suggestion card, so a new rewrite replaces any running one.
+  cancelStreamsWhere((stream) => stream.tabId === target.tabId && stream.frameId === target.frameId);
+
+  const requestId = createRequestId(target);
+  const controller = new AbortController();
+  activeStreams.set(requestId, { ...target, controller });
+  return { requestId, controller, isActive: () => activeStreams.has(requestId) };
+};
 
-    chrome.tabs.sendMessage(tabId, {
+const getVariantCount = async (): Promise<number> => {
+  const { variantCount = 1 } = await StorageService.getInstance().getSettings();
+  return Math.min(Math.max(Math.round(variantCount), 1), MAX_VARIANTS);
+};
+
+// Lets the card ask for a variant to be regenerated or the result to be refined later.
+const rewriteContextPayload = (selectedText: string, options: RewriteOptions, source: RewriteSource) => ({
+  text: selectedText,
+  actionId: source.action?.id,
+  instruction: source.action ? undefined : options.instruction,
+  profileId: options.profileId,
+  format: options.format,
+});
+
+/**
+ * Streams several alternatives into one card. Every stream event carries its
+ * variant index; a final STREAM_END without one tells the card all are done.
+ * With `regenerate` set, a single fresh rewrite replaces that variant only.
+ */
+const runVariantRewrite = async (
+  target: StreamTarget,
+  selectedText: string,
+  options: RewriteOptions,
+  source: RewriteSource,
+  count: number,
+  regenerate?: number
+) => {
+  const { requestId, controller, isActive } = beginStream(target);
+  const toVariant = (index: number) => regenerate ?? index;
+
+  try {
+    sendToFrame(target, {
       type: 'STREAM_START',
-      payload: {},
-    } as Message);
+      payload:
+        regenerate === undefined
+          ? { requestId, variantCount: count, ...rewriteContextPayload(selectedText, options, source) }
+          : { requestId, variant: regenerate },
+    });
 
-    const response = await aiService.rewriteText(selectedText, { instruction }, {
-      onToken: (token: string) => {
-        if (activeStreams.get(tabId)?.cancelled) {
-          return;
-        }
-        chrome.tabs.sendMessage(tabId, {
-          type: 'STREAM_TOKEN',
-          payload: {
-            token,
-          },
-        } as Message);
-      },
-      onComplete: () => {
-        if (activeStreams.get(tabId)?.cancelled) {
-          return;
-        }
-        chrome.tabs.sendMessage(tabId, {
-          type: 'STREAM_END',
-          payload: {},
-        } as Message);
-      },
-      onError: (error: string) => {
-        if (activeStreams.get(tabId)?.cancelled) {
-          return;
-        }
-        streamErrorEmitted = true;
-        chrome.tabs.sendMessage(tabId, {
-          type: 'STREAM_ERROR',
-          payload: {
-            error,
-          },
-        } as Message);
-      },
+    const responses = await AIService.getInstance().rewriteVariants(
+      selectedText,
+      regenerate === undefined ? count : 1,
+      { ...options, signal: controller.signal },
+      {
+        onToken: (index, token) => {
+          if (!isActive()) return;
+          sendToFrame(target, {
+            type: 'STREAM_TOKEN',
+            payload: { requestId, token, variant: toVariant(index) },
+          });
+        },
+        onComplete: (index, truncated, spanIssues, resultSource) => {
+          if (!isActive()) return;
+          sendToFrame(target, {
+            type: 'STREAM_END',
+            payload: { requestId, variant: toVariant(index), truncated, spanIssues, source: resultSource },
+          });
+        },
+        onError: (index, error) => {
+          if (!isActive()) return;
+          sendToFrame(target, {
+            type: 'STREAM_ERROR',
+            payload: { requestId, ...errorPayload(error), variant: toVariant(index) },
+          });
+        },
+      }
+    );
+
+    if (!isActive()) return;
+
+    const succeeded = responses.filter((response) => response.success);
+    // A failed regeneration leaves the other variants usable, so the card stays open.
+    if (succeeded.length > 0 || regenerate !== undefined) {
+      sendToFrame(target, { type: 'STREAM_END', payload: { requestId } });
+    } else {
+      sendToFrame(target, {
+        type: 'STREAM_ERROR',
+        payload: { requestId, ...errorPayload(responses[0]?.error ?? UNEXPECTED_ERROR) },
+      });
+    }
+
+    // One entry per request, so variants do not push older rewrites out of the history.
+    const [first, ...others] = succeeded;
+    if (first) {
+      await recordHistory(selectedText, first.content, first, source, others.map((response) => response.content));
+    }
+  } catch (error) {
+    if (!isActive()) return;
+    sendToFrame(target, { type: 'STREAM_ERROR', payload: { requestId, ...errorPayload(UNEXPECTED_ERROR) } });
+  } finally {
+    activeStreams.delete(requestId);
+  }
+};
+
+const runRewrite = async (
+  target: StreamTarget,
+  selectedText: string,
+  options: RewriteOptions,
+  source: RewriteSource = {}
+) => {
+  // A new rewrite replaces the card, along with any sections it still had to retry.
+  pendingChunkedRewrites.delete(frameKey(target));
+  // Long selections are rewritten section by section, without variants. Markup
+  // could be cut in half at a section boundary, so formatted text is sent whole.
+  if (options.format !== 'html' && needsChunking(selectedText)) {
+    return runChunkedRewrite(target, selectedText, options, source);
+  }
+  const variantCount = await getVariantCount();
+  if (variantCount > 1) {
+    return runVariantRewrite(target, selectedText, options, source, variantCount);
+  }
+  return runSingleRewrite(target, selectedText, options, source);
+};
+
+/**
+ * Rewrites a long selection in chunks. Chunk events carry their index; the card
+ * shows each section as it arrives and can retry a failed one with RETRY_CHUNK.
+ */
+const runChunkedRewrite = async (
+  target: StreamTarget,
+  selectedText: string,
+  options: RewriteOptions,
+  source: RewriteSource
+) => {
+  const { requestId, controller, isActive } = beginStream(target);
+  const chunks = splitIntoChunks(selectedText, CHUNK_TOKEN_BUDGET);
+
+  try {
+    sendToFrame(target, {
+      type: 'STREAM_START',
+      payload: { requestId, chunks, ...rewriteContextPayload(selectedText, options, source) },
     });
 
-    if (!response.success && !streamErrorEmitted && !response.errorHandled) {
-      chrome.tabs.sendMessage(tabId, {
+    const responses = await AIService.getInstance().rewriteChunks(
+      chunks,
+      { ...options, cache: cacheFor(source, 'use'), signal: controller.signal },
+      {
+        onToken: (chunk, token) => {
+          if (!isActive()) return;
+          sendToFrame(target, { type: 'STREAM_TOKEN', payload: { requestId, token, chunk } });
+        },
+        onComplete: (chunk, truncated, spanIssues, resultSource) => {
+          if (!isActive()) return;
+          sendToFrame(target, {
+            type: 'STREAM_END',
+            payload: { requestId, chunk, truncated, spanIssues, source: resultSource },
+          });
+        },
+        onError: (chunk, error) => {
+          if (!isActive()) return;
+          sendToFrame(target, { type: 'STREAM_ERROR', payload: { requestId, ...errorPayload(error), chunk } });
+        },
+      }
+    );
+
+    if (!isActive()) return;
+
+    // Failed sections can be retried from the card as long as one came through.
+    if (responses.some((response) => response.success)) {
+      sendToFrame(target, { type: 'STREAM_END', payload: { requestId } });
+    } else {
+      sendToFrame(target, {
         type: 'STREAM_ERROR',
-        payload: {
-          error: response.error || 'Failed to rewrite text',
+        payload: { requestId, ...errorPayload(responses[0]?.error ?? UNEXPECTED_ERROR) },
+      });
+    }
+
+    const results = responses.map((response) => (response.success ? response.content : null));
+    const succeeded = responses.find((response) => response.success);
+    if (!succeeded) return;
+    if (results.every((result) => result !== null)) {
+      await recordHistory(selectedText, joinChunks(chunks, results as string[]), succeeded, source);
+    } else {
+      pendingChunkedRewrites.set(frameKey(target), { selectedText, chunks, results, response: succeeded, source });
+    }
+  } catch (error) {
+    if (!isActive()) return;
+    sendToFrame(target, { type: 'STREAM_ERROR', payload: { requestId, ...errorPayload(UNEXPECTED_ERROR) } });
+  } finally {
+    activeStreams.delete(requestId);
+  }
+};
+
+/** Rewrites one section of a chunked result again; the rest of the card stays as it is. */
+const runChunkRetry = async (
+  target: StreamTarget,
+  chunkText: string,
+  chunk: number,
+  options: RewriteOptions,
+  source: RewriteSource
+) => {
+  const { requestId, controller, isActive } = beginStream(target);
+
+  try {
+    sendToFrame(target, { type: 'STREAM_START', payload: { requestId, chunk } });
+
+    const response = await AIService.getInstance().rewriteText(
+      chunkText,
+      // A retry wants a fresh answer, which then replaces the cached one.
+      { ...options, cache: cacheFor(source, 'refresh'), signal: controller.signal },
+      {
+        onToken: (token) => {
+          if (!isActive()) return;
+          sendToFrame(target, { type: 'STREAM_TOKEN', payload: { requestId, token, chunk } });
+        },
+        onComplete: (truncated, spanIssues, resultSource) => {
+          if (!isActive()) return;
+          sendToFrame(target, {
+            type: 'STREAM_END',
+            payload: { requestId, chunk, truncated, spanIssues, source: resultSource },
+          });
+        },
+        onError: (error) => {
+          if (!isActive()) return;
+          sendToFrame(target, { type: 'STREAM_ERROR', payload: { requestId, ...errorPayload(error), chunk } });
         },
-      } as Message);
+      }
+    );
+
+    if (!isActive()) return;
+    sendToFrame(target, { type: 'STREAM_END', payload: { requestId } });
+
+    const pending = pendingChunkedRewrites.get(frameKey(target));
+    if (!response.success || pending?.chunks[chunk]?.text !== chunkText) return;
+    pending.results[chunk] = response.content;
+    if (pending.results.every((result) => result !== null)) {
+      pendingChunkedRewrites.delete(frameKey(target));
+      const rewrittenText = joinChunks(pending.chunks, pending.results as string[]);
+      await recordHistory(pending.selectedText, rewrittenText, pending.response, pending.source);
     }
   } catch (error) {
-    if (streamErrorEmitted) return;
-    chrome.tabs.sendMessage(tabId, {
+    if (!isActive()) return;
+    sendToFrame(target, {
       type: 'STREAM_ERROR',
-      payload: {
-        error: 'Failed to rewrite text. Please try again.',
-      },
-    } as Message);
+      payload: { requestId, ...errorPayload(UNEXPECTED_ERROR), chunk },
+    });
+    sendToFrame(target, { type: 'STREAM_END', payload: { requestId } });
   } finally {
-    activeStreams.delete(tabId);
+    activeStreams.delete(requestId);
   }
 };
 
-chrome.runtime.onMessage.addListener((message: Message, sender) => {
+/** With `isRefinement` the card keeps its current result and streams the refined one as a new version. */
+const runSingleRewrite = async (
+  target: StreamTarget,
+  selectedText: string,
+  options: RewriteOptions,
+  source: RewriteSource,
+  isRefinement = false
+) => {
+  const { requestId, controller, isActive } = beginStream(target);
+
+  try {
+    const aiService = AIService.getInstance();
+
+    sendToFrame(target, {
+      type: 'STREAM_START',
+      payload: isRefinement
+        ? { requestId, isRefinement }
+        : { requestId, ...rewriteContextPayload(selectedText, options, source) },
+    });
+
+    const response = await aiService.rewriteText(
+      selectedText,
+      { ...options, cache: cacheFor(source, options.cache ?? 'use'), signal: controller.signal },
+      {
+        onToken: (token: string) => {
+          if (!isActive()) {
+            return;
+          }
+          sendToFrame(target, {
+            type: 'STREAM_TOKEN',
+            payload: {
+              requestId,
+              token,
+            },
+          });
+        },
+        onComplete: (truncated, spanIssues, resultSource) => {
+          if (!isActive()) {
+            return;
+          }
+          sendToFrame(target, {
+            type: 'STREAM_END',
+            payload: { requestId, truncated, spanIssues, source: resultSource },
+          });
+        },
+        onError: (error) => {
+          if (!isActive()) {
+            return;
+          }
+          sendToFrame(target, {
+            type: 'STREAM_ERROR',
+            payload: { requestId, ...errorPayload(error) },
+          });
+        },
+      }
+    );
+
+    // Failures already reached the card through onError.
+    if (response.success && isActive()) {
+      await recordHistory(selectedText, response.content, response, source);
+    }
+  } catch (error) {
+    if (!isActive()) return;
+    sendToFrame(target, { type: 'STREAM_ERROR', payload: { requestId, ...errorPayload(UNEXPECTED_ERROR) } });
+  } finally {
+    activeStreams.delete(requestId);
+  }
+};
+
+/**
+ * A free-text instruction wins; otherwise the chosen action, or the first enabled one.
+ * An explicit `profileId` wins over the action's own profile.
+ */
+const resolveRewrite = async (
+  actionId: string | undefined,
+  instruction: string | undefined,
+  profileId: string | undefined
+): Promise<{ options: RewriteOptions; action?: RewriteAction }> => {
+  if (instruction?.trim()) {
+    return { options: { instruction: instruction.trim(), profileId } };
+  }
+  const actions = await StorageService.getInstance().getActions();
+  const action =
+    actions.find((item) => item.id === actionId && item.enabled) ?? actions.find((item) => item.enabled);
+  const options = actionToRewriteOptions(action);
+  return { options: profileId ? { ...options, profileId } : options, action };
+};
+
+/** Rewrites a history entry's original text again with another action and saves the result as a new entry. */
+const rerunHistoryEntry = async (
+  entryId: string | undefined,
+  actionId: string | undefined
+): Promise<{ success: boolean; error?: string }> => {
+  const entry = (await HistoryService.getInstance().getEntries()).find((item) => item.id === entryId);
+  if (!entry) {
+    return { success: false, error: 'That rewrite is no longer in the history.' };
+  }
+  const { options, action } = await resolveRewrite(actionId, undefined, undefined);
+  const response = await AIService.getInstance().rewriteText(entry.originalText, options);
+  if (!response.success) {
+    return { success: false, error: response.error?.message };
+  }
+  await recordHistory(entry.originalText, response.content, response, {
+    action,
+    tab: { incognito: false, url: entry.pageUrl, title: entry.pageTitle },
+  });
+  return { success: true };
+};
+
+// The popup is the settings page. Opening it without a click needs Chrome 127+, so fall back to a tab.
+const openSettings = async () => {
+  try {
+    await chrome.action.openPopup();
+  } catch (error) {
+    await chrome.tabs.create({ url: chrome.runtime.getURL('popup.html') });
+  }
+};
+
+chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) => {
+  // Sent by the popup, which has no tab.
+  if (message.type === 'RERUN_HISTORY_ENTRY') {
+    void rerunHistoryEntry(message.payload.entryId, message.payload.actionId)
+      .catch((error) => {
+        console.error('Failed to re-run history entry:', error);
+        return { success: false };
+      })
+      .then(sendResponse);
+    return true;
+  }
+
   const tabId = sender.tab?.id;
   if (!tabId) return false;
+  const target: StreamTarget = { tabId, frameId: sender.frameId ?? 0 };
+  const isSenderStream = (stream: ActiveStream) =>
+    stream.tabId === target.tabId && stream.frameId === target.frameId;
+
+  if (message.type === 'OPEN_SETTINGS') {
+    void openSettings();
+    return false;
+  }
+
+  if (message.type === 'FRAME_FOCUSED') {
+    void setFocusedFrame(tabId, target.frameId);
+    return false;
+  }
 
   if (message.type === 'STREAM_CANCEL') {
-    const activeStream = activeStreams.get(tabId);
-    if (activeStream) {
-      activeStream.cancelled = true;
+    const { requestId } = message.payload;
+    if (!requestId) {
+      cancelStreamsWhere(isSenderStream);
+      return false;
+    }
+    // Only the frame that started a request may cancel it.
+    const stream = activeStreams.get(requestId);
+    if (stream && isSenderStream(stream)) {
+      cancelStream(requestId);
     }
-    AIService.getInstance().cancelStream();
-    chrome.tabs.sendMessage(tabId, {
-      type: 'STREAM_END',
-      payload: {},
-    } as Message);
     return false;
   }
 
-  if (message.type !== 'REWRITE_SELECTED_TEXT') return false;
+  if (
+    message.type !== 'REWRITE_SELECTED_TEXT' &&
+    message.type !== 'REGENERATE_VARIANT' &&
+    message.type !== 'REFINE_REWRITE' &&
+    message.type !== 'RETRY_CHUNK'
+  ) {
+    return false;
+  }
   if (!message.payload.text) return false;
 
-  const defaultInstruction = menuItems[0]?.instruction ?? 'Rewrite the following text in clear, basic English.';
-  void runRewrite(tabId, message.payload.text, defaultInstruction);
+  const { text: selectedText, actionId, instruction, profileId, variant, refinements, chunk, format } =
+    message.payload;
+  void resolveRewrite(actionId, instruction, profileId).then(({ options: resolved, action }) => {
+    const options: RewriteOptions = format === 'html' ? { ...resolved, format } : resolved;
+    const source: RewriteSource = { action, tab: sender.tab, format };
+    if (message.type === 'RETRY_CHUNK') {
+      return chunk === undefined ? undefined : runChunkRetry(target, selectedText, chunk, options, source);
+    }
+    if (message.type === 'REFINE_REWRITE') {
+      const followUp = refinements?.[refinements.length - 1];
+      if (followUp?.role !== 'user') return undefined;
+      return runSingleRewrite(
+        target,
+        selectedText,
+        { ...options, refinements },
+        { ...source, title: `Refined: ${followUp.content}` },
+        true
+      );
+    }
+    if (message.type === 'REGENERATE_VARIANT') {
+      if (variant === undefined) return undefined;
+      // A card with a single result is simply rewritten again, bypassing the cache.
+      if (message.payload.variantCount === 1) {
+        return runSingleRewrite(target, selectedText, { ...options, cache: 'refresh' }, source);
+      }
+      return runVariantRewrite(target, selectedText, options, source, 1, variant);
+    }
+    return runRewrite(target, selectedText, options, source);
+  });
   return false;
 });
 
-const createContextMenus = () => {
-  chrome.contextMenus.removeAll(() => {
-    chrome.contextMenus.create({
-      id: 'aiRewriter',
-      title: 'AI Rewriter',
-      contexts: ['selection', 'editable'],
+/**
+ * Asks a frame for its selection and hands it to the side panel, which picks it
+ * up from session storage. The frame keeps the selection to apply the result to.
+ */
+const sendSelectionToPanel = async (target: StreamTarget): Promise<boolean> => {
+  try {
+    const response = (await chrome.tabs.sendMessage(
+      target.tabId,
+      { type: 'CAPTURE_FOR_PANEL', payload: {} } as Message,
+      { frameId: target.frameId }
+    )) as { selectedText?: string };
+    const text = response?.selectedText?.trim();
+    if (!text) return false;
+    const { title, url, incognito } = await chrome.tabs.get(target.tabId);
+    await StorageService.getInstance().savePanelSource({
+      tabId: target.tabId,
+      frameId: target.frameId,
+      text,
+      pageTitle: title,
+      pageUrl: url,
+      incognito,
     });
-    menuItems.forEach((item) => {
+    return true;
+  } catch (error) {
+    // No content script in that frame (e.g. chrome:// pages) or the tab is gone.
+    return false;
+  }
+};
+
+let panelConnections = 0;
+
+// The side panel streams its rewrites over a port of its own; see SIDE_PANEL_PORT.
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== SIDE_PANEL_PORT) return;
+  panelConnections += 1;
+  const target: StreamTarget = { tabId: chrome.tabs.TAB_ID_NONE, frameId: panelConnections, port };
+
+  port.onMessage.addListener((message: Message) => {
+    if (message.type === 'STREAM_CANCEL') {
+      cancelStreamsWhere((stream) => stream.port === port);
+    } else if (message.type === 'CAPTURE_PAGE_SELECTION') {
+      void (async () => {
+        const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+        const sent = tab?.id
+          ? await sendSelectionToPanel({ tabId: tab.id, frameId: await getFocusedFrame(tab.id) })
+          : false;
+        if (!sent) {
+          sendToFrame(target, { type: 'SHOW_ERROR', payload: { error: 'Select some text on the page first.' } });
+        }
+      })();
+    } else if (message.type === 'REWRITE_SELECTED_TEXT' && message.payload.text) {
+      const { text, actionId, instruction, profileId } = message.payload;
+      // One result per request: the panel streams it straight into its editor, without variants or sections.
+      void (async () => {
+        const [{ options, action }, panelSource] = await Promise.all([
+          resolveRewrite(actionId, instruction, profileId),
+          StorageService.getInstance().getPanelSource(),
+        ]);
+        // Text the panel still holds from a page counts as that page's. Once a page sent incognito
+        // text, the panel's rewrites stay incognito whatever its text has become.
+        const fromPage = panelSource && !panelSource.detached && panelSource.text.includes(text);
+        const tab = panelSource
+          ? {
+              incognito: panelSource.incognito ?? false,
+              url: fromPage ? panelSource.pageUrl : undefined,
+              title: fromPage ? panelSource.pageTitle : undefined,
+            }
+          : undefined;
+        await runSingleRewrite(target, text, options, { action, tab });
+      })();
+    }
+  });
+  port.onDisconnect.addListener(() => cancelStreamsWhere((stream) => stream.port === port));
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  cancelStreamsWhere((stream) => stream.tabId === tabId);
+  forgetChunkedRewrites(tabId);
+  void setFocusedFrame(tabId, null);
+});
+
+// A new page has new frames and no card; until the user focuses a frame, shortcuts go to the top one.
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status !== 'loading') return;
+  forgetChunkedRewrites(tabId);
+  void setFocusedFrame(tabId, null);
+});
+
+const rebuildContextMenus = async () => {
+  const storage = StorageService.getInstance();
+  const [actions, profiles, activeProfile] = await Promise.all([
+    storage.getActions(),
+    storage.getProfiles(),
+    storage.getProfile(),
+  ]);
+  await chrome.contextMenus.removeAll();
+  chrome.contextMenus.create({
+    id: PARENT_MENU_ID,
+    title: 'AI Rewriter',
+    contexts: ['selection', 'editable'],
+  });
+  actions
+    .filter((action) => action.enabled)
+    .forEach((action) => {
       chrome.contextMenus.create({
-        id: item.id,
-        parentId: 'aiRewriter',
-        title: item.title,
+        id: action.id,
+        parentId: PARENT_MENU_ID,
+        title: action.title,
         contexts: ['selection', 'editable'],
       });
     });
+
+  chrome.contextMenus.create({
+    id: SIDE_PANEL_MENU_ID,
+    parentId: PARENT_MENU_ID,
+    title: 'Open in side panel',
+    contexts: ['selection', 'editable'],
   });
+
+  chrome.contextMenus.create({
+    id: `${PARENT_MENU_ID}-separator`,
+    parentId: PARENT_MENU_ID,
+    type: 'separator',
+    contexts: ['selection', 'editable'],
+  });
+  chrome.contextMenus.create({
+    id: PROFILE_MENU_ID,
+    parentId: PARENT_MENU_ID,
+    title: 'Use profile',
+    contexts: ['selection', 'editable'],
+  });
+  profiles.forEach((profile) => {
+    chrome.contextMenus.create({
+      id: `${PROFILE_MENU_PREFIX}${profile.id}`,
+      parentId: PROFILE_MENU_ID,
+      title: profile.name,
+      type: 'radio',
+      checked: profile.id === activeProfile.id,
+      contexts: ['selection', 'editable'],
+    });
+  });
+};
+
+// Rebuilds are chained so rapid edits from the popup never race on duplicate ids.
+let contextMenuRebuild: Promise<void> = Promise.resolve();
+
+const createContextMenus = () => {
+  contextMenuRebuild = contextMenuRebuild
+    .then(rebuildContextMenus)
+    .catch((error) => console.error('Failed to rebuild context menus:', error));
 };
 
 // Ensure menu items exist on install/update and browser startup
 chrome.runtime.onInstalled.addListener(() => {
   createContextMenus();
+  // Older versions kept a single plain-text key in sync storage.
+  void KeyVaultService.getInstance()
+    .migrateLegacyKey()
+    .catch((error) => console.error('Failed to migrate the legacy API key:', error));
 });
 
 chrome.runtime.onStartup.addListener(() => {
   createContextMenus();
 });
 
+// Keep the menu in sync with the actions and profiles edited in the popup
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'sync' && (changes[ACTIONS_KEY] || changes[PROFILES_KEY] || changes[ACTIVE_PROFILE_KEY])) {
+    createContextMenus();
+  }
+});
+
+interface FrameSelection {
+  text: string;
+  /** The selection serialised to the rich-text subset, when it has formatting. */
+  html?: string;
+}
+
+/**
+ * Asks the content script for the live selection, then for the last one it saw
+ * (focus may have moved to the menu or the selection may have collapsed).
+ */
+const getFrameSelection = async (target: StreamTarget): Promise<FrameSelection> => {
+  for (const type of ['GET_SELECTED_TEXT', 'GET_LAST_SELECTION'] as const) {
+    try {
+      const response = (await chrome.tabs.sendMessage(
+        target.tabId,
+        {
+          type,
+          payload: {},
+        } as Message,
+        { frameId: target.frameId }
+      )) as { selectedText?: string; selectedHtml?: string };
+      const selectedText = response?.selectedText?.trim() || '';
+      if (selectedText) return { text: selectedText, html: response.selectedHtml || undefined };
+    } catch (error) {
+      // No content script in this frame (e.g. chrome:// pages); try the next source.
+    }
+  }
+  return { text: '' };
+};
+
+/**
+ * The text to rewrite: the formatted selection when "Preserve formatting" is on
+ * and the page has one, else the plain text (the menu's own copy if it has it).
+ */
+const resolveSelection = async (
+  target: StreamTarget,
+  menuText?: string
+): Promise<{ text: string; format?: TextFormat }> => {
+  const { preserveFormatting } = await StorageService.getInstance().getSettings();
+  if (!preserveFormatting && menuText) return { text: menuText };
+
+  const selection = await getFrameSelection(target);
+  if (preserveFormatting && selection.html) return { text: selection.html, format: 'html' };
+  return { text: menuText || selection.text };
+};
+
 // Handle context menu clicks
 chrome.contextMenus.onClicked.addListener(async (info, tab) => {
-  const menuItem = menuItems.find((item) => item.id === info.menuItemId);
+  const menuItemId = String(info.menuItemId);
+  if (menuItemId === SIDE_PANEL_MENU_ID) {
+    if (!tab?.id) return;
+    // Opening needs the click's user gesture, which does not survive an await.
+    chrome.sidePanel
+      .open({ windowId: tab.windowId })
+      .catch((error) => console.error('Failed to open the side panel:', error));
+    await sendSelectionToPanel({ tabId: tab.id, frameId: info.frameId ?? 0 });
+    return;
+  }
+  if (menuItemId.startsWith(PROFILE_MENU_PREFIX)) {
+    await StorageService.getInstance().setActiveProfileId(menuItemId.slice(PROFILE_MENU_PREFIX.length));
+    return;
+  }
+
+  const actions = await StorageService.getInstance().getActions();
+  const menuItem = actions.find((action) => action.id === info.menuItemId);
   if (menuItem && tab?.id) {
-    let selectedText = info.selectionText || '';
-    const tabId = tab.id; // Store tab.id to ensure it's defined throughout the callbacks
+    // Store the target to ensure tab.id is defined throughout the callbacks.
+    // The menu was opened in the frame holding the selection, which is where the card and the result go.
+    const target: StreamTarget = { tabId: tab.id, frameId: info.frameId ?? 0 };
+    const { text, format } = await resolveSelection(target, info.selectionText);
+    if (!text) return;
 
-    if (!selectedText) {
-      try {
-        const response = (await chrome.tabs.sendMessage(tabId, {
-          type: 'GET_SELECTED_TEXT',
-          payload: {},
-        } as Message)) as { selectedText?: string };
-        selectedText = response?.selectedText?.trim() || '';
-      } catch (error) {
-        selectedText = '';
-      }
-    }
+    await runRewrite(target, text, { ...actionToRewriteOptions(menuItem), format }, { action: menuItem, tab, format });
+  }
+});
 
-    if (!selectedText) {
-      try {
-        const response = (await chrome.tabs.sendMessage(tabId, {
-          type: 'GET_LAST_SELECTION',
-          payload: {},
-        } as Message)) as { selectedText?: string };
-        selectedText = response?.selectedText?.trim() || '';
-      } catch (error) {
-        selectedText = '';
-      }
-    }
+const COMMAND_MESSAGES: Partial<Record<string, Message['type']>> = {
+  [COMMANDS.openActionPicker]: 'OPEN_ACTION_PICKER',
+  [COMMANDS.applySuggestion]: 'APPLY_SUGGESTION',
+  [COMMANDS.cancelRewrite]: 'CANCEL_REWRITE',
+};
 
-    if (!selectedText) return;
+// Keyboard shortcuts declared under "commands" in the manifest
+chrome.commands.onCommand.addListener(async (command, commandTab) => {
+  const tab = commandTab ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+  if (!tab?.id) return;
+  const target: StreamTarget = { tabId: tab.id, frameId: await getFocusedFrame(tab.id) };
 
-    await runRewrite(tabId, selectedText, menuItem.instruction);
+  const messageType = COMMAND_MESSAGES[command];
+  if (messageType) {
+    sendToFrame(target, { type: messageType, payload: {} });
+    return;
   }
+
+  if (!REWRITE_COMMANDS.includes(command)) return;
+  const storage = StorageService.getInstance();
+  const [actions, bindings, { text, format }] = await Promise.all([
+    storage.getActions(),
+    storage.getCommandBindings(),
+    resolveSelection(target),
+  ]);
+  if (!text) return;
+
+  const action = resolveCommandAction(command, actions, bindings);
+  await runRewrite(target, text, { ...actionToRewriteOptions(action), format }, { action, tab, format });
 });
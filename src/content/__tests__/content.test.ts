@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Message } from '../../types';
+
+const storage = vi.hoisted(() => ({
+  getAppearance: async () => ({ theme: 'dark', accentColor: '#3d8fd9', cardPlacement: 'inline' }),
+  getActions: vi.fn(),
+  getProfiles: async () => [{ id: 'default', name: 'Default', provider: 'openai' }],
+  getProfile: async () => ({ id: 'default', name: 'Default', provider: 'openai' }),
+  getSettings: async () => ({ preserveFormatting: false }),
+}));
+
+vi.mock('../../services/storage.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/storage.service')>()),
+  StorageService: { getInstance: () => storage },
+}));
+
+type MessageListener = (message: Message, sender: unknown, sendResponse: (response?: unknown) => void) => unknown;
+
+const messageListeners: MessageListener[] = [];
+
+const sendToContent = (message: Message) => messageListeners.forEach((listener) => listener(message, {}, () => {}));
+
+// The UI lives in a closed shadow root; keep a handle on it to see what it shows and where the focus is.
+let uiRoot: ShadowRoot;
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const mountSelection = (value: string, start: number, end: number) => {
+  const textarea = document.createElement('textarea');
+  textarea.value = value;
+  document.body.appendChild(textarea);
+  textarea.focus();
+  textarea.setSelectionRange(start, end);
+  return textarea;
+};
+
+const pressKey = (key: string) =>
+  uiRoot.activeElement?.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+
+const focusedLabel = () => {
+  const focused = uiRoot.activeElement as HTMLElement | null;
+  return focused instanceof HTMLInputElement ? focused.placeholder : focused?.textContent;
+};
+
+describe('content script', () => {
+  beforeAll(async () => {
+    vi.stubGlobal(
+      'ResizeObserver',
+      class {
+        observe() {}
+        disconnect() {}
+      }
+    );
+    const attachShadow = Element.prototype.attachShadow;
+    Element.prototype.attachShadow = function (init: ShadowRootInit) {
+      uiRoot = attachShadow.call(this, init);
+      return uiRoot;
+    };
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      runtime: {
+        id: 'test',
+        onMessage: { addListener: (listener: MessageListener) => messageListeners.push(listener) },
+        sendMessage: vi.fn(),
+      },
+      storage: { onChanged: { addListener: vi.fn() } },
+    } as unknown as typeof chrome;
+    await import('../content');
+    Element.prototype.attachShadow = attachShadow;
+    // Lets the appearance, with its inline card placement, load.
+    await settle();
+  });
+
+  afterEach(() => {
+    document.querySelectorAll('textarea').forEach((textarea) => textarea.remove());
+  });
+
+  it('applies the inline card with Enter while the card itself has the focus', () => {
+    const textarea = mountSelection('Teh quick fox', 0, 3);
+
+    sendToContent({ type: 'REWRITE_TEXT', payload: { text: 'The' } });
+    expect(document.activeElement).not.toBe(textarea);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+    expect(textarea.value).toBe('The quick fox');
+  });
+
+  it('moves through the action picker with the arrow keys, Home and End', async () => {
+    storage.getActions.mockResolvedValue([
+      { id: 'fix', title: 'Fix grammar', instruction: 'Fix the grammar.', enabled: true },
+      { id: 'short', title: 'Shorten', instruction: 'Make it shorter.', enabled: true },
+      { id: 'off', title: 'Disabled', instruction: 'Never shown.', enabled: false },
+    ]);
+    mountSelection('Teh quick fox', 0, 3);
+
+    sendToContent({ type: 'OPEN_ACTION_PICKER', payload: {} });
+    await settle();
+    expect(focusedLabel()).toBe('Fix grammar');
+
+    pressKey('ArrowDown');
+    expect(focusedLabel()).toBe('Shorten');
+    pressKey('End');
+    expect(focusedLabel()).toBe('Custom instruction…');
+    pressKey('ArrowDown');
+    expect(focusedLabel()).toBe('Fix grammar');
+    pressKey('ArrowUp');
+    expect(focusedLabel()).toBe('Custom instruction…');
+    pressKey('ArrowUp');
+    pressKey('Home');
+    expect(focusedLabel()).toBe('Fix grammar');
+
+    pressKey('Escape');
+    expect(uiRoot.querySelector('[role="menu"]')?.classList.contains('is-open')).toBe(false);
+  });
+
+  it('says so when the actions cannot be loaded', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.getActions.mockRejectedValue(new Error('Extension context invalidated.'));
+    mountSelection('Teh quick fox', 0, 3);
+
+    sendToContent({ type: 'OPEN_ACTION_PICKER', payload: {} });
+    await settle();
+
+    expect(consoleError).toHaveBeenCalled();
+    expect(uiRoot.querySelector('.toast.is-open')?.textContent).toContain('Could not load your actions');
+    consoleError.mockRestore();
+  });
+});
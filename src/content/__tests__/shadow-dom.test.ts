@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { getDeepActiveElement, getDeepSelection } from '../shadow-dom';
+
+// A web-component editor: a textarea and a paragraph inside two levels of open shadow roots.
+const createNestedEditor = () => {
+  const outer = document.createElement('rich-editor');
+  document.body.appendChild(outer);
+  const outerRoot = outer.attachShadow({ mode: 'open' });
+  const inner = document.createElement('editor-field');
+  outerRoot.appendChild(inner);
+  const innerRoot = inner.attachShadow({ mode: 'open' });
+  const textarea = document.createElement('textarea');
+  const paragraph = document.createElement('p');
+  paragraph.textContent = 'Hello from the shadow';
+  innerRoot.append(textarea, paragraph);
+  return { outer, inner, innerRoot, textarea, paragraph };
+};
+
+// jsdom has no ShadowRoot.getSelection; give the root a selection over `node` the way Chrome does.
+const stubRootSelection = (root: ShadowRoot, node: Node) => {
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  const selection = {
+    rangeCount: 1,
+    isCollapsed: false,
+    getRangeAt: () => range,
+    toString: () => range.toString(),
+  } as unknown as Selection;
+  Object.assign(root, { getSelection: () => selection });
+  return selection;
+};
+
+describe('getDeepActiveElement', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('follows the focus through open shadow roots', () => {
+    const { textarea } = createNestedEditor();
+    textarea.focus();
+
+    expect(document.activeElement?.tagName).toBe('RICH-EDITOR');
+    expect(getDeepActiveElement()).toBe(textarea);
+  });
+
+  it('stops at closed shadow roots', () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const input = document.createElement('input');
+    host.attachShadow({ mode: 'closed' }).appendChild(input);
+    input.focus();
+
+    expect(getDeepActiveElement()).toBe(host);
+  });
+});
+
+describe('getDeepSelection', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    window.getSelection()?.removeAllRanges();
+  });
+
+  it('returns the page selection outside shadow roots', () => {
+    const paragraph = document.createElement('p');
+    paragraph.textContent = 'Plain page text';
+    document.body.appendChild(paragraph);
+    window.getSelection()?.selectAllChildren(paragraph);
+
+    expect(getDeepSelection()?.toString()).toBe('Plain page text');
+  });
+
+  it('asks the shadow root that holds the focus', () => {
+    const { innerRoot, textarea, paragraph } = createNestedEditor();
+    const selection = stubRootSelection(innerRoot, paragraph);
+    textarea.focus();
+
+    expect(getDeepSelection()).toBe(selection);
+  });
+
+  it('asks the root of the host the page selection is collapsed on', () => {
+    const { outer, paragraph } = createNestedEditor();
+    const outerSelection = stubRootSelection(outer.shadowRoot as ShadowRoot, paragraph);
+    window.getSelection()?.collapse(document.body, Array.from(document.body.childNodes).indexOf(outer));
+
+    expect(getDeepSelection()).toBe(outerSelection);
+  });
+});
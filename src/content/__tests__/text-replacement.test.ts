@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applyReplacement, captureReplacementTarget } from '../text-replacement';
+
+const mountField = <T extends HTMLInputElement | HTMLTextAreaElement>(
+  field: T,
+  value: string,
+  start: number,
+  end: number
+) => {
+  field.value = value;
+  document.body.appendChild(field);
+  field.focus();
+  field.setSelectionRange(start, end);
+  return field;
+};
+
+const selectContents = (start: Node, startOffset: number, end: Node, endOffset: number) => {
+  const range = document.createRange();
+  range.setStart(start, startOffset);
+  range.setEnd(end, endOffset);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+describe('text replacement', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    window.getSelection()?.removeAllRanges();
+  });
+
+  it('replaces and restores a partial selection in an input', () => {
+    const input = mountField(document.createElement('input'), 'Teh quick fox', 0, 3);
+    const onInput = vi.fn();
+    input.addEventListener('input', onInput);
+
+    const target = captureReplacementTarget();
+    expect(target).toMatchObject({ kind: 'input', start: 0, end: 3, text: 'Teh' });
+
+    const applied = applyReplacement(target!, 'The');
+    expect(input.value).toBe('The quick fox');
+    expect(onInput).toHaveBeenCalled();
+
+    expect(applied?.undo()).toBe(true);
+    expect(input.value).toBe('Teh quick fox');
+  });
+
+  it('keeps the whitespace around a textarea selection', () => {
+    const textarea = mountField(document.createElement('textarea'), 'One\n teh fox \nTwo', 4, 13);
+
+    const applied = applyReplacement(captureReplacementTarget()!, 'the fox');
+
+    expect(textarea.value).toBe('One\n the fox \nTwo');
+    expect(applied?.undo()).toBe(true);
+    expect(textarea.value).toBe('One\n teh fox \nTwo');
+  });
+
+  it('leaves a field alone when the page changed the text in the meantime', () => {
+    const textarea = mountField(document.createElement('textarea'), 'Teh quick fox', 0, 3);
+    const target = captureReplacementTarget()!;
+
+    const applied = applyReplacement(target, 'The');
+    textarea.value = 'A quick fox';
+
+    expect(applied?.undo()).toBe(false);
+    expect(textarea.value).toBe('A quick fox');
+
+    textarea.value = 'Something else';
+    expect(applyReplacement(target, 'The')).toBeNull();
+  });
+
+  it('replaces and restores a range across formatted contenteditable text', () => {
+    const host = document.createElement('div');
+    host.contentEditable = 'true';
+    host.innerHTML = '<p>Hello <b>big</b> wrld</p>';
+    document.body.appendChild(host);
+    const [hello, bold, world] = Array.from(host.firstChild!.childNodes);
+    selectContents(bold.firstChild!, 0, world, 5);
+
+    const target = captureReplacementTarget();
+    expect(target).toMatchObject({ kind: 'range', text: 'big wrld' });
+
+    const applied = applyReplacement(target!, 'small world');
+    expect(host.textContent).toBe('Hello small world');
+    expect(hello.isConnected).toBe(true);
+
+    expect(applied?.undo()).toBe(true);
+    expect(host.textContent).toBe('Hello big wrld');
+    expect(host.innerHTML).toContain('<b>big</b> wrld');
+  });
+
+  it('does not undo a range the page has edited since', () => {
+    const host = document.createElement('div');
+    host.contentEditable = 'true';
+    host.innerHTML = '<p>Teh fox</p>';
+    document.body.appendChild(host);
+    const text = host.firstChild!.firstChild!;
+    selectContents(text, 0, text, 3);
+
+    const applied = applyReplacement(captureReplacementTarget()!, 'The');
+    expect(host.textContent).toBe('The fox');
+    const inserted = Array.from(host.firstChild!.childNodes).find((node) => node.textContent === 'The')!;
+    inserted.textContent = 'A';
+
+    expect(applied?.undo()).toBe(false);
+    expect(host.textContent).toBe('A fox');
+  });
+});
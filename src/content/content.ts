@@ -1,20 +1,172 @@
-import { Message } from '../types';
+import { APPEARANCE_KEY, StorageService } from '../services/storage.service';
+import {
+  Appearance,
+  Message,
+  PromptMessage,
+  ProtectedSpanIssues,
+  ResultSource,
+  RewriteErrorCode,
+  SettingsProfile,
+  TextChunk,
+  TextFormat,
+} from '../types';
+import { ERROR_ACTION_LABELS, ErrorAction, getErrorActions, getErrorTitle } from '../utils/rewrite-errors';
+import { extractHrefs, richTextToPlainText, sanitizeRichText } from '../utils/rich-text';
+import { joinChunks } from '../utils/text-chunks';
+import { DEFAULT_APPEARANCE } from '../utils/theme';
+import { diffWords } from '../utils/word-diff';
+import { getEditorSelectionRect, readEditorSelection } from './editor-client';
+import { getTargetHtml } from './rich-text-selection';
+import { getDeepActiveElement, getDeepSelection } from './shadow-dom';
+import {
+  AppliedReplacement,
+  ReplacementTarget,
+  applyReplacement,
+  captureReplacementTarget,
+} from './text-replacement';
+import { createButton, createIconButton } from './ui/button';
+import { clampToViewport, createCard, getAnchoredCardPosition } from './ui/card';
+import { makeDraggable } from './ui/drag';
+import { Popover } from './ui/popover';
+import { UIRoot, applyAppearance, createUIRoot } from './ui/root';
+import { Toast, ToastAction } from './ui/toast';
+
+type CardView = 'result' | 'original' | 'diff';
+
+/** One alternative rewrite shown in the card; a plain rewrite is a single variant. */
+interface VariantState {
+  text: string;
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+  /** The response stopped at the max tokens limit. */
+  truncated?: boolean;
+  /** Protected spans the model dropped or repeated. */
+  spanIssues?: ProtectedSpanIssues;
+  /** The provider and model that wrote it. */
+  source?: ResultSource;
+}
+
+/** One section of a long selection that is rewritten in chunks. */
+interface ChunkSection extends TextChunk {
+  output: string;
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+  truncated?: boolean;
+  spanIssues?: ProtectedSpanIssues;
+  source?: ResultSource;
+}
+
+/** What the background needs to regenerate a variant or refine the current result. */
+interface RewriteContext {
+  text: string;
+  actionId?: string;
+  instruction?: string;
+  profileId?: string;
+  format?: TextFormat;
+}
+
+/** One entry in the card's back/forward stack: the first rewrite or a refinement of it. */
+interface CardVersion {
+  variants: VariantState[];
+  activeVariant: number;
+  /** Result and follow-up turns sent after the rewrite prompt to produce this version. */
+  refinements: PromptMessage[];
+}
+
+// Long spans (e.g. code blocks) are shortened in the warning.
+const MAX_SPAN_PREVIEW = 40;
+
+const formatSpanIssues = ({ missing, duplicated }: ProtectedSpanIssues): string => {
+  const list = (spans: string[]) =>
+    spans
+      .map((span) => `“${span.length > MAX_SPAN_PREVIEW ? `${span.slice(0, MAX_SPAN_PREVIEW)}…` : span}”`)
+      .join(', ');
+  const parts = [
+    missing.length > 0 ? `dropped ${list(missing)}` : '',
+    duplicated.length > 0 ? `repeated ${list(duplicated)}` : '',
+  ];
+  const changes = parts.filter(Boolean).join(' and ');
+  return `⚠ The rewrite ${changes}, which should stay unchanged. Check it before applying.`;
+};
+
+const formatSources = (sources: ResultSource[]): string => {
+  const labels = Array.from(
+    new Set(
+      sources.map(
+        ({ providerLabel, model, fallback }) => `${providerLabel} · ${model}${fallback ? ' (fallback)' : ''}`
+      )
+    )
+  );
+  return `Written by ${labels.join(', ')}`;
+};
+
+const CARD_VIEW_LABELS: Record<CardView, string> = {
+  result: 'Result',
+  original: 'Original',
+  diff: 'Diff',
+};
 
 class ContentScript {
-  private toast: HTMLDivElement | null = null;
+  private readonly ui: UIRoot;
+  private readonly toast: Toast;
+  private appearance: Appearance = DEFAULT_APPEARANCE;
   private suggestionCard: HTMLDivElement | null = null;
   private suggestionContent: HTMLDivElement | null = null;
+  private originalContent: HTMLDivElement | null = null;
+  private diffContent: HTMLDivElement | null = null;
+  private truncationNotice: HTMLDivElement | null = null;
+  private spanNotice: HTMLDivElement | null = null;
+  private sourceLabel: HTMLDivElement | null = null;
+  private cardError: HTMLDivElement | null = null;
+  private cardErrorTitle: HTMLDivElement | null = null;
+  private cardErrorMessage: HTMLDivElement | null = null;
+  private cardErrorActions: HTMLDivElement | null = null;
+  /** The conversation of a refinement that failed, so Retry can send it again. */
+  private failedRefinements: PromptMessage[] | null = null;
+  private chunkSections: ChunkSection[] | null = null;
+  private chunkRenderRaf: number | null = null;
+  private viewButtons: Partial<Record<CardView, HTMLButtonElement>> = {};
+  private cardView: CardView = 'result';
+  private diffRenderedFor: string | null = null;
+  private variantTabs: HTMLDivElement | null = null;
+  private variants: VariantState[] = [];
+  private activeVariant: number = 0;
+  private rewriteContext: RewriteContext | null = null;
+  private versions: CardVersion[] = [];
+  private currentVersion: number = 0;
+  private pendingRefinements: PromptMessage[] | null = null;
+  private versionNav: HTMLDivElement | null = null;
+  private versionLabel: HTMLSpanElement | null = null;
+  private versionBackButton: HTMLButtonElement | null = null;
+  private versionForwardButton: HTMLButtonElement | null = null;
+  private refineInput: HTMLInputElement | null = null;
+  private refineButton: HTMLButtonElement | null = null;
   private overlay: HTMLDivElement | null = null;
+  /** Set once the user drags or resizes an inline card; it then stays where they left it. */
+  private isCardPlaced: boolean = false;
+  private cardPositionRaf: number | null = null;
   private currentSelection: Selection | null = null;
   private rewrittenText: string = '';
   private originalText: string = '';
   private isStreaming: boolean = false;
+  private activeRequestId: string | null = null;
   private streamContent: string = '';
   private typingSpeed: number = 1; // Adjust typing speed (lower = faster)
   private selectionButton: HTMLButtonElement | null = null;
+  private actionPicker: Popover | null = null;
+  private actionPickerList: HTMLDivElement | null = null;
+  private customInstructionInput: HTMLInputElement | null = null;
+  private actionPickerText: string = '';
+  private actionPickerFormat: TextFormat | undefined;
+  private actionPickerProfileSelect: HTMLSelectElement | null = null;
   private selectionText: string = '';
   private pendingSelectionText: string = '';
   private lastSelectionText: string = '';
+  private lastSelectionTarget: ReplacementTarget | null = null;
+  private replacementTarget: ReplacementTarget | null = null;
+  /** The selection last sent to the side panel, which its result replaces. */
+  private panelTarget: ReplacementTarget | null = null;
+  private lastReplacement: AppliedReplacement | null = null;
   private isSelectionButtonPressed: boolean = false;
   private selectionUpdateRaf: number | null = null;
   private escapeKeyListenerAttached: boolean = false;
@@ -23,100 +175,69 @@ class ContentScript {
   private streamTextNode: Text | null = null;
   private streamCursor: HTMLSpanElement | null = null;
   private copyButton: HTMLButtonElement | null = null;
+  private applyButton: HTMLButtonElement | null = null;
   private stopButton: HTMLButtonElement | null = null;
+  private regenerateButton: HTMLButtonElement | null = null;
   private closeButton: HTMLButtonElement | null = null;
-  private static readonly cursorStyleId = 'ai-rewriter-cursor-style';
 
   constructor() {
+    this.ui = createUIRoot();
+    this.toast = new Toast(this.ui.root);
     this.initializeMessageListener();
-    this.ensureCursorStyles();
-    this.createToastElement();
+    this.initializeFrameFocusReporting();
+    this.initializeAppearance();
     this.createOverlay();
     this.createSuggestionCard();
     this.initializeDismissListeners();
     this.createSelectionButton();
+    this.createActionPicker();
     this.initializeSelectionListeners();
   }
 
-  private ensureCursorStyles(): void {
-    if (document.getElementById(ContentScript.cursorStyleId)) {
-      return;
+  // Keyboard shortcuts reach the background without a frame, so every frame says when the user moves into it.
+  private initializeFrameFocusReporting(): void {
+    const report = () => this.sendRuntimeMessage({ type: 'FRAME_FOCUSED', payload: {} });
+    window.addEventListener('focus', report);
+    if (document.hasFocus()) report();
+  }
+
+  private initializeAppearance(): void {
+    this.refreshAppearance();
+    if (!this.isRuntimeAvailable()) return;
+
+    void this.loadAppearance();
+    try {
+      chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName === 'sync' && changes[APPEARANCE_KEY]) void this.loadAppearance();
+      });
+    } catch (error) {
+      // Extension context can be invalidated; ignore if runtime APIs are unavailable.
     }
+    window.matchMedia?.('(prefers-color-scheme: dark)').addEventListener('change', () => this.refreshAppearance());
+  }
 
-    const style = document.createElement('style');
-    style.id = ContentScript.cursorStyleId;
-    style.textContent = `
-      @keyframes blink {
-        50% { opacity: 0; }
-      }
+  private async loadAppearance(): Promise<void> {
+    this.appearance = await StorageService.getInstance().getAppearance();
+    this.refreshAppearance();
+  }
 
-      .typing-cursor {
-        display: inline-block;
-        animation: blink 1s step-end infinite;
-      }
-    `;
-
-    document.head?.appendChild(style);
-  }
-
-  private createToastElement(): void {
-    this.toast = document.createElement('div');
-    this.toast.style.cssText = `
-      position: fixed;
-      bottom: 20px;
-      right: 20px;
-      padding: 16px;
-      background: #333;
-      color: white;
-      border-radius: 8px;
-      z-index: 10001;
-      display: none;
-      max-width: 300px;
-      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-      font-family: system-ui, -apple-system, sans-serif;
-    `;
-    document.body.appendChild(this.toast);
+  // `auto` depends on the page, which can change its colours after load, so this runs again before showing UI.
+  private refreshAppearance(): void {
+    applyAppearance(this.ui, this.appearance);
   }
 
   private createOverlay(): void {
     this.overlay = document.createElement('div');
-    this.overlay.style.cssText = `
-      position: fixed;
-      top: 0;
-      left: 0;
-      width: 100%;
-      height: 100%;
-      background: rgba(0, 0, 0, 0.5);
-      z-index: 10000;
-      display: none;
-      backdrop-filter: blur(2px);
-    `;
+    this.overlay.className = 'overlay';
     this.overlay.addEventListener('click', () => this.hideSuggestionCard());
-    document.body.appendChild(this.overlay);
+    this.ui.root.appendChild(this.overlay);
   }
 
   private createSelectionButton(): void {
     this.selectionButton = document.createElement('button');
     this.selectionButton.type = 'button';
     this.selectionButton.setAttribute('aria-label', 'Rewrite selected text');
-    this.selectionButton.style.cssText = `
-      position: fixed;
-      width: 28px;
-      height: 28px;
-      border-radius: 50%;
-      border: none;
-      background: #3c3c3c;
-      color: #fff;
-      font-weight: 700;
-      font-size: 12px;
-      cursor: pointer;
-      display: none;
-      align-items: center;
-      justify-content: center;
-      box-shadow: 0 4px 10px rgba(0, 0, 0, 0.25);
-      z-index: 10002;
-      transition: transform 0.15s ease, background-color 0.2s ease;
-    `;
+    this.selectionButton.className = 'selection-button';
     this.selectionButton.textContent = 'AI';
     this.selectionButton.addEventListener('pointerdown', (event) => {
       event.preventDefault();
@@ -126,24 +247,13 @@ class ContentScript {
       if (selectionText) {
         this.pendingSelectionText = selectionText;
         this.selectionText = selectionText;
+        this.lastSelectionTarget = captureReplacementTarget() ?? this.lastSelectionTarget;
       }
     });
     this.selectionButton.addEventListener('pointercancel', () => {
       this.isSelectionButtonPressed = false;
       this.pendingSelectionText = '';
     });
-    this.selectionButton.addEventListener('mouseenter', () => {
-      if (this.selectionButton) {
-        this.selectionButton.style.backgroundColor = '#4c4c4c';
-        this.selectionButton.style.transform = 'scale(1.05)';
-      }
-    });
-    this.selectionButton.addEventListener('mouseleave', () => {
-      if (this.selectionButton) {
-        this.selectionButton.style.backgroundColor = '#3c3c3c';
-        this.selectionButton.style.transform = 'scale(1)';
-      }
-    });
     this.selectionButton.addEventListener('click', (event) => {
       event.preventDefault();
       event.stopPropagation();
@@ -160,146 +270,690 @@ class ContentScript {
         this.isSelectionButtonPressed = false;
         return;
       }
-      this.sendRuntimeMessage({
-        type: 'REWRITE_SELECTED_TEXT',
-        payload: { text },
-      });
+      const anchorRect = this.selectionButton?.getBoundingClientRect();
       this.pendingSelectionText = '';
       this.hideSelectionButton();
       this.isSelectionButtonPressed = false;
+      if (anchorRect) {
+        this.showActionPicker(text, anchorRect);
+      }
     });
-    document.body.appendChild(this.selectionButton);
+    this.ui.root.appendChild(this.selectionButton);
   }
 
-  private createSuggestionCard(): void {
-    this.suggestionCard = document.createElement('div');
-    this.suggestionCard.style.cssText = `
-      position: fixed;
-      top: 50%;
-      left: 50%;
-      transform: translate(-50%, -50%);
-      padding: 20px;
-      background: #2c2c2c;
-      color: white;
-      border-radius: 12px;
-      z-index: 10001;
-      display: none;
-      width: 90%;
-      max-width: 500px;
-      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
-      font-family: system-ui, -apple-system, sans-serif;
-      border: 1px solid #3c3c3c;
-      animation: fadeIn 0.3s ease-out;
-    `;
-
-    const header = document.createElement('div');
-    header.style.cssText = `
-      display: flex;
-      align-items: center;
-      margin-bottom: 16px;
-      padding-bottom: 12px;
-      border-bottom: 1px solid #3c3c3c;
-    `;
-
-    const title = document.createElement('div');
-    title.textContent = 'AI Rewriter';
-    title.style.cssText = `
-      font-weight: 600;
-      font-size: 16px;
-      color: #fff;
-      flex-grow: 1;
-    `;
-
-    const closeButton = document.createElement('button');
-    this.closeButton = closeButton;
-    closeButton.innerHTML = '✕';
-    closeButton.style.cssText = `
-      background: none;
-      border: none;
-      color: #999;
-      cursor: pointer;
-      padding: 4px;
-      font-size: 16px;
-      line-height: 1;
-      transition: color 0.2s;
-    `;
-    closeButton.addEventListener('mouseover', () => {
-      closeButton.style.color = '#fff';
+  private createActionPicker(): void {
+    this.actionPicker = new Popover(this.ui.root, { role: 'menu', label: 'Rewrite actions' });
+
+    this.actionPickerList = document.createElement('div');
+    this.actionPickerList.className = 'menu-list';
+
+    this.customInstructionInput = document.createElement('input');
+    this.customInstructionInput.type = 'text';
+    this.customInstructionInput.placeholder = 'Custom instruction…';
+    this.customInstructionInput.setAttribute('aria-label', 'Custom instruction');
+    this.customInstructionInput.className = 'input';
+    this.customInstructionInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && this.customInstructionInput?.value.trim()) {
+        event.preventDefault();
+        this.submitActionPicker({ instruction: this.customInstructionInput.value.trim() });
+      }
     });
-    closeButton.addEventListener('mouseout', () => {
-      closeButton.style.color = '#999';
+
+    // Rewrites with another profile once, without switching the active one.
+    this.actionPickerProfileSelect = document.createElement('select');
+    this.actionPickerProfileSelect.setAttribute('aria-label', 'Profile');
+    this.actionPickerProfileSelect.className = 'select';
+
+    const picker = this.actionPicker.element;
+    picker.addEventListener('keydown', (event) => this.handleActionPickerKeydown(event));
+    picker.appendChild(this.actionPickerList);
+    picker.appendChild(this.customInstructionInput);
+    picker.appendChild(this.actionPickerProfileSelect);
+  }
+
+  // Storage reads fail once the extension is reloaded under the page; say so rather than leave the picker shut.
+  private showActionPicker(text: string, anchorRect: DOMRect): void {
+    this.openActionPicker(text, anchorRect).catch((error) => {
+      console.error('Failed to open the action picker:', error);
+      this.showToast('Could not load your actions. Reload the page and try again.', true);
     });
-    closeButton.addEventListener('click', () => this.hideSuggestionCard());
+  }
+
+  private async openActionPicker(text: string, anchorRect: DOMRect): Promise<void> {
+    if (!this.actionPicker || !this.actionPickerList || !this.customInstructionInput) return;
+
+    const storage = StorageService.getInstance();
+    const [allActions, profiles, activeProfile, { preserveFormatting }] = await Promise.all([
+      storage.getActions(),
+      storage.getProfiles(),
+      storage.getProfile(),
+      storage.getSettings(),
+    ]);
+    const actions = allActions.filter((action) => action.enabled);
+    const html = preserveFormatting ? getTargetHtml(captureReplacementTarget() ?? this.lastSelectionTarget) : null;
+    this.actionPickerText = html ?? text;
+    this.actionPickerFormat = html ? 'html' : undefined;
+    this.actionPickerList.innerHTML = '';
+    this.customInstructionInput.value = '';
+    this.populateActionPickerProfiles(profiles, activeProfile.id);
+
+    actions.forEach((action) => {
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.setAttribute('role', 'menuitem');
+      item.textContent = action.title;
+      item.title = action.instruction;
+      item.className = 'menu-item';
+      item.addEventListener('mouseenter', () => item.focus());
+      item.addEventListener('click', () => this.submitActionPicker({ actionId: action.id }));
+      this.actionPickerList?.appendChild(item);
+    });
+
+    this.refreshAppearance();
+    this.actionPicker.open(anchorRect);
+    this.getActionPickerItems()[0]?.focus();
+  }
 
-    header.appendChild(title);
-    header.appendChild(closeButton);
+  private populateActionPickerProfiles(profiles: SettingsProfile[], activeId: string): void {
+    const select = this.actionPickerProfileSelect;
+    if (!select) return;
+    select.innerHTML = '';
+    profiles.forEach((profile) => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = profile.id === activeId ? `${profile.name} (active)` : profile.name;
+      select.appendChild(option);
+    });
+    select.value = activeId;
+    select.dataset.activeId = activeId;
+    select.style.display = profiles.length > 1 ? 'block' : 'none';
+  }
+
+  // Keyboard entry point: anchor to the selection, or near the top centre when it has no box.
+  private openActionPickerForSelection(): void {
+    const text = this.getSelectedText() || this.lastSelectionText;
+    if (!text) {
+      this.showToast('Select some text to rewrite first.', true);
+      return;
+    }
+    const anchorRect =
+      this.getSelectionRect() ?? new DOMRect(window.innerWidth / 2 + 120, window.innerHeight / 3, 0, 0);
+    this.hideSelectionButton();
+    this.showActionPicker(text, anchorRect);
+  }
+
+  private getActionPickerItems(): HTMLElement[] {
+    const items: HTMLElement[] = Array.from(
+      this.actionPickerList?.querySelectorAll<HTMLButtonElement>('[role="menuitem"]') ?? []
+    );
+    if (this.customInstructionInput) {
+      items.push(this.customInstructionInput);
+    }
+    return items;
+  }
+
+  private handleActionPickerKeydown(event: KeyboardEvent): void {
+    // Arrow keys belong to the profile select while it has focus.
+    if (event.target === this.actionPickerProfileSelect && event.key !== 'Escape') return;
+    const items = this.getActionPickerItems();
+    const focused = this.ui.root.activeElement;
+    const currentIndex = items.indexOf(focused as HTMLElement);
+    let nextIndex: number | null = null;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        nextIndex = (currentIndex + 1) % items.length;
+        break;
+      case 'ArrowUp':
+        nextIndex = (currentIndex - 1 + items.length) % items.length;
+        break;
+      case 'Home':
+        if (focused !== this.customInstructionInput) nextIndex = 0;
+        break;
+      case 'End':
+        if (focused !== this.customInstructionInput) nextIndex = items.length - 1;
+        break;
+      case 'Escape':
+        event.preventDefault();
+        event.stopPropagation();
+        this.closeActionPicker();
+        return;
+      default:
+        return;
+    }
+
+    if (nextIndex !== null) {
+      event.preventDefault();
+      items[nextIndex]?.focus();
+    }
+  }
+
+  private submitActionPicker(choice: { actionId?: string; instruction?: string }): void {
+    const text = this.actionPickerText;
+    this.closeActionPicker();
+    if (!text) return;
+    if (this.isStreaming) {
+      this.showToast('Stop the current rewrite before starting a new one.', true);
+      return;
+    }
+
+    const profileSelect = this.actionPickerProfileSelect;
+    // Only an explicit choice is sent, so actions keep their own profile otherwise.
+    const profileId =
+      profileSelect && profileSelect.value !== profileSelect.dataset.activeId ? profileSelect.value : undefined;
+    this.sendRuntimeMessage({
+      type: 'REWRITE_SELECTED_TEXT',
+      payload: { text, ...choice, profileId, format: this.actionPickerFormat },
+    });
+  }
+
+  private isActionPickerOpen(): boolean {
+    return this.actionPicker?.isOpen() ?? false;
+  }
+
+  private closeActionPicker(): void {
+    this.actionPicker?.close();
+    this.actionPickerText = '';
+  }
+
+  private createSuggestionCard(): void {
+    const card = createCard('AI Rewriter', () => this.hideSuggestionCard());
+    this.suggestionCard = card.element;
+    this.closeButton = card.closeButton;
+    card.header.insertBefore(this.createVersionNav(), card.closeButton);
+    makeDraggable(card.element, card.header, {
+      isEnabled: () => this.isInlineCard(),
+      onDragStart: () => {
+        this.isCardPlaced = true;
+      },
+    });
+    // Streaming grows the card, so an anchored card is placed again to keep it clear of the selection.
+    // Dragging the resize corner leaves an inline size behind, which marks the card as placed by the user.
+    new ResizeObserver(() => {
+      if (this.suggestionCard?.style.height) this.isCardPlaced = true;
+      this.scheduleCardPosition();
+    }).observe(card.element);
+
+    const viewToggle = this.createViewToggle();
+
+    this.variantTabs = document.createElement('div');
+    this.variantTabs.setAttribute('role', 'tablist');
+    this.variantTabs.setAttribute('aria-label', 'Variants');
+    this.variantTabs.className = 'variant-tabs';
 
     const content = document.createElement('div');
     this.suggestionContent = content;
-    content.style.cssText = `
-      margin-bottom: 16px;
-      color: #e0e0e0;
-      font-size: 15px;
-      line-height: 1.6;
-      white-space: pre-wrap;
-    `;
+    content.className = 'card-content';
+
+    this.originalContent = document.createElement('div');
+    this.originalContent.className = 'card-content';
+    this.originalContent.style.display = 'none';
+
+    this.diffContent = document.createElement('div');
+    this.diffContent.className = 'card-content';
+    this.diffContent.style.display = 'none';
+
+    this.truncationNotice = document.createElement('div');
+    this.truncationNotice.setAttribute('role', 'status');
+    this.truncationNotice.textContent =
+      '⚠ The response reached the max tokens limit and may be cut off. Raise "Max tokens" in the advanced settings or rewrite a shorter selection.';
+    this.truncationNotice.className = 'notice';
+
+    this.spanNotice = document.createElement('div');
+    this.spanNotice.setAttribute('role', 'status');
+    this.spanNotice.className = 'notice';
+
+    this.sourceLabel = document.createElement('div');
+    this.sourceLabel.className = 'source-label';
+
+    this.createCardError();
+    const refineRow = this.createRefineRow();
 
     const buttonContainer = document.createElement('div');
-    buttonContainer.style.cssText = `
-      display: flex;
-      gap: 12px;
-      justify-content: flex-end;
-    `;
+    buttonContainer.className = 'card-actions';
 
-    const stopButton = this.createButton('Stop', '⏹️');
+    const stopButton = createButton('Stop', { icon: '⏹️' });
     this.stopButton = stopButton;
     stopButton.style.display = 'none';
     stopButton.addEventListener('click', () => this.cancelStreaming());
 
-    const copyButton = this.createButton('Copy', '📋');
+    const regenerateButton = createButton('Regenerate', { icon: '🔄', title: 'Regenerate (bypass cache) (R)' });
+    this.regenerateButton = regenerateButton;
+    regenerateButton.style.display = 'none';
+    regenerateButton.addEventListener('click', () => this.regenerateVariant());
+
+    const copyButton = createButton('Copy', { icon: '📋', title: 'Copy (Ctrl/⌘+C)' });
     this.copyButton = copyButton;
     copyButton.addEventListener('click', () => this.copyToClipboard());
 
+    const applyButton = createButton('Apply', { icon: '✅', variant: 'primary', title: 'Apply (Enter)' });
+    this.applyButton = applyButton;
+    applyButton.addEventListener('click', () => this.applyRewrite());
+
     buttonContainer.appendChild(stopButton);
+    buttonContainer.appendChild(regenerateButton);
     buttonContainer.appendChild(copyButton);
+    buttonContainer.appendChild(applyButton);
 
-    this.suggestionCard.appendChild(header);
+    this.suggestionCard.appendChild(viewToggle);
+    this.suggestionCard.appendChild(this.variantTabs);
     this.suggestionCard.appendChild(content);
+    this.suggestionCard.appendChild(this.originalContent);
+    this.suggestionCard.appendChild(this.diffContent);
+    this.suggestionCard.appendChild(this.truncationNotice);
+    this.suggestionCard.appendChild(this.spanNotice);
+    this.suggestionCard.appendChild(this.sourceLabel);
+    if (this.cardError) this.suggestionCard.appendChild(this.cardError);
+    this.suggestionCard.appendChild(refineRow);
     this.suggestionCard.appendChild(buttonContainer);
-    document.body.appendChild(this.suggestionCard);
-  }
-
-  private createButton(text: string, icon: string): HTMLButtonElement {
-    const button = document.createElement('button');
-    button.innerHTML = `${icon} ${text}`;
-    button.style.cssText = `
-      background: #3c3c3c;
-      color: #fff;
-      border: none;
-      padding: 8px 16px;
-      border-radius: 6px;
-      cursor: pointer;
-      font-size: 14px;
-      font-weight: 500;
-      display: flex;
-      align-items: center;
-      gap: 6px;
-      transition: background-color 0.2s;
-    `;
-    button.addEventListener('mouseover', () => {
-      button.style.backgroundColor = '#4c4c4c';
+    this.ui.root.appendChild(this.suggestionCard);
+  }
+
+  private createVersionNav(): HTMLDivElement {
+    this.versionNav = document.createElement('div');
+    this.versionNav.setAttribute('aria-label', 'Versions');
+    this.versionNav.className = 'version-nav';
+
+    const createNavButton = (label: string, title: string, offset: number) => {
+      const button = createIconButton(label, title);
+      button.addEventListener('click', () => this.selectVersion(this.currentVersion + offset));
+      return button;
+    };
+
+    this.versionBackButton = createNavButton('‹', 'Previous version', -1);
+    this.versionForwardButton = createNavButton('›', 'Next version', 1);
+    this.versionLabel = document.createElement('span');
+
+    this.versionNav.appendChild(this.versionBackButton);
+    this.versionNav.appendChild(this.versionLabel);
+    this.versionNav.appendChild(this.versionForwardButton);
+    return this.versionNav;
+  }
+
+  private createCardError(): void {
+    this.cardError = document.createElement('div');
+    this.cardError.setAttribute('role', 'alert');
+    this.cardError.className = 'card-error';
+
+    this.cardErrorTitle = document.createElement('div');
+    this.cardErrorTitle.className = 'card-error-title';
+    this.cardErrorMessage = document.createElement('div');
+    this.cardErrorMessage.className = 'card-error-message';
+    this.cardErrorActions = document.createElement('div');
+    this.cardErrorActions.className = 'card-error-actions';
+
+    this.cardError.appendChild(this.cardErrorTitle);
+    this.cardError.appendChild(this.cardErrorMessage);
+    this.cardError.appendChild(this.cardErrorActions);
+  }
+
+  /**
+   * Keeps a failure in the card, with buttons for the ways out of it, instead of
+   * a toast that disappears before it can be read. Without a card it falls back to a toast.
+   */
+  private showCardError(message: string, code?: RewriteErrorCode): void {
+    const { cardError, cardErrorTitle, cardErrorMessage, cardErrorActions } = this;
+    if (
+      !cardError ||
+      !cardErrorTitle ||
+      !cardErrorMessage ||
+      !cardErrorActions ||
+      this.suggestionCard?.style.display !== 'block'
+    ) {
+      this.showToast(message, true);
+      return;
+    }
+
+    cardErrorTitle.textContent = getErrorTitle(code);
+    cardErrorMessage.textContent = message;
+    cardErrorActions.innerHTML = '';
+    getErrorActions(code)
+      .filter((action) => action !== 'retry' || this.rewriteContext)
+      .forEach((action) => {
+        const button = createButton(ERROR_ACTION_LABELS[action], { size: 'small' });
+        button.addEventListener('click', () => void this.runErrorAction(action));
+        cardErrorActions.appendChild(button);
+      });
+    cardError.style.display = 'block';
+    cardErrorActions.querySelector('button')?.focus();
+  }
+
+  private hideCardError(): void {
+    if (this.cardError) this.cardError.style.display = 'none';
+    if (this.cardErrorActions) this.cardErrorActions.innerHTML = '';
+  }
+
+  private async runErrorAction(action: ErrorAction): Promise<void> {
+    switch (action) {
+      case 'open-settings':
+        this.sendRuntimeMessage({ type: 'OPEN_SETTINGS', payload: {} });
+        break;
+      case 'retry':
+        this.retryFailedRewrite();
+        break;
+      case 'switch-model':
+        await this.showModelSwitcher();
+        break;
+      case 'shorten-selection':
+        this.closeSuggestionCard();
+        this.showToast('Select a shorter part of the text, then rewrite it again.');
+        break;
+    }
+  }
+
+  // Sends the failed request again, a refinement as the refinement it was.
+  private retryFailedRewrite(profileId?: string): void {
+    if (!this.rewriteContext || this.isStreaming) return;
+    const context = profileId ? { ...this.rewriteContext, profileId } : this.rewriteContext;
+    this.rewriteContext = context;
+
+    const refinements = this.failedRefinements;
+    this.failedRefinements = null;
+    this.hideCardError();
+    if (refinements) {
+      this.pendingRefinements = refinements;
+      this.sendRuntimeMessage({ type: 'REFINE_REWRITE', payload: { ...context, refinements } });
+    } else {
+      this.sendRuntimeMessage({ type: 'REWRITE_SELECTED_TEXT', payload: { ...context } });
+    }
+  }
+
+  // Replaces the error's buttons with a profile picker that retries with the chosen profile.
+  private async showModelSwitcher(): Promise<void> {
+    const actions = this.cardErrorActions;
+    if (!actions) return;
+
+    const storage = StorageService.getInstance();
+    const [profiles, activeProfile] = await Promise.all([
+      storage.getProfiles(),
+      storage.getProfile(this.rewriteContext?.profileId),
+    ]);
+    const others = profiles.filter((profile) => profile.id !== activeProfile.id);
+    if (others.length === 0 || !this.rewriteContext) {
+      this.sendRuntimeMessage({ type: 'OPEN_SETTINGS', payload: {} });
+      this.showToast('Add a profile with another model in the settings to switch to it.');
+      return;
+    }
+
+    const select = document.createElement('select');
+    select.setAttribute('aria-label', 'Profile to retry with');
+    select.className = 'select';
+    others.forEach((profile) => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = profile.model ? `${profile.name} (${profile.model})` : profile.name;
+      select.appendChild(option);
+    });
+
+    const retryButton = createButton('Retry with this profile', { size: 'small' });
+    retryButton.addEventListener('click', () => this.retryFailedRewrite(select.value));
+
+    actions.innerHTML = '';
+    actions.appendChild(select);
+    actions.appendChild(retryButton);
+    select.focus();
+  }
+
+  private createRefineRow(): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'refine-row';
+
+    this.refineInput = document.createElement('input');
+    this.refineInput.type = 'text';
+    this.refineInput.placeholder = 'Refine, e.g. "make it a bit warmer"…';
+    this.refineInput.setAttribute('aria-label', 'Follow-up instruction');
+    this.refineInput.className = 'input';
+    this.refineInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.submitRefinement();
+      }
+    });
+
+    this.refineButton = createButton('Refine', { icon: '💬' });
+    this.refineButton.addEventListener('click', () => this.submitRefinement());
+
+    row.appendChild(this.refineInput);
+    row.appendChild(this.refineButton);
+    return row;
+  }
+
+  /**
+   * Continues the conversation from the shown result: the turns that produced it,
+   * the result itself and the new instruction. The reply streams in as a new version.
+   */
+  private submitRefinement(): void {
+    const instruction = this.refineInput?.value.trim();
+    if (!instruction || this.isStreaming || !this.rewriteContext || !this.rewrittenText.trim()) return;
+
+    const refinements: PromptMessage[] = [
+      ...(this.versions[this.currentVersion]?.refinements ?? []),
+      { role: 'assistant', content: this.rewrittenText },
+      { role: 'user', content: instruction },
+    ];
+    this.pendingRefinements = refinements;
+    if (this.refineInput) this.refineInput.value = '';
+    this.sendRuntimeMessage({
+      type: 'REFINE_REWRITE',
+      payload: { ...this.rewriteContext, refinements },
+    });
+  }
+
+  private startRefinement(): void {
+    const refinements = this.pendingRefinements ?? [];
+    this.pendingRefinements = null;
+    this.saveActiveVariant();
+
+    this.isStreaming = true;
+    this.hideCardError();
+    this.variants = [{ text: '', status: 'streaming' }];
+    this.activeVariant = 0;
+    this.versions.push({ variants: this.variants, activeVariant: 0, refinements });
+    this.currentVersion = this.versions.length - 1;
+    this.renderActiveVariant();
+    this.renderVariantTabs();
+    this.setStreamingState(true);
+    this.setCardView('result');
+  }
+
+  // A failed refinement leaves nothing worth keeping, so step back to the version it refined.
+  private discardStreamingRefinement(): void {
+    this.versions.pop();
+    this.isStreaming = false;
+    this.selectVersion(this.versions.length - 1);
+    this.setStreamingState(false);
+  }
+
+  private saveActiveVariant(): void {
+    const version = this.versions[this.currentVersion];
+    if (version) version.activeVariant = this.activeVariant;
+  }
+
+  private selectVersion(index: number): void {
+    const version = this.versions[index];
+    if (!version || this.isStreaming) return;
+
+    this.saveActiveVariant();
+    this.currentVersion = index;
+    this.variants = version.variants;
+    this.selectVariant(version.activeVariant);
+    this.renderVersionNav();
+  }
+
+  private renderVersionNav(): void {
+    if (!this.versionNav) return;
+    const count = this.versions.length;
+    this.versionNav.style.display = count > 1 ? 'flex' : 'none';
+    if (this.versionLabel) this.versionLabel.textContent = `${this.currentVersion + 1} / ${count}`;
+    this.setButtonDisabled(this.versionBackButton, this.isStreaming || this.currentVersion === 0);
+    this.setButtonDisabled(this.versionForwardButton, this.isStreaming || this.currentVersion >= count - 1);
+  }
+
+  private createViewToggle(): HTMLDivElement {
+    const toggle = document.createElement('div');
+    toggle.setAttribute('role', 'tablist');
+    toggle.className = 'view-toggle';
+
+    (Object.keys(CARD_VIEW_LABELS) as CardView[]).forEach((view) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.setAttribute('role', 'tab');
+      button.textContent = CARD_VIEW_LABELS[view];
+      button.className = 'view-tab';
+      button.addEventListener('click', () => this.setCardView(view));
+      this.viewButtons[view] = button;
+      toggle.appendChild(button);
     });
-    button.addEventListener('mouseout', () => {
-      button.style.backgroundColor = '#3c3c3c';
+
+    this.updateViewButtons();
+    return toggle;
+  }
+
+  private setCardView(view: CardView): void {
+    if (view === 'diff' && this.isActiveVariantStreaming()) return;
+    this.cardView = view;
+
+    if (view === 'original' && this.originalContent) {
+      this.originalContent.textContent = this.originalText;
+    }
+    if (view === 'diff') {
+      this.renderDiff();
+    }
+
+    if (this.suggestionContent) this.suggestionContent.style.display = view === 'result' ? 'block' : 'none';
+    if (this.originalContent) this.originalContent.style.display = view === 'original' ? 'block' : 'none';
+    if (this.diffContent) this.diffContent.style.display = view === 'diff' ? 'block' : 'none';
+    this.updateViewButtons();
+  }
+
+  private updateViewButtons(): void {
+    (Object.keys(this.viewButtons) as CardView[]).forEach((view) => {
+      const button = this.viewButtons[view];
+      if (!button) return;
+      const isActive = view === this.cardView;
+      button.setAttribute('aria-selected', String(isActive));
+    });
+    // The diff only makes sense against a finished result.
+    this.setButtonDisabled(this.viewButtons.diff ?? null, this.isActiveVariantStreaming());
+  }
+
+  private isActiveVariantStreaming(): boolean {
+    return this.variants[this.activeVariant]?.status === 'streaming';
+  }
+
+  private renderVariantTabs(): void {
+    const tabs = this.variantTabs;
+    if (!tabs) return;
+
+    tabs.textContent = '';
+    tabs.style.display = this.variants.length > 1 ? 'flex' : 'none';
+    this.variants.forEach((variant, index) => {
+      const isActive = index === this.activeVariant;
+      const marker = variant.status === 'streaming' ? ' …' : variant.status === 'error' ? ' ⚠' : '';
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.setAttribute('role', 'tab');
+      button.setAttribute('aria-selected', String(isActive));
+      button.title = variant.error ?? `Variant ${index + 1}`;
+      button.textContent = `${index + 1}${marker}`;
+      button.className = 'variant-tab';
+      button.addEventListener('click', () => this.selectVariant(index));
+      tabs.appendChild(button);
+    });
+  }
+
+  private selectVariant(index: number): void {
+    if (!this.variants[index]) return;
+    this.activeVariant = index;
+    this.renderActiveVariant();
+    this.renderVariantTabs();
+    this.updateResultButtons();
+
+    if (this.cardView === 'diff' && this.isActiveVariantStreaming()) {
+      this.setCardView('result');
+    } else if (this.cardView === 'diff') {
+      this.renderDiff();
+    } else {
+      this.updateViewButtons();
+    }
+  }
+
+  // Rebuilds the result view from the active variant; tokens still queued for
+  // the previously shown variant are already part of its stored text.
+  private renderActiveVariant(): void {
+    const variant = this.variants[this.activeVariant];
+    const content = this.suggestionContent;
+    if (!variant || !content) return;
+
+    this.pendingTokens = '';
+    if (this.streamFlushRaf !== null) {
+      cancelAnimationFrame(this.streamFlushRaf);
+      this.streamFlushRaf = null;
+    }
+    if (this.chunkSections) {
+      this.renderChunkSections();
+      return;
+    }
+    this.streamContent = variant.text;
+    this.rewrittenText = variant.text;
+
+    this.updateResultNotices(variant);
+
+    content.textContent = '';
+    this.streamCursor = null;
+    // Formatted results show their markup while streaming and are rendered once done.
+    const isRendered = this.isRichResult() && variant.status === 'done';
+    content.style.whiteSpace = isRendered ? 'normal' : 'pre-wrap';
+    if (isRendered) {
+      this.streamTextNode = null;
+      content.appendChild(this.parseRichResult(variant.text));
+      return;
+    }
+    this.streamTextNode = document.createTextNode(variant.text);
+    content.appendChild(this.streamTextNode);
+
+    if (variant.status === 'streaming') {
+      this.streamCursor = document.createElement('span');
+      this.streamCursor.className = 'typing-cursor';
+      this.streamCursor.textContent = '|';
+      content.appendChild(this.streamCursor);
+    } else if (variant.status === 'error' && !variant.text && this.variants.length > 1) {
+      const error = document.createElement('span');
+      error.textContent = variant.error ?? 'This variant failed.';
+      error.className = 'variant-error';
+      content.appendChild(error);
+    }
+  }
+
+  private renderDiff(): void {
+    const diffContent = this.diffContent;
+    if (!diffContent) return;
+
+    // Diffing long selections is not free, so only redo it when the texts change.
+    const key = `${this.originalText}\u0000${this.rewrittenText}`;
+    if (this.diffRenderedFor === key) return;
+    this.diffRenderedFor = key;
+
+    const rewritten = this.isRichResult()
+      ? richTextToPlainText(this.getSanitizedResult(this.rewrittenText))
+      : this.rewrittenText;
+    const fragment = document.createDocumentFragment();
+    diffWords(this.originalText, rewritten).forEach((part) => {
+      if (part.type === 'equal') {
+        fragment.appendChild(document.createTextNode(part.value));
+        return;
+      }
+      const span = document.createElement(part.type === 'insert' ? 'ins' : 'del');
+      span.textContent = part.value;
+      fragment.appendChild(span);
     });
-    return button;
+    diffContent.textContent = '';
+    diffContent.appendChild(fragment);
   }
 
   private setButtonDisabled(button: HTMLButtonElement | null, isDisabled: boolean): void {
     if (!button) return;
     button.disabled = isDisabled;
-    button.style.opacity = isDisabled ? '0.6' : '1';
-    button.style.cursor = isDisabled ? 'not-allowed' : 'pointer';
   }
 
   private cancelStreaming(): void {
@@ -307,25 +961,124 @@ class ContentScript {
     this.setButtonDisabled(this.stopButton, true);
     this.sendRuntimeMessage({
       type: 'STREAM_CANCEL',
-      payload: {},
+      payload: { requestId: this.activeRequestId ?? undefined },
+    });
+  }
+
+  // Refined versions came from a conversation, so only the first version can be regenerated.
+  private regenerateVariant(): void {
+    if (this.isStreaming || !this.rewriteContext || this.currentVersion !== 0 || this.chunkSections) return;
+    this.sendRuntimeMessage({
+      type: 'REGENERATE_VARIANT',
+      payload: { ...this.rewriteContext, variant: this.activeVariant, variantCount: this.variants.length },
     });
   }
 
   private async copyToClipboard(): Promise<void> {
+    if (!this.isActiveVariantReady()) return;
     try {
-      await navigator.clipboard.writeText(this.rewrittenText);
+      if (this.isRichResult()) {
+        const html = this.getSanitizedResult(this.rewrittenText);
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/html': new Blob([html], { type: 'text/html' }),
+            'text/plain': new Blob([richTextToPlainText(html)], { type: 'text/plain' }),
+          }),
+        ]);
+      } else {
+        await navigator.clipboard.writeText(this.rewrittenText);
+      }
       this.showToast('Copied to clipboard!');
     } catch (error) {
       this.showToast('Failed to copy text', true);
     }
   }
 
-  private showSuggestionCard(text: string, isStreaming: boolean = false): void {
+  private applyRewrite(text: string = this.rewrittenText): void {
+    if (this.isActiveVariantStreaming() || !text.trim()) return;
+
+    const target = this.replacementTarget;
+    if (!target) {
+      this.showToast('The original selection is no longer available. Use Copy instead.', true);
+      return;
+    }
+
+    const html = this.isRichResult() ? this.getSanitizedResult(text) : undefined;
+    const applied =
+      html === undefined
+        ? applyReplacement(target, text)
+        : applyReplacement(target, richTextToPlainText(html), html);
+    if (!applied) {
+      this.showToast('The selected text has changed since the rewrite started. Use Copy instead.', true);
+      return;
+    }
+
+    this.lastReplacement = applied;
+    this.replacementTarget = null;
+    if (this.isStreaming) {
+      // Other variants may still be streaming; they are not needed any more.
+      this.cancelStreaming();
+    }
+    this.closeSuggestionCard();
+    this.showToast('Text replaced.', false, {
+      label: 'Undo',
+      onClick: () => this.undoReplacement(),
+    });
+  }
+
+  /** Puts the side panel's result in place of the selection it was sent; false when that text changed. */
+  private applyPanelResult(text: string): boolean {
+    const applied = this.panelTarget && text.trim() ? applyReplacement(this.panelTarget, text) : null;
+    if (!applied) return false;
+
+    // The selection is gone now; sending a new one starts the next round.
+    this.panelTarget = null;
+    this.lastReplacement = applied;
+    this.showToast('Text replaced from the side panel.', false, {
+      label: 'Undo',
+      onClick: () => this.undoReplacement(),
+    });
+    return true;
+  }
+
+  private isRichResult(): boolean {
+    return this.rewriteContext?.format === 'html';
+  }
+
+  /** The model's HTML reduced to the allowlist, with the selection's own link targets. */
+  private getSanitizedResult(html: string): string {
+    return sanitizeRichText(html, extractHrefs(this.rewriteContext?.text ?? ''));
+  }
+
+  private parseRichResult(html: string): DocumentFragment {
+    const template = document.createElement('template');
+    template.innerHTML = this.getSanitizedResult(html);
+    return template.content;
+  }
+
+  private undoReplacement(): void {
+    const replacement = this.lastReplacement;
+    this.lastReplacement = null;
+    if (!replacement) return;
+
+    if (replacement.undo()) {
+      this.showToast('Original text restored.');
+    } else {
+      this.showToast('Cannot undo: the text was edited after it was replaced.', true);
+    }
+  }
+
+  private showSuggestionCard(text: string): void {
     if (!this.suggestionCard || !this.overlay) return;
 
     // Store the text
     this.rewrittenText = text;
-    this.originalText = window.getSelection()?.toString() || '';
+    this.variants = [{ text, status: 'done' }];
+    this.activeVariant = 0;
+    this.versions = [{ variants: this.variants, activeVariant: 0, refinements: [] }];
+    this.currentVersion = 0;
+    this.replacementTarget = captureReplacementTarget() ?? this.lastSelectionTarget;
+    this.originalText = this.replacementTarget?.text.trim() || this.lastSelectionText;
 
     // Update content
     const content = this.suggestionContent;
@@ -333,41 +1086,252 @@ class ContentScript {
       content.textContent = text;
     }
 
-    // Show overlay and card if not already visible
-    if (this.overlay.style.display !== 'block') {
-      this.overlay.style.display = 'block';
+    // Show the card (and in modal mode the overlay) if not already visible
+    if (this.suggestionCard.style.display !== 'block') {
+      this.refreshAppearance();
+      const isInline = this.isInlineCard();
+      this.suggestionCard.classList.toggle('is-inline', isInline);
+      // Each rewrite starts anchored at the default size, wherever the last card was moved.
+      for (const property of ['top', 'left', 'width', 'height']) {
+        this.suggestionCard.style.removeProperty(property);
+      }
+      this.isCardPlaced = false;
+      this.overlay.style.display = isInline ? 'none' : 'block';
       this.suggestionCard.style.display = 'block';
+      if (isInline) {
+        this.positionInlineCard();
+        // Without the overlay the focus would stay on the page, where the card's shortcuts are off.
+        this.suggestionCard.focus({ preventScroll: true });
+      }
     }
 
     this.hideSelectionButton();
   }
 
-  private startStreaming(): void {
+  private startStreaming(variantCount: number = 1, chunks?: TextChunk[]): void {
     if (!this.suggestionCard) return;
 
     this.isStreaming = true;
-    this.streamContent = '';
-    this.pendingTokens = '';
-    if (this.streamFlushRaf !== null) {
-      cancelAnimationFrame(this.streamFlushRaf);
-      this.streamFlushRaf = null;
+    this.hideCardError();
+    this.showSuggestionCard('');
+    this.chunkSections = chunks ? chunks.map((chunk) => ({ ...chunk, output: '', status: 'streaming' })) : null;
+    this.variants = Array.from({ length: Math.max(variantCount, 1) }, () => ({
+      text: '',
+      status: 'streaming' as const,
+    }));
+    this.activeVariant = 0;
+    this.versions = [{ variants: this.variants, activeVariant: 0, refinements: [] }];
+    this.renderActiveVariant();
+    this.renderVariantTabs();
+    this.setStreamingState(true);
+    this.setCardView('result');
+  }
+
+  // Streams a fresh rewrite into one variant while the others stay as they are.
+  private startVariantRegeneration(index: number): void {
+    if (!this.variants[index]) return;
+
+    this.isStreaming = true;
+    this.hideCardError();
+    this.variants[index] = { text: '', status: 'streaming' };
+    this.setStreamingState(true);
+    this.selectVariant(index);
+  }
+
+  private handleStreamToken(token: string, index: number): void {
+    const variant = this.variants[index];
+    if (!variant || variant.status !== 'streaming') return;
+
+    variant.text += token;
+    if (index === this.activeVariant) {
+      this.appendStreamToken(token);
+    }
+  }
+
+  private finishVariant(
+    index: number,
+    error?: string,
+    truncated?: boolean,
+    spanIssues?: ProtectedSpanIssues,
+    source?: ResultSource
+  ): void {
+    const variant = this.variants[index];
+    if (!variant || variant.status !== 'streaming') return;
+
+    variant.status = error ? 'error' : 'done';
+    variant.error = error;
+    variant.truncated = truncated;
+    variant.spanIssues = spanIssues;
+    variant.source = source;
+    if (index === this.activeVariant) {
+      this.renderActiveVariant();
+      this.updateViewButtons();
     }
-    this.showSuggestionCard('', true);
+    this.renderVariantTabs();
+    this.updateResultButtons();
+  }
+
+  private handleChunkToken(index: number, token: string): void {
+    const section = this.chunkSections?.[index];
+    if (!section || section.status !== 'streaming') return;
+
+    section.output += token;
+    this.scheduleChunkRender();
+  }
+
+  private finishChunk(
+    index: number,
+    error?: string,
+    truncated?: boolean,
+    spanIssues?: ProtectedSpanIssues,
+    source?: ResultSource
+  ): void {
+    const section = this.chunkSections?.[index];
+    if (!section || section.status !== 'streaming') return;
+
+    section.status = error ? 'error' : 'done';
+    section.error = error;
+    section.truncated = truncated;
+    section.spanIssues = spanIssues;
+    section.source = source;
+    this.scheduleChunkRender();
+  }
+
+  private retryChunk(index: number): void {
+    const section = this.chunkSections?.[index];
+    if (!section || this.isStreaming || !this.rewriteContext) return;
+    this.sendRuntimeMessage({
+      type: 'RETRY_CHUNK',
+      payload: { ...this.rewriteContext, text: section.text, chunk: index },
+    });
+  }
+
+  private startChunkRetry(index: number): void {
+    const section = this.chunkSections?.[index];
+    const variant = this.variants[0];
+    if (!section || !variant) return;
+
+    this.isStreaming = true;
+    this.hideCardError();
+    Object.assign(section, {
+      output: '',
+      status: 'streaming',
+      error: undefined,
+      truncated: undefined,
+      spanIssues: undefined,
+      source: undefined,
+    });
+    variant.status = 'streaming';
     this.setStreamingState(true);
+    this.setCardView('result');
+    this.renderChunkSections();
+  }
+
+  private scheduleChunkRender(): void {
+    if (this.chunkRenderRaf !== null) return;
+    this.chunkRenderRaf = requestAnimationFrame(() => {
+      this.chunkRenderRaf = null;
+      this.renderChunkSections();
+    });
+  }
+
+  // Failed or stopped sections keep their original text, so applying never drops part of the selection.
+  private getChunkedResult(): string {
+    const sections = this.chunkSections ?? [];
+    return joinChunks(
+      sections,
+      sections.map((section) => (section.status === 'error' ? section.text : section.output))
+    );
+  }
 
-    // Update UI for streaming state
+  /** Rebuilds the result from its sections; sections still waiting for their turn are left out. */
+  private renderChunkSections(): void {
+    const sections = this.chunkSections;
     const content = this.suggestionContent;
-    if (content) {
-      content.textContent = '';
-      this.streamTextNode = document.createTextNode('');
-      content.appendChild(this.streamTextNode);
-      this.streamCursor = document.createElement('span');
-      this.streamCursor.className = 'typing-cursor';
-      this.streamCursor.textContent = '|';
-      content.appendChild(this.streamCursor);
+    const variant = this.variants[0];
+    if (!sections || !content || !variant) return;
+
+    variant.text = this.getChunkedResult();
+    variant.truncated = sections.some((section) => section.truncated);
+    const issues = sections.flatMap((section) => (section.spanIssues ? [section.spanIssues] : []));
+    variant.spanIssues =
+      issues.length > 0
+        ? {
+            missing: issues.flatMap((issue) => issue.missing),
+            duplicated: issues.flatMap((issue) => issue.duplicated),
+          }
+        : undefined;
+    this.streamContent = variant.text;
+    this.rewrittenText = variant.text;
+    this.updateResultNotices(variant, sections.flatMap((section) => (section.source ? [section.source] : [])));
+
+    content.textContent = '';
+    this.streamTextNode = null;
+    this.streamCursor = null;
+    const live = this.isStreaming ? sections.findIndex((section) => section.status === 'streaming') : -1;
+
+    sections.forEach((section, index) => {
+      if (section.status === 'streaming' && index !== live) return;
+      if (section.status === 'error') {
+        content.appendChild(this.createFailedChunk(section, index));
+      } else {
+        content.appendChild(document.createTextNode(section.output.trim()));
+      }
+      if (index === live) {
+        this.streamCursor = document.createElement('span');
+        this.streamCursor.className = 'typing-cursor';
+        this.streamCursor.textContent = '|';
+        content.appendChild(this.streamCursor);
+      }
+      if (index < sections.length - 1) {
+        content.appendChild(document.createTextNode(section.separator));
+      }
+    });
+    this.updateResultButtons();
+  }
+
+  private updateResultNotices(
+    variant: VariantState,
+    sources: ResultSource[] = variant.source ? [variant.source] : []
+  ): void {
+    if (this.truncationNotice) {
+      this.truncationNotice.style.display = variant.truncated ? 'block' : 'none';
+    }
+    if (this.spanNotice) {
+      this.spanNotice.textContent = variant.spanIssues ? formatSpanIssues(variant.spanIssues) : '';
+      this.spanNotice.style.display = variant.spanIssues ? 'block' : 'none';
+    }
+    if (this.sourceLabel) {
+      this.sourceLabel.textContent = sources.length > 0 ? formatSources(sources) : '';
+      this.sourceLabel.style.display = sources.length > 0 ? 'block' : 'none';
     }
   }
 
+  private createFailedChunk(section: ChunkSection, index: number): HTMLDivElement {
+    const wrapper = document.createElement('div');
+
+    const notice = document.createElement('div');
+    notice.className = 'chunk-failure-notice';
+    const message = document.createElement('span');
+    message.textContent = `⚠ Section ${index + 1}: ${section.error ?? 'This section failed.'}`;
+    message.className = 'chunk-failure-message';
+
+    const retryButton = createButton('Retry section', { size: 'tiny' });
+    this.setButtonDisabled(retryButton, this.isStreaming);
+    retryButton.addEventListener('click', () => this.retryChunk(index));
+
+    // Shown dimmed: this is the original text, kept in place until the retry succeeds.
+    const original = document.createElement('span');
+    original.textContent = section.text;
+    original.className = 'chunk-original';
+
+    notice.appendChild(message);
+    notice.appendChild(retryButton);
+    wrapper.appendChild(notice);
+    wrapper.appendChild(original);
+    return wrapper;
+  }
+
   private appendStreamToken(token: string): void {
     if (!this.suggestionCard || !this.isStreaming) return;
 
@@ -410,7 +1374,27 @@ class ContentScript {
 
     this.flushPendingTokens(true);
     this.isStreaming = false;
+    // Sections cut off by Stop can be retried one by one.
+    this.chunkSections?.forEach((section) => {
+      if (section.status === 'streaming') {
+        section.status = 'error';
+        section.error = 'Stopped before this section finished.';
+      }
+    });
+    // Variants still streaming at this point were cancelled; keep what arrived.
+    this.variants.forEach((variant) => {
+      if (variant.status === 'streaming') variant.status = 'done';
+    });
+    if (this.chunkSections || this.isRichResult()) this.renderActiveVariant();
+    this.renderVariantTabs();
     this.setStreamingState(false);
+    this.updateViewButtons();
+    if (this.cardView === 'diff') {
+      this.renderDiff();
+    } else {
+      // Precompute off the token path so switching to Diff is instant.
+      window.setTimeout(() => this.renderDiff(), 0);
+    }
 
     // Remove cursor
     const content = this.suggestionContent;
@@ -420,8 +1404,10 @@ class ContentScript {
   }
 
   private setStreamingState(isStreaming: boolean): void {
-    this.setButtonDisabled(this.copyButton, isStreaming);
+    this.updateResultButtons();
+    this.renderVersionNav();
     this.setButtonDisabled(this.closeButton, isStreaming);
+    if (this.refineInput) this.refineInput.disabled = isStreaming;
 
     if (this.stopButton) {
       this.stopButton.style.display = isStreaming ? 'inline-flex' : 'none';
@@ -429,37 +1415,173 @@ class ContentScript {
     }
   }
 
+  private isActiveVariantReady(): boolean {
+    return this.variants[this.activeVariant]?.status === 'done';
+  }
+
+  // Copy and Apply act on the shown variant, so they only wait for that one.
+  private updateResultButtons(): void {
+    const isReady = this.isActiveVariantReady();
+    this.setButtonDisabled(this.copyButton, !isReady);
+    this.setButtonDisabled(this.applyButton, !isReady || !this.replacementTarget);
+
+    // A long text in sections is too big to refine or regenerate in one request.
+    const isChunked = !!this.chunkSections;
+    this.setButtonDisabled(this.refineButton, !isReady || this.isStreaming || !this.rewriteContext || isChunked);
+
+    if (this.regenerateButton) {
+      this.regenerateButton.style.display =
+        this.currentVersion === 0 && this.rewriteContext && !isChunked ? 'inline-flex' : 'none';
+      this.setButtonDisabled(this.regenerateButton, this.isStreaming || !this.rewriteContext);
+    }
+  }
+
   private hideSuggestionCard(): void {
     if (this.isStreaming) {
       this.cancelStreaming();
       return;
     }
+    this.closeSuggestionCard();
+  }
+
+  private closeSuggestionCard(): void {
+    this.hideCardError();
+    this.failedRefinements = null;
     if (this.suggestionCard && this.overlay) {
       this.suggestionCard.style.display = 'none';
       this.overlay.style.display = 'none';
     }
   }
 
+  private isInlineCard(): boolean {
+    return this.appearance.cardPlacement === 'inline';
+  }
+
+  private isInlineCardOpen(): boolean {
+    return this.suggestionCard?.style.display === 'block' && this.suggestionCard.classList.contains('is-inline');
+  }
+
+  private scheduleCardPosition(): void {
+    if (this.cardPositionRaf !== null || !this.isInlineCardOpen()) return;
+    this.cardPositionRaf = requestAnimationFrame(() => {
+      this.cardPositionRaf = null;
+      this.positionInlineCard();
+    });
+  }
+
+  /**
+   * Anchors an inline card next to the text it rewrites, following it as the page scrolls.
+   * A card the user moved only gets pulled back into a shrinking viewport, and without
+   * an anchor (text from the context menu or a shortcut) the card is centred.
+   */
+  private positionInlineCard(): void {
+    const card = this.suggestionCard;
+    if (!card || !this.isInlineCardOpen()) return;
+
+    const rect = card.getBoundingClientRect();
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+    const anchor = this.replacementTarget ? this.getTargetRect(this.replacementTarget) : null;
+    let position: { top: number; left: number };
+    if (this.isCardPlaced) {
+      position = clampToViewport(rect, rect, viewport);
+    } else if (anchor) {
+      position = getAnchoredCardPosition(anchor, rect, viewport);
+    } else {
+      position = clampToViewport(
+        { top: (viewport.height - rect.height) / 2, left: (viewport.width - rect.width) / 2 },
+        rect,
+        viewport
+      );
+    }
+    card.style.top = `${position.top}px`;
+    card.style.left = `${position.left}px`;
+  }
+
   private initializeDismissListeners(): void {
     if (this.escapeKeyListenerAttached) {
       return;
     }
 
-    document.addEventListener('keydown', (event) => {
-      if (event.key === 'Escape' && this.suggestionCard?.style.display === 'block') {
-        this.hideSuggestionCard();
-      }
-    });
+    // Capture phase, so the page cannot act on keys meant for the card (e.g. Enter submitting a form).
+    window.addEventListener('keydown', (event) => this.handleCardKeydown(event), true);
+
+    // Presses inside the shadow root reach the page retargeted to the host; the root's own listener sorts those out.
+    document.addEventListener(
+      'pointerdown',
+      (event) => {
+        if (this.isActionPickerOpen() && event.target !== this.ui.host) {
+          this.closeActionPicker();
+        }
+      },
+      true
+    );
+    this.ui.root.addEventListener(
+      'pointerdown',
+      (event) => {
+        if (this.isActionPickerOpen() && !this.actionPicker?.element.contains(event.target as Node)) {
+          this.closeActionPicker();
+        }
+      },
+      true
+    );
 
     this.escapeKeyListenerAttached = true;
   }
 
+  /** Card shortcuts: Escape closes, Enter applies, Cmd/Ctrl+C copies and R regenerates. */
+  private handleCardKeydown(event: KeyboardEvent): void {
+    if (!this.suggestionCard || this.suggestionCard.style.display !== 'block' || event.isComposing) return;
+    // Page listeners see the host as the target, so ask the shadow root what has the focus.
+    const focused = this.ui.root.activeElement;
+    // The page stays usable around an inline card, so its shortcuts only apply while it has the focus.
+    if (this.isInlineCardOpen() && !this.suggestionCard.contains(focused)) return;
+    if (event.key === 'Escape') {
+      this.hideSuggestionCard();
+      return;
+    }
+    // Typing a follow-up instruction, or pressing Enter on a focused card button, stays native.
+    if (focused === this.refineInput) return;
+    if (event.key === 'Enter' && focused !== this.suggestionCard && this.suggestionCard.contains(focused)) return;
+
+    const hasModifier = event.altKey || event.ctrlKey || event.metaKey;
+    const key = event.key.toLowerCase();
+    if (event.key === 'Enter' && !hasModifier && !event.shiftKey) {
+      this.applyRewrite();
+    } else if (key === 'c' && (event.ctrlKey || event.metaKey) && !event.altKey) {
+      // Text the user selected inside the card is copied as usual. Chrome only reports that
+      // selection through the shadow root.
+      const root = this.ui.root as ShadowRoot & { getSelection?: () => Selection | null };
+      const selection = root.getSelection?.() ?? window.getSelection();
+      if (selection && !selection.isCollapsed && this.suggestionCard.contains(selection.anchorNode)) return;
+      void this.copyToClipboard();
+    } else if (key === 'r' && !hasModifier) {
+      this.regenerateVariant();
+    } else {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
   private initializeSelectionListeners(): void {
     document.addEventListener('selectionchange', () => this.scheduleSelectionUpdate());
     document.addEventListener('mouseup', () => this.scheduleSelectionUpdate());
     document.addEventListener('keyup', () => this.scheduleSelectionUpdate());
-    document.addEventListener('scroll', () => this.hideSelectionButton(), true);
-    window.addEventListener('resize', () => this.hideSelectionButton());
+    document.addEventListener(
+      'scroll',
+      // Scrolling inside the shadow root (e.g. a long action list) does not reach the page's listeners.
+      () => {
+        this.hideSelectionButton();
+        this.closeActionPicker();
+        this.scheduleCardPosition();
+      },
+      true
+    );
+    window.addEventListener('resize', () => {
+      this.hideSelectionButton();
+      this.closeActionPicker();
+      this.scheduleCardPosition();
+    });
   }
 
   private scheduleSelectionUpdate(): void {
@@ -477,7 +1599,9 @@ class ContentScript {
     if (!this.selectionButton) return;
     if (this.isStreaming) return;
     if (this.isSelectionButtonPressed) return;
-    if (document.activeElement === this.selectionButton) return;
+    if (this.ui.root.activeElement === this.selectionButton) return;
+    // Focusing the picker clears the page selection; keep the one it was opened for.
+    if (this.isActionPickerOpen()) return;
     if (this.overlay?.style.display === 'block') {
       this.hideSelectionButton();
       return;
@@ -503,11 +1627,17 @@ class ContentScript {
   private updateLastSelection(selectedText: string): void {
     if (selectedText.trim()) {
       this.lastSelectionText = selectedText.trim();
+      this.lastSelectionTarget = captureReplacementTarget() ?? this.lastSelectionTarget;
     }
   }
 
   private getSelectionRect(): DOMRect | null {
-    const selection = window.getSelection();
+    const editorSelection = readEditorSelection();
+    if (editorSelection) {
+      return editorSelection.rect;
+    }
+
+    const selection = getDeepSelection();
     if (selection && selection.rangeCount > 0 && !selection.isCollapsed) {
       const range = selection.getRangeAt(0);
       const rect = range.getBoundingClientRect();
@@ -521,7 +1651,7 @@ class ContentScript {
       }
     }
 
-    const activeElement = document.activeElement as HTMLInputElement | HTMLTextAreaElement | null;
+    const activeElement = getDeepActiveElement();
     if (activeElement instanceof HTMLInputElement || activeElement instanceof HTMLTextAreaElement) {
       const start = activeElement.selectionStart ?? 0;
       const end = activeElement.selectionEnd ?? 0;
@@ -533,11 +1663,23 @@ class ContentScript {
     return null;
   }
 
+  /** Where the text being rewritten is now, or null once it left the page. */
+  private getTargetRect(target: ReplacementTarget): DOMRect | null {
+    if (target.kind === 'editor') {
+      return getEditorSelectionRect(target.id);
+    }
+    if (target.kind === 'input') {
+      return target.element.isConnected ? this.getInputSelectionRect(target.element, target.start, target.end) : null;
+    }
+    const rect = target.range.getBoundingClientRect();
+    return rect.width > 0 || rect.height > 0 ? rect : null;
+  }
+
   private getInputSelectionRect(
-    element: HTMLInputElement | HTMLTextAreaElement
+    element: HTMLInputElement | HTMLTextAreaElement,
+    start: number = element.selectionStart ?? 0,
+    end: number = element.selectionEnd ?? 0
   ): DOMRect | null {
-    const start = element.selectionStart ?? 0;
-    const end = element.selectionEnd ?? 0;
     if (start === end) {
       return null;
     }
@@ -634,28 +1776,23 @@ class ContentScript {
     this.isSelectionButtonPressed = false;
   }
 
-  private showToast(message: string, isError: boolean = false): void {
-    if (!this.toast) return;
-
-    this.toast.textContent = message;
-    this.toast.style.background = isError ? '#dc3545' : '#28a745';
-    this.toast.style.display = 'block';
-
-    setTimeout(() => {
-      if (this.toast) {
-        this.toast.style.display = 'none';
-      }
-    }, 3000);
+  private showToast(message: string, isError: boolean = false, action?: ToastAction): void {
+    this.toast.show(message, { isError, action });
   }
 
   private getSelectedText(): string {
-    const selectionText = window.getSelection()?.toString().trim();
+    const editorText = readEditorSelection()?.text.trim();
+    if (editorText) {
+      return editorText;
+    }
+
+    const selectionText = getDeepSelection()?.toString().trim();
     if (selectionText) {
       return selectionText;
     }
 
-    const activeElement = document.activeElement as HTMLInputElement | HTMLTextAreaElement | null;
-    if (!activeElement) return '';
+    const activeElement = getDeepActiveElement();
+    if (!(activeElement instanceof HTMLElement)) return '';
 
     if (activeElement instanceof HTMLInputElement || activeElement instanceof HTMLTextAreaElement) {
       const start = activeElement.selectionStart ?? 0;
@@ -666,7 +1803,7 @@ class ContentScript {
     }
 
     if (activeElement.isContentEditable) {
-      return window.getSelection()?.toString().trim() ?? '';
+      return getDeepSelection()?.toString().trim() ?? '';
     }
 
     return '';
@@ -679,37 +1816,120 @@ class ContentScript {
 
     try {
       chrome.runtime.onMessage.addListener((message: Message, _sender, sendResponse) => {
+        if (this.isStaleStreamMessage(message)) {
+          return false;
+        }
+
         switch (message.type) {
           case 'GET_SELECTED_TEXT':
-            sendResponse({ selectedText: this.getSelectedText() });
+            sendResponse({
+              selectedText: this.getSelectedText(),
+              selectedHtml: getTargetHtml(captureReplacementTarget()) ?? undefined,
+            });
             return true;
           case 'GET_LAST_SELECTION':
-            sendResponse({ selectedText: this.lastSelectionText || this.getSelectedText() });
+            sendResponse({
+              selectedText: this.lastSelectionText || this.getSelectedText(),
+              selectedHtml:
+                getTargetHtml(this.lastSelectionText ? this.lastSelectionTarget : captureReplacementTarget()) ??
+                undefined,
+            });
+            return true;
+          case 'CAPTURE_FOR_PANEL':
+            this.panelTarget = captureReplacementTarget() ?? this.lastSelectionTarget;
+            sendResponse({ selectedText: this.panelTarget?.text.trim() || this.lastSelectionText });
+            return true;
+          case 'APPLY_PANEL_RESULT':
+            sendResponse({ applied: this.applyPanelResult(message.payload.text ?? '') });
             return true;
           case 'REWRITE_TEXT':
             if (message.payload.text) {
+              this.rewriteContext = null;
               this.showSuggestionCard(message.payload.text);
             }
             break;
-          case 'STREAM_START':
-            this.startStreaming();
+          case 'REPLACE_TEXT':
+            if (message.payload.text) {
+              this.applyRewrite(message.payload.text);
+            }
+            break;
+          case 'OPEN_ACTION_PICKER':
+            this.openActionPickerForSelection();
+            break;
+          case 'APPLY_SUGGESTION':
+            if (this.suggestionCard?.style.display === 'block') {
+              this.applyRewrite();
+            }
+            break;
+          case 'CANCEL_REWRITE':
+            this.closeActionPicker();
+            if (this.suggestionCard?.style.display === 'block') {
+              this.hideSuggestionCard();
+            }
+            break;
+          case 'STREAM_START': {
+            const { requestId, variant, variantCount, text, actionId, instruction, profileId, chunks, chunk, format } =
+              message.payload;
+            this.activeRequestId = requestId ?? null;
+            if (chunk !== undefined) {
+              this.startChunkRetry(chunk);
+              break;
+            }
+            if (message.payload.isRefinement) {
+              this.startRefinement();
+              break;
+            }
+            if (variant !== undefined) {
+              this.startVariantRegeneration(variant);
+              break;
+            }
+            this.rewriteContext = text ? { text, actionId, instruction, profileId, format } : null;
+            this.startStreaming(variantCount, chunks);
             break;
+          }
           case 'STREAM_TOKEN':
-            if (message.payload.token) {
-              this.appendStreamToken(message.payload.token);
+            if (message.payload.token && message.payload.chunk !== undefined) {
+              this.handleChunkToken(message.payload.chunk, message.payload.token);
+            } else if (message.payload.token) {
+              this.handleStreamToken(message.payload.token, message.payload.variant ?? 0);
             }
             break;
           case 'STREAM_END':
-            this.endStreaming();
+            if (message.payload.chunk !== undefined) {
+              const { chunk, truncated, spanIssues, source } = message.payload;
+              this.finishChunk(chunk, undefined, truncated, spanIssues, source);
+            } else if (message.payload.variant !== undefined) {
+              const { variant, truncated, spanIssues, source } = message.payload;
+              this.finishVariant(variant, undefined, truncated, spanIssues, source);
+            } else {
+              // A single rewrite or refinement streams into variant 0.
+              const { truncated, spanIssues, source } = message.payload;
+              if (truncated || spanIssues || source) this.finishVariant(0, undefined, truncated, spanIssues, source);
+              this.endStreaming();
+            }
             break;
           case 'STREAM_ERROR':
-          case 'SHOW_ERROR':
-            if (message.payload.error) {
+          case 'SHOW_ERROR': {
+            const { error, errorCode, chunk, variant } = message.payload;
+            if (error && chunk !== undefined) {
+              this.finishChunk(chunk, error);
+            } else if (error && variant !== undefined) {
+              this.finishVariant(variant, error);
+            } else if (error && this.isStreaming && this.currentVersion > 0) {
+              this.failedRefinements = this.versions[this.currentVersion]?.refinements ?? null;
+              this.discardStreamingRefinement();
+              this.showCardError(error, errorCode);
+            } else if (error) {
+              // The card stays open on the failure so its actions can recover from it.
+              this.variants.forEach((state) => {
+                if (state.status === 'streaming') Object.assign(state, { status: 'error', error });
+              });
               this.endStreaming();
-              this.showToast(message.payload.error, true);
-              this.hideSuggestionCard();
+              this.renderActiveVariant();
+              this.showCardError(error, errorCode);
             }
             break;
+          }
         }
         return false;
       });
@@ -718,6 +1938,14 @@ class ContentScript {
     }
   }
 
+  // Events for a request this frame no longer shows (e.g. one that was replaced) are dropped.
+  private isStaleStreamMessage(message: Message): boolean {
+    const isStreamEvent =
+      message.type === 'STREAM_TOKEN' || message.type === 'STREAM_END' || message.type === 'STREAM_ERROR';
+    const { requestId } = message.payload;
+    return isStreamEvent && !!requestId && requestId !== this.activeRequestId;
+  }
+
   private isRuntimeAvailable(): boolean {
     try {
       return Boolean(chrome?.runtime?.id);
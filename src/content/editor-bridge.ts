@@ -0,0 +1,4 @@
+import { installEditorBridge } from './editors/bridge';
+
+// Injected into the page's own world (see manifest.json), next to the isolated content script.
+installEditorBridge();
@@ -0,0 +1,58 @@
+import {
+  EDITOR_REQUEST_EVENT,
+  EDITOR_RESPONSE_EVENT,
+  EditorBridgeRequest,
+  EditorBridgeResponse,
+} from './editors/bridge-protocol';
+
+/** A rich-editor selection held by the editor bridge, addressed by `id`. */
+export interface CapturedEditorSelection {
+  id: string;
+  editor: string;
+  text: string;
+}
+
+/**
+ * Sends a request to the editor bridge. The bridge answers from inside the
+ * dispatch, so the reply is in before this returns; null means no bridge, no
+ * recognised editor or an unknown capture.
+ */
+const requestBridge = (request: EditorBridgeRequest): EditorBridgeResponse | null => {
+  let response: EditorBridgeResponse | null = null;
+  const onResponse = (event: Event) => {
+    const detail = (event as CustomEvent<unknown>).detail;
+    response = typeof detail === 'string' ? (JSON.parse(detail) as EditorBridgeResponse | null) : null;
+  };
+  document.addEventListener(EDITOR_RESPONSE_EVENT, onResponse);
+  try {
+    document.dispatchEvent(new CustomEvent(EDITOR_REQUEST_EVENT, { detail: JSON.stringify(request) }));
+  } finally {
+    document.removeEventListener(EDITOR_RESPONSE_EVENT, onResponse);
+  }
+  return response;
+};
+
+const toDOMRect = (response: EditorBridgeResponse | null): DOMRect | null => {
+  const rect = response?.rect;
+  return rect ? new DOMRect(rect.left, rect.top, rect.width, rect.height) : null;
+};
+
+/** The focused editor's selection and where it is, without keeping it for a later replacement. */
+export const readEditorSelection = (): { editor: string; text: string; rect: DOMRect | null } | null => {
+  const response = requestBridge({ type: 'read' });
+  return response?.editor && response.text ? { editor: response.editor, text: response.text, rect: toDOMRect(response) } : null;
+};
+
+export const captureEditorSelection = (): CapturedEditorSelection | null => {
+  const response = requestBridge({ type: 'capture' });
+  return response?.id && response.editor && response.text
+    ? { id: response.id, editor: response.editor, text: response.text }
+    : null;
+};
+
+export const replaceEditorSelection = (id: string, text: string): boolean =>
+  requestBridge({ type: 'replace', id, text })?.ok ?? false;
+
+export const undoEditorReplacement = (id: string): boolean => requestBridge({ type: 'undo', id })?.ok ?? false;
+
+export const getEditorSelectionRect = (id: string): DOMRect | null => toDOMRect(requestBridge({ type: 'rect', id }));
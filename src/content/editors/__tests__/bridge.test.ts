@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { getEditorSelectionRect, readEditorSelection } from '../../editor-client';
+import { applyReplacement, captureReplacementTarget } from '../../text-replacement';
+import { installEditorBridge } from '../bridge';
+import { mountCodeMirror5 } from './harness';
+
+// In the extension the bridge runs in the page's world; jsdom has one world, which the events cross just the same.
+installEditorBridge();
+
+describe('editor bridge', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('captures the focused editor and applies the result through it', () => {
+    const { doc, cm, textarea } = mountCodeMirror5('Teh quick');
+    textarea.focus();
+
+    expect(readEditorSelection()).toEqual({
+      editor: 'CodeMirror 5',
+      text: 'Teh quick',
+      rect: new DOMRect(10, 100, 72, 20),
+    });
+
+    const target = captureReplacementTarget();
+    expect(target).toMatchObject({ kind: 'editor', editor: 'CodeMirror 5', text: 'Teh quick' });
+
+    const applied = applyReplacement(target!, 'The quick');
+    expect(doc.text).toBe('The quick brown fox');
+    expect(cm.replaceRange).toHaveBeenCalledTimes(1);
+    expect(target?.kind === 'editor' && getEditorSelectionRect(target.id)).toEqual(new DOMRect(10, 100, 72, 20));
+
+    expect(applied?.undo()).toBe(true);
+    expect(doc.text).toBe('Teh quick brown fox');
+  });
+
+  it('keeps the original whitespace around the replacement', () => {
+    const { doc, textarea } = mountCodeMirror5('quick ');
+    textarea.focus();
+
+    applyReplacement(captureReplacementTarget()!, ' swift ');
+
+    expect(doc.text).toBe('Teh swift brown fox');
+  });
+
+  it('falls back to the generic path for unknown editors', () => {
+    const textarea = document.createElement('textarea');
+    textarea.value = 'Plain field text';
+    document.body.appendChild(textarea);
+    textarea.focus();
+    textarea.setSelectionRange(0, 5);
+
+    expect(readEditorSelection()).toBeNull();
+    expect(captureReplacementTarget()).toMatchObject({ kind: 'input', text: 'Plain' });
+  });
+
+  it('reports replacements of unknown captures as failed', () => {
+    expect(applyReplacement({ kind: 'editor', id: 'missing', editor: 'Quill', text: 'x' }, 'y')).toBeNull();
+  });
+});
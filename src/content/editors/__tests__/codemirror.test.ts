@@ -0,0 +1,104 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { codeMirror5Adapter, codeMirror6Adapter } from '../codemirror';
+import { CODEMIRROR6_PAGE, FakeDocument, caretAt, loadFixture, mountCodeMirror5 } from './harness';
+
+interface ChangeSpec {
+  changes: { from: number; to: number; insert: string };
+  selection: { anchor: number; head: number };
+  userEvent: string;
+}
+
+const mountCodeMirror6 = (selected: string) => {
+  loadFixture(CODEMIRROR6_PAGE);
+  const doc = new FakeDocument("const greeting = 'helo wrld';");
+  const from = doc.indexOf(selected);
+  const view = {
+    state: {
+      selection: { main: { from, to: from + selected.length } },
+      sliceDoc: (start: number, end: number) => doc.slice(start, end),
+    },
+    dispatch: vi.fn(({ changes }: ChangeSpec) => doc.replace(changes.from, changes.to, changes.insert)),
+    coordsAtPos: caretAt,
+  };
+  // Where CodeMirror 6 keeps its view: the content element's view descriptor.
+  const content = document.querySelector('.cm-content') as Element & { cmView?: unknown };
+  content.cmView = { rootView: { view } };
+  return { doc, view, line: document.querySelector('.cm-line') as Element };
+};
+
+describe('codeMirror6Adapter', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('reads the selection from the view state', () => {
+    const { line } = mountCodeMirror6('helo wrld');
+
+    const selection = codeMirror6Adapter.capture(line);
+
+    expect(selection?.text).toBe('helo wrld');
+    expect(selection?.getRect()).toEqual(new DOMRect(10 + 18 * 8, 100, 9 * 8, 20));
+  });
+
+  it('replaces through a transaction that selects the new text', () => {
+    const { doc, view, line } = mountCodeMirror6('helo wrld');
+    const selection = codeMirror6Adapter.capture(line);
+
+    expect(selection?.replace('hello world')).toBe(true);
+
+    expect(doc.text).toBe("const greeting = 'hello world';");
+    expect(view.dispatch).toHaveBeenCalledWith({
+      changes: { from: 18, to: 27, insert: 'hello world' },
+      selection: { anchor: 18, head: 29 },
+      userEvent: 'input.replace',
+    });
+
+    expect(selection?.undo()).toBe(true);
+    expect(doc.text).toBe("const greeting = 'helo wrld';");
+  });
+
+  it('leaves text that changed since the capture alone', () => {
+    const { doc, line } = mountCodeMirror6('helo wrld');
+    const selection = codeMirror6Adapter.capture(line);
+    doc.replace(18, 22, 'HELO');
+
+    expect(selection?.replace('hello world')).toBe(false);
+    expect(doc.text).toBe("const greeting = 'HELO wrld';");
+  });
+
+  it('ignores elements outside a CodeMirror 6 editor and empty selections', () => {
+    mountCodeMirror6('helo wrld');
+
+    expect(codeMirror6Adapter.capture(document.querySelector('h1') as Element)).toBeNull();
+    const { line } = mountCodeMirror6('');
+    expect(codeMirror6Adapter.capture(line)).toBeNull();
+  });
+});
+
+describe('codeMirror5Adapter', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('replaces the selection with an undoable edit and reverts it', () => {
+    const { doc, cm, textarea } = mountCodeMirror5('Teh quick');
+    const selection = codeMirror5Adapter.capture(textarea);
+
+    expect(selection?.text).toBe('Teh quick');
+    expect(selection?.replace('The quick')).toBe(true);
+    expect(doc.text).toBe('The quick brown fox');
+    expect(cm.replaceRange).toHaveBeenCalledWith('The quick', { line: 0, ch: 0 }, { line: 0, ch: 9 }, 'ai-rewriter');
+    expect(cm.setSelection).toHaveBeenCalledWith({ line: 0, ch: 0 }, { line: 0, ch: 9 });
+
+    doc.replace(0, 3, 'A');
+    expect(selection?.undo()).toBe(false);
+    expect(doc.text).toBe('A quick brown fox');
+  });
+
+  it('does not claim CodeMirror 6 editors', () => {
+    const { line } = mountCodeMirror6('helo wrld');
+
+    expect(codeMirror5Adapter.capture(line)).toBeNull();
+  });
+});
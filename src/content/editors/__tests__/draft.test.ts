@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { draftAdapter } from '../draft';
+import { DRAFT_PAGE, loadFixture } from './harness';
+
+// jsdom has neither DataTransfer nor ClipboardEvent; these carry what the adapter and Draft use.
+class FakeDataTransfer {
+  private data = new Map<string, string>();
+
+  setData(type: string, value: string) {
+    this.data.set(type, value);
+  }
+
+  getData(type: string) {
+    return this.data.get(type) ?? '';
+  }
+}
+
+class FakeClipboardEvent extends Event {
+  readonly clipboardData: FakeDataTransfer;
+
+  constructor(type: string, init: EventInit & { clipboardData: FakeDataTransfer }) {
+    super(type, init);
+    this.clipboardData = init.clipboardData;
+  }
+}
+
+/**
+ * Stands in for Draft's handlers: a paste replaces the selected text in its
+ * model and re-renders the block; Ctrl+Z restores the previous model.
+ */
+const mountDraft = () => {
+  loadFixture(DRAFT_PAGE);
+  const root = document.querySelector('.public-DraftEditor-content') as HTMLElement;
+  const textNode = (document.querySelector('[data-text="true"]') as Element).firstChild as Text;
+  const history: string[] = [];
+  root.addEventListener('paste', (event) => {
+    const range = window.getSelection()?.getRangeAt(0);
+    if (!range) return;
+    event.preventDefault();
+    history.push(textNode.data);
+    const pasted = (event as Event as FakeClipboardEvent).clipboardData.getData('text/plain');
+    textNode.data = textNode.data.slice(0, range.startOffset) + pasted + textNode.data.slice(range.endOffset);
+  });
+  root.addEventListener('keydown', (event) => {
+    if (event.key !== 'z' || !(event.ctrlKey || event.metaKey) || history.length === 0) return;
+    event.preventDefault();
+    textNode.data = history.pop() as string;
+  });
+  return { root, textNode };
+};
+
+const select = (node: Text, text: string) => {
+  const start = node.data.indexOf(text);
+  window.getSelection()?.setBaseAndExtent(node, start, node, start + text.length);
+};
+
+describe('draftAdapter', () => {
+  beforeEach(() => {
+    vi.stubGlobal('DataTransfer', FakeDataTransfer);
+    vi.stubGlobal('ClipboardEvent', FakeClipboardEvent);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('pastes the replacement for Draft to apply and undoes with its own shortcut', () => {
+    const { root, textNode } = mountDraft();
+    select(textNode, 'We was');
+    const selection = draftAdapter.capture(root);
+
+    expect(selection?.text).toBe('We was');
+    expect(selection?.replace('We were')).toBe(true);
+    expect(textNode.data).toBe('We were late again.');
+
+    expect(selection?.undo()).toBe(true);
+    expect(textNode.data).toBe('We was late again.');
+  });
+
+  it('refuses when the selected text changed or Draft ignores the paste', () => {
+    const { root, textNode } = mountDraft();
+    select(textNode, 'late');
+    const selection = draftAdapter.capture(root);
+    textNode.data = 'We were early again.';
+
+    expect(selection?.replace('on time')).toBe(false);
+
+    select(textNode, 'early');
+    const unhandled = draftAdapter.capture(root);
+    root.addEventListener('paste', (event) => event.stopImmediatePropagation(), { capture: true });
+    expect(unhandled?.replace('on time')).toBe(false);
+  });
+
+  it('ignores selections outside the editor', () => {
+    const { root } = mountDraft();
+    const outside = document.createElement('p');
+    outside.textContent = 'Elsewhere on the page';
+    document.body.appendChild(outside);
+    window.getSelection()?.selectAllChildren(outside);
+
+    expect(draftAdapter.capture(root)).toBeNull();
+  });
+});
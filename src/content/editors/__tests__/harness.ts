@@ -0,0 +1,120 @@
+import { vi } from 'vitest';
+
+/**
+ * Test harness for the editor adapters: fixture pages with the DOM each editor
+ * renders, and a plain-string document the fake editor instances edit, with an
+ * undo stack standing in for the editor's history.
+ */
+export const loadFixture = (html: string): void => {
+  document.body.innerHTML = html;
+};
+
+export class FakeDocument {
+  readonly undoStack: string[] = [];
+
+  constructor(public text: string) {}
+
+  slice(from: number, to: number): string {
+    return this.text.slice(from, to);
+  }
+
+  replace(from: number, to: number, insert: string): void {
+    this.undoStack.push(this.text);
+    this.text = this.text.slice(0, from) + insert + this.text.slice(to);
+  }
+
+  /** Offset of `search` in the text, failing loudly when a fixture does not contain it. */
+  indexOf(search: string): number {
+    const index = this.text.indexOf(search);
+    if (index < 0) throw new Error(`"${search}" is not in the document`);
+    return index;
+  }
+}
+
+/** A caret box for offset `pos` on a single 20px line of 8px-wide characters. */
+export const caretAt = (pos: number) => ({ left: 10 + pos * 8, right: 10 + pos * 8, top: 100, bottom: 120 });
+
+export const CODEMIRROR6_PAGE = `
+<main class="snippet-page">
+  <h1>New snippet</h1>
+  <div class="cm-editor">
+    <div class="cm-scroller">
+      <div class="cm-gutters"><div class="cm-gutterElement">1</div></div>
+      <div class="cm-content" contenteditable="true" role="textbox">
+        <div class="cm-line">const greeting = 'helo wrld';</div>
+      </div>
+    </div>
+  </div>
+</main>`;
+
+export const CODEMIRROR5_PAGE = `
+<form class="gist-form">
+  <div class="CodeMirror cm-s-default">
+    <div style="overflow: hidden; position: relative"><textarea autocorrect="off" tabindex="0"></textarea></div>
+    <div class="CodeMirror-scroll">
+      <div class="CodeMirror-lines"><pre class="CodeMirror-line"><span>Teh quick brown fox</span></pre></div>
+    </div>
+  </div>
+</form>`;
+
+export const MONACO_PAGE = `
+<div id="container" style="width: 800px; height: 600px">
+  <div class="monaco-editor" data-uri="inmemory://model/1">
+    <div class="overflow-guard">
+      <textarea class="inputarea" aria-label="Editor content"></textarea>
+      <div class="view-lines"><div class="view-line"><span>let answr = 42;</span></div></div>
+    </div>
+  </div>
+</div>`;
+
+export const TIPTAP_PAGE = `
+<article class="post-editor">
+  <div class="tiptap ProseMirror" contenteditable="true" translate="no">
+    <p>Their going to the <strong>park</strong> tomorow.</p>
+  </div>
+</article>`;
+
+export const QUILL_PAGE = `
+<div class="comment-box">
+  <div class="ql-toolbar ql-snow"><button class="ql-bold" type="button"></button></div>
+  <div class="ql-container ql-snow">
+    <div class="ql-editor" contenteditable="true" data-placeholder="Write a comment"><p>I has a question.</p></div>
+    <div class="ql-clipboard" contenteditable="true" tabindex="-1"></div>
+  </div>
+</div>`;
+
+export const DRAFT_PAGE = `
+<div class="composer">
+  <div class="DraftEditor-root">
+    <div class="DraftEditor-editorContainer">
+      <div class="notranslate public-DraftEditor-content" contenteditable="true" role="textbox">
+        <div data-contents="true">
+          <div data-block="true" data-offset-key="a1-0-0">
+            <div class="public-DraftStyleDefault-block" data-offset-key="a1-0-0">
+              <span data-offset-key="a1-0-0"><span data-text="true">We was late again.</span></span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  </div>
+</div>`;
+
+/** The CodeMirror 5 fixture with a fake instance over a one-line document, `selected` selected. */
+export const mountCodeMirror5 = (selected: string) => {
+  loadFixture(CODEMIRROR5_PAGE);
+  const doc = new FakeDocument('Teh quick brown fox');
+  const from = doc.indexOf(selected);
+  // Single-line fixture, so a position's `ch` is its offset.
+  const cm = {
+    getCursor: (start: 'from' | 'to') => ({ line: 0, ch: start === 'from' ? from : from + selected.length }),
+    getRange: (start: { ch: number }, end: { ch: number }) => doc.slice(start.ch, end.ch),
+    replaceRange: vi.fn((text: string, start: { ch: number }, end: { ch: number }) => doc.replace(start.ch, end.ch, text)),
+    setSelection: vi.fn(),
+    indexFromPos: (position: { ch: number }) => position.ch,
+    posFromIndex: (index: number) => ({ line: 0, ch: index }),
+    charCoords: (position: { ch: number }) => caretAt(position.ch),
+  };
+  (document.querySelector('.CodeMirror') as Element & { CodeMirror?: unknown }).CodeMirror = cm;
+  return { doc, cm, textarea: document.querySelector('textarea') as HTMLTextAreaElement };
+};
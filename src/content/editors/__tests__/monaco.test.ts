@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { monacoAdapter } from '../monaco';
+import { FakeDocument, MONACO_PAGE, loadFixture } from './harness';
+
+interface Range {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+// Single-line fixture: column N is offset N - 1.
+const mountMonaco = (selected: string) => {
+  loadFixture(MONACO_PAGE);
+  const doc = new FakeDocument('let answr = 42;');
+  const from = doc.indexOf(selected);
+  const toOffset = (column: number) => column - 1;
+  const domNode = document.querySelector('.monaco-editor') as HTMLElement;
+  vi.spyOn(domNode, 'getBoundingClientRect').mockReturnValue(new DOMRect(50, 200, 800, 600));
+  const editor = {
+    getDomNode: () => domNode,
+    getModel: () => ({
+      getValueInRange: (range: Range) => doc.slice(toOffset(range.startColumn), toOffset(range.endColumn)),
+      getOffsetAt: (position: { column: number }) => toOffset(position.column),
+      getPositionAt: (offset: number) => ({ lineNumber: 1, column: offset + 1 }),
+    }),
+    getSelection: () => ({
+      startLineNumber: 1,
+      startColumn: from + 1,
+      endLineNumber: 1,
+      endColumn: from + selected.length + 1,
+    }),
+    executeEdits: vi.fn((_source: string, edits: { range: Range; text: string }[]) => {
+      edits.forEach(({ range, text }) => doc.replace(toOffset(range.startColumn), toOffset(range.endColumn), text));
+      return true;
+    }),
+    pushUndoStop: vi.fn(() => true),
+    setSelection: vi.fn(),
+    getScrolledVisiblePosition: (position: { column: number }) => ({ top: 10, left: position.column * 7, height: 18 }),
+  };
+  // The AMD build's global, which lists every editor on the page.
+  vi.stubGlobal('monaco', { editor: { getEditors: () => [editor] } });
+  return { doc, editor, input: document.querySelector('.inputarea') as HTMLTextAreaElement };
+};
+
+describe('monacoAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('finds the editor owning the focused input area and reads its selection', () => {
+    const { input } = mountMonaco('answr');
+
+    const selection = monacoAdapter.capture(input);
+
+    expect(selection?.text).toBe('answr');
+    expect(selection?.getRect()).toEqual(new DOMRect(50 + 5 * 7, 210, 5 * 7, 18));
+  });
+
+  it('replaces between undo stops so Ctrl+Z takes it back in one step', () => {
+    const { doc, editor, input } = mountMonaco('answr');
+    const selection = monacoAdapter.capture(input);
+
+    expect(selection?.replace('answer')).toBe(true);
+
+    expect(doc.text).toBe('let answer = 42;');
+    expect(editor.executeEdits).toHaveBeenCalledWith('ai-rewriter', [
+      {
+        range: { startLineNumber: 1, startColumn: 5, endLineNumber: 1, endColumn: 10 },
+        text: 'answer',
+        forceMoveMarkers: true,
+      },
+    ]);
+    expect(editor.pushUndoStop.mock.invocationCallOrder[0]).toBeLessThan(
+      editor.executeEdits.mock.invocationCallOrder[0]
+    );
+    expect(editor.pushUndoStop).toHaveBeenCalledTimes(2);
+
+    expect(selection?.undo()).toBe(true);
+    expect(doc.text).toBe('let answr = 42;');
+  });
+
+  it('needs the global to reach the editor', () => {
+    const { input } = mountMonaco('answr');
+    vi.unstubAllGlobals();
+
+    expect(monacoAdapter.capture(input)).toBeNull();
+  });
+});
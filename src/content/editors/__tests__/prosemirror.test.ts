@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { proseMirrorAdapter } from '../prosemirror';
+import { FakeDocument, TIPTAP_PAGE, caretAt, loadFixture } from './harness';
+
+interface Step {
+  text: string;
+  from: number;
+  to: number;
+}
+
+// ProseMirror counts the paragraph's opening token as position 0, so text offsets are positions - 1.
+const mountTiptap = (selected: string) => {
+  loadFixture(TIPTAP_PAGE);
+  const doc = new FakeDocument('Their going to the park tomorow.');
+  const from = doc.indexOf(selected) + 1;
+  const createTransaction = () => {
+    const steps: Step[] = [];
+    const tr = {
+      steps,
+      insertText: (text: string, start: number, end: number) => {
+        steps.push({ text, from: start, to: end });
+        return tr;
+      },
+    };
+    return tr;
+  };
+  const view = {
+    state: {
+      selection: { from, to: from + selected.length },
+      doc: { textBetween: (start: number, end: number, _blockSeparator?: string) => doc.slice(start - 1, end - 1) },
+      get tr() {
+        return createTransaction();
+      },
+    },
+    dispatch: vi.fn((tr: { steps: Step[] }) =>
+      tr.steps.forEach(({ text, from: start, to: end }) => doc.replace(start - 1, end - 1, text))
+    ),
+    coordsAtPos: caretAt,
+  };
+  // Tiptap's editor, as it hangs off the ProseMirror element.
+  (document.querySelector('.ProseMirror') as Element & { editor?: unknown }).editor = { view };
+  return { doc, view, bold: document.querySelector('strong') as Element };
+};
+
+describe('proseMirrorAdapter', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('replaces the selection with one transaction and reverts it with another', () => {
+    const { doc, view, bold } = mountTiptap('Their going');
+    const selection = proseMirrorAdapter.capture(bold);
+
+    expect(selection?.text).toBe('Their going');
+    expect(selection?.replace("They're going")).toBe(true);
+    expect(doc.text).toBe("They're going to the park tomorow.");
+    expect(view.dispatch).toHaveBeenCalledTimes(1);
+
+    expect(selection?.undo()).toBe(true);
+    expect(doc.text).toBe('Their going to the park tomorow.');
+    expect(view.dispatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves selections across paragraphs to the generic path', () => {
+    const { view, bold } = mountTiptap('Their going');
+    // <p>First one.</p><p>Second one.</p>: text at 1–11 and 13–24, the boundary between takes 11–13.
+    const paragraphs = [
+      { text: 'First one.', start: 1 },
+      { text: 'Second one.', start: 13 },
+    ];
+    view.state.doc.textBetween = (from: number, to: number, blockSeparator = '') =>
+      paragraphs
+        .filter(({ text, start }) => start < to && start + text.length > from)
+        .map(({ text, start }) => text.slice(Math.max(from - start, 0), to - start))
+        .join(blockSeparator);
+    view.state.selection = { from: 7, to: 19 };
+
+    expect(view.state.doc.textBetween(7, 19, '\n')).toBe('one.\nSecond');
+    expect(proseMirrorAdapter.capture(bold)).toBeNull();
+    expect(view.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('leaves ProseMirror editors without a reachable view to the generic path', () => {
+    mountTiptap('Their going');
+    delete (document.querySelector('.ProseMirror') as Element & { editor?: unknown }).editor;
+
+    expect(proseMirrorAdapter.capture(document.querySelector('p') as Element)).toBeNull();
+  });
+});
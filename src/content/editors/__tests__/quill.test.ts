@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { quillAdapter } from '../quill';
+import { FakeDocument, QUILL_PAGE, loadFixture } from './harness';
+
+const mountQuill = (selected: string) => {
+  loadFixture(QUILL_PAGE);
+  const doc = new FakeDocument('I has a question.\n');
+  const index = doc.indexOf(selected);
+  const container = document.querySelector('.ql-container') as HTMLElement;
+  vi.spyOn(container, 'getBoundingClientRect').mockReturnValue(new DOMRect(20, 300, 600, 150));
+  const quill = {
+    container,
+    getSelection: () => ({ index, length: selected.length }),
+    getText: (start: number, length: number) => doc.slice(start, start + length),
+    deleteText: vi.fn((start: number, length: number) => doc.replace(start, start + length, '')),
+    insertText: vi.fn((start: number, text: string) => doc.replace(start, start, text)),
+    setSelection: vi.fn(),
+    getBounds: (start: number, length: number) => ({ left: start * 8, top: 12, width: length * 8, height: 18 }),
+  };
+  return { doc, quill, container, editor: document.querySelector('.ql-editor p') as Element };
+};
+
+describe('quillAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('finds Quill 1 through its container and edits as the user', () => {
+    const { doc, quill, container, editor } = mountQuill('I has');
+    (container as HTMLElement & { __quill?: unknown }).__quill = quill;
+    const selection = quillAdapter.capture(editor);
+
+    expect(selection?.text).toBe('I has');
+    expect(selection?.getRect()).toEqual(new DOMRect(20, 312, 40, 18));
+    expect(selection?.replace('I have')).toBe(true);
+    expect(doc.text).toBe('I have a question.\n');
+    expect(quill.deleteText).toHaveBeenCalledWith(0, 5, 'user');
+    expect(quill.insertText).toHaveBeenCalledWith(0, 'I have', 'user');
+    expect(quill.setSelection).toHaveBeenCalledWith(0, 6, 'user');
+
+    expect(selection?.undo()).toBe(true);
+    expect(doc.text).toBe('I has a question.\n');
+  });
+
+  it('finds Quill 2 through Quill.find', () => {
+    const { quill, container, editor } = mountQuill('question');
+    vi.stubGlobal('Quill', { find: (node: Element) => (node === container ? quill : null) });
+
+    expect(quillAdapter.capture(editor)?.text).toBe('question');
+  });
+
+  it('skips editors without a selection', () => {
+    const { quill, container, editor } = mountQuill('question');
+    (container as HTMLElement & { __quill?: unknown }).__quill = { ...quill, getSelection: () => null };
+
+    expect(quillAdapter.capture(editor)).toBeNull();
+  });
+});
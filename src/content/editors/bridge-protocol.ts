@@ -0,0 +1,29 @@
+/**
+ * Messages between the content script and the editor bridge in the page's world.
+ * They travel as JSON strings in synchronous DOM events, the one channel the two
+ * worlds share; an editor selection is referred to by the id `capture` returns.
+ */
+export const EDITOR_REQUEST_EVENT = 'ai-rewriter:editor-request';
+export const EDITOR_RESPONSE_EVENT = 'ai-rewriter:editor-response';
+
+export type EditorBridgeRequest =
+  | { type: 'read' }
+  | { type: 'capture' }
+  | { type: 'replace'; id: string; text: string }
+  | { type: 'undo'; id: string }
+  | { type: 'rect'; id: string };
+
+export interface EditorBridgeRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface EditorBridgeResponse {
+  editor?: string;
+  id?: string;
+  text?: string;
+  rect?: EditorBridgeRect | null;
+  ok?: boolean;
+}
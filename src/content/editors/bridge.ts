@@ -0,0 +1,57 @@
+import { getDeepActiveElement } from '../shadow-dom';
+import {
+  EDITOR_REQUEST_EVENT,
+  EDITOR_RESPONSE_EVENT,
+  EditorBridgeRect,
+  EditorBridgeRequest,
+  EditorBridgeResponse,
+} from './bridge-protocol';
+import { captureEditorSelection } from './index';
+import { EditorSelection } from './types';
+
+// Captures outlive the card that made them only briefly; the oldest go first.
+const MAX_CAPTURES = 20;
+
+const toBridgeRect = (rect: DOMRect | null): EditorBridgeRect | null =>
+  rect && { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+
+/** Answers the content script's editor requests. Runs in the page's world, where editor instances are reachable. */
+export const installEditorBridge = (): void => {
+  const captures = new Map<string, EditorSelection>();
+  let captureCounter = 0;
+
+  const handle = (request: EditorBridgeRequest): EditorBridgeResponse | null => {
+    if (request.type === 'read' || request.type === 'capture') {
+      const found = captureEditorSelection(getDeepActiveElement());
+      if (!found) return null;
+      const { editor, selection } = found;
+      if (request.type === 'read') {
+        return { editor, text: selection.text, rect: toBridgeRect(selection.getRect()) };
+      }
+      captureCounter += 1;
+      const id = String(captureCounter);
+      captures.set(id, selection);
+      if (captures.size > MAX_CAPTURES) captures.delete(captures.keys().next().value as string);
+      return { editor, id, text: selection.text };
+    }
+
+    const selection = captures.get(request.id);
+    if (!selection) return null;
+    if (request.type === 'replace') return { ok: selection.replace(request.text) };
+    if (request.type === 'undo') return { ok: selection.undo() };
+    return { rect: toBridgeRect(selection.getRect()) };
+  };
+
+  document.addEventListener(EDITOR_REQUEST_EVENT, (event) => {
+    const detail = (event as CustomEvent<unknown>).detail;
+    if (typeof detail !== 'string') return;
+    let response: EditorBridgeResponse | null = null;
+    try {
+      response = handle(JSON.parse(detail) as EditorBridgeRequest);
+    } catch (error) {
+      // An editor that throws is treated as unknown, so the content script falls back to the generic path.
+      response = null;
+    }
+    document.dispatchEvent(new CustomEvent(EDITOR_RESPONSE_EVENT, { detail: JSON.stringify(response) }));
+  });
+};
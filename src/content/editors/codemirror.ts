@@ -0,0 +1,98 @@
+import { createTextSelection, spanRects } from './text-model';
+import { EditorAdapter } from './types';
+
+interface Coords {
+  left: number;
+  top: number;
+  bottom: number;
+}
+
+interface CodeMirror6View {
+  state: {
+    selection: { main: { from: number; to: number } };
+    sliceDoc(from: number, to: number): string;
+  };
+  dispatch(spec: {
+    changes: { from: number; to: number; insert: string };
+    selection: { anchor: number; head: number };
+    userEvent: string;
+  }): void;
+  coordsAtPos(pos: number): Coords | null;
+}
+
+type CodeMirror6ContentElement = Element & {
+  cmView?: { view?: CodeMirror6View; rootView?: { view?: CodeMirror6View } };
+};
+
+// The content element's `cmView` is what `EditorView.findFromDOM` reads.
+const findCodeMirror6 = (element: Element): CodeMirror6View | null => {
+  const content = element.closest('.cm-editor')?.querySelector('.cm-content') as CodeMirror6ContentElement | null;
+  return content?.cmView?.rootView?.view ?? content?.cmView?.view ?? null;
+};
+
+export const codeMirror6Adapter: EditorAdapter = {
+  name: 'CodeMirror',
+  capture: (element) => {
+    const view = findCodeMirror6(element);
+    if (!view) return null;
+    const { from, to } = view.state.selection.main;
+    return createTextSelection(
+      {
+        getText: (start, end) => view.state.sliceDoc(start, end),
+        replace: (start, end, text) =>
+          view.dispatch({
+            changes: { from: start, to: end, insert: text },
+            selection: { anchor: start, head: start + text.length },
+            userEvent: 'input.replace',
+          }),
+        getRect: (start, end) => {
+          const startCoords = view.coordsAtPos(start);
+          const endCoords = view.coordsAtPos(end);
+          return startCoords && endCoords ? spanRects(startCoords, endCoords) : null;
+        },
+      },
+      from,
+      to
+    );
+  },
+};
+
+interface CodeMirror5Position {
+  line: number;
+  ch: number;
+}
+
+interface CodeMirror5 {
+  getCursor(start: 'from' | 'to'): CodeMirror5Position;
+  getRange(from: CodeMirror5Position, to: CodeMirror5Position): string;
+  replaceRange(text: string, from: CodeMirror5Position, to: CodeMirror5Position, origin: string): void;
+  setSelection(anchor: CodeMirror5Position, head: CodeMirror5Position): void;
+  indexFromPos(position: CodeMirror5Position): number;
+  posFromIndex(index: number): CodeMirror5Position;
+  charCoords(position: CodeMirror5Position, mode: 'window'): Coords;
+}
+
+// CodeMirror 5 keeps its instance on the wrapper element.
+const findCodeMirror5 = (element: Element): CodeMirror5 | null =>
+  (element.closest('.CodeMirror') as (Element & { CodeMirror?: CodeMirror5 }) | null)?.CodeMirror ?? null;
+
+export const codeMirror5Adapter: EditorAdapter = {
+  name: 'CodeMirror 5',
+  capture: (element) => {
+    const cm = findCodeMirror5(element);
+    if (!cm) return null;
+    const at = (index: number) => cm.posFromIndex(index);
+    return createTextSelection(
+      {
+        getText: (start, end) => cm.getRange(at(start), at(end)),
+        replace: (start, end, text) => {
+          cm.replaceRange(text, at(start), at(end), 'ai-rewriter');
+          cm.setSelection(at(start), at(start + text.length));
+        },
+        getRect: (start, end) => spanRects(cm.charCoords(at(start), 'window'), cm.charCoords(at(end), 'window')),
+      },
+      cm.indexFromPos(cm.getCursor('from')),
+      cm.indexFromPos(cm.getCursor('to'))
+    );
+  },
+};
@@ -0,0 +1,53 @@
+import { getDeepSelection } from '../shadow-dom';
+import { EditorAdapter } from './types';
+
+const isMac = () => /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Draft.js keeps its state in React, out of reach from the DOM, and rebuilds
+ * the DOM from that state. So the replacement goes in as a paste, which Draft
+ * turns into an undoable change of its own, and undo is Draft's own Ctrl+Z.
+ */
+export const draftAdapter: EditorAdapter = {
+  name: 'Draft.js',
+  capture: (element) => {
+    const root = element.closest('.public-DraftEditor-content') as HTMLElement | null;
+    const selection = getDeepSelection();
+    if (!root || !selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+    const range = selection.getRangeAt(0).cloneRange();
+    const text = range.toString();
+    if (!text.trim() || !root.contains(range.commonAncestorContainer)) return null;
+
+    return {
+      text,
+      replace: (replacement) => {
+        if (!root.isConnected || range.toString() !== text) return false;
+        root.focus();
+        const pageSelection = window.getSelection();
+        pageSelection?.removeAllRanges();
+        pageSelection?.addRange(range);
+        const clipboardData = new DataTransfer();
+        clipboardData.setData('text/plain', replacement);
+        const paste = new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true });
+        root.dispatchEvent(paste);
+        // Draft cancels the browser's paste once it has handled it.
+        return paste.defaultPrevented;
+      },
+      undo: () => {
+        if (!root.isConnected) return false;
+        root.focus();
+        const undo = new KeyboardEvent('keydown', {
+          key: 'z',
+          code: 'KeyZ',
+          ctrlKey: !isMac(),
+          metaKey: isMac(),
+          bubbles: true,
+          cancelable: true,
+        });
+        root.dispatchEvent(undo);
+        return undo.defaultPrevented;
+      },
+      getRect: () => (range.collapsed ? null : range.getBoundingClientRect()),
+    };
+  },
+};
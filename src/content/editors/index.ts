@@ -0,0 +1,27 @@
+import { codeMirror5Adapter, codeMirror6Adapter } from './codemirror';
+import { draftAdapter } from './draft';
+import { monacoAdapter } from './monaco';
+import { proseMirrorAdapter } from './prosemirror';
+import { quillAdapter } from './quill';
+import { EditorAdapter, EditorSelection } from './types';
+
+export const EDITOR_ADAPTERS: EditorAdapter[] = [
+  monacoAdapter,
+  codeMirror6Adapter,
+  codeMirror5Adapter,
+  proseMirrorAdapter,
+  quillAdapter,
+  draftAdapter,
+];
+
+/** The selection in the editor around `element`, from the first adapter that recognises it. */
+export const captureEditorSelection = (
+  element: Element | null
+): { editor: string; selection: EditorSelection } | null => {
+  if (!element) return null;
+  for (const adapter of EDITOR_ADAPTERS) {
+    const selection = adapter.capture(element);
+    if (selection) return { editor: adapter.name, selection };
+  }
+  return null;
+};
@@ -0,0 +1,88 @@
+import { createTextSelection, spanRects } from './text-model';
+import { EditorAdapter } from './types';
+
+interface MonacoPosition {
+  lineNumber: number;
+  column: number;
+}
+
+interface MonacoRange {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+interface MonacoModel {
+  getValueInRange(range: MonacoRange): string;
+  getOffsetAt(position: MonacoPosition): number;
+  getPositionAt(offset: number): MonacoPosition;
+}
+
+interface MonacoEditor {
+  getDomNode(): HTMLElement | null;
+  getModel(): MonacoModel | null;
+  getSelection(): MonacoRange | null;
+  executeEdits(source: string, edits: { range: MonacoRange; text: string; forceMoveMarkers?: boolean }[]): boolean;
+  pushUndoStop(): boolean;
+  setSelection(range: MonacoRange): void;
+  getScrolledVisiblePosition(position: MonacoPosition): { top: number; left: number; height: number } | null;
+}
+
+type MonacoWindow = Window & { monaco?: { editor?: { getEditors?: () => MonacoEditor[] } } };
+
+// Only the AMD build puts `monaco` on the page; bundled copies keep it private and get the generic path.
+const findMonaco = (element: Element): MonacoEditor | null => {
+  if (!element.closest('.monaco-editor')) return null;
+  const editors = (window as MonacoWindow).monaco?.editor?.getEditors?.() ?? [];
+  return editors.find((editor) => editor.getDomNode()?.contains(element)) ?? null;
+};
+
+export const monacoAdapter: EditorAdapter = {
+  name: 'Monaco',
+  capture: (element) => {
+    const editor = findMonaco(element);
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    if (!editor || !model || !selection) return null;
+
+    const toRange = (start: number, end: number): MonacoRange => {
+      const startPosition = model.getPositionAt(start);
+      const endPosition = model.getPositionAt(end);
+      return {
+        startLineNumber: startPosition.lineNumber,
+        startColumn: startPosition.column,
+        endLineNumber: endPosition.lineNumber,
+        endColumn: endPosition.column,
+      };
+    };
+    // Visible positions are relative to the editor's own box.
+    const caretRect = (offset: number) => {
+      const visible = editor.getScrolledVisiblePosition(model.getPositionAt(offset));
+      const box = editor.getDomNode()?.getBoundingClientRect();
+      if (!visible || !box) return null;
+      const top = box.top + visible.top;
+      return { left: box.left + visible.left, top, bottom: top + visible.height };
+    };
+
+    return createTextSelection(
+      {
+        getText: (start, end) => model.getValueInRange(toRange(start, end)),
+        replace: (start, end, text) => {
+          // Undo stops on both sides make the replacement a single Ctrl+Z step.
+          editor.pushUndoStop();
+          editor.executeEdits('ai-rewriter', [{ range: toRange(start, end), text, forceMoveMarkers: true }]);
+          editor.pushUndoStop();
+          editor.setSelection(toRange(start, start + text.length));
+        },
+        getRect: (start, end) => {
+          const startRect = caretRect(start);
+          const endRect = caretRect(end);
+          return startRect && endRect ? spanRects(startRect, endRect) : null;
+        },
+      },
+      model.getOffsetAt({ lineNumber: selection.startLineNumber, column: selection.startColumn }),
+      model.getOffsetAt({ lineNumber: selection.endLineNumber, column: selection.endColumn })
+    );
+  },
+};
@@ -0,0 +1,43 @@
+import { createTextSelection, spanRects } from './text-model';
+import { EditorAdapter } from './types';
+
+interface ProseMirrorTransaction {
+  insertText(text: string, from: number, to: number): ProseMirrorTransaction;
+}
+
+interface ProseMirrorView {
+  state: {
+    selection: { from: number; to: number };
+    doc: { textBetween(from: number, to: number, blockSeparator?: string): string };
+    tr: ProseMirrorTransaction;
+  };
+  dispatch(transaction: ProseMirrorTransaction): void;
+  coordsAtPos(pos: number): { left: number; top: number; bottom: number };
+}
+
+// Tiptap puts its editor on the ProseMirror element. Plain ProseMirror keeps its view private, and those
+// editors take the generic path, whose DOM edits ProseMirror reads back into a transaction.
+const findProseMirror = (element: Element): ProseMirrorView | null =>
+  (element.closest('.ProseMirror') as (Element & { editor?: { view?: ProseMirrorView } }) | null)?.editor?.view ??
+  null;
+
+export const proseMirrorAdapter: EditorAdapter = {
+  name: 'ProseMirror',
+  capture: (element) => {
+    const view = findProseMirror(element);
+    if (!view) return null;
+    const { from, to } = view.state.selection;
+    // Positions are text offsets only within one run of text: a block boundary takes two positions for one
+    // '\n', and inline nodes such as images one for none. Such selections take the generic path.
+    if (view.state.doc.textBetween(from, to, '\n').length !== to - from) return null;
+    return createTextSelection(
+      {
+        getText: (start, end) => view.state.doc.textBetween(start, end, '\n'),
+        replace: (start, end, text) => view.dispatch(view.state.tr.insertText(text, start, end)),
+        getRect: (start, end) => spanRects(view.coordsAtPos(start), view.coordsAtPos(end)),
+      },
+      from,
+      to
+    );
+  },
+};
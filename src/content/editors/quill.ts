@@ -0,0 +1,53 @@
+import { createTextSelection } from './text-model';
+import { EditorAdapter } from './types';
+
+interface Quill {
+  container: HTMLElement;
+  getSelection(): { index: number; length: number } | null;
+  getText(index: number, length: number): string;
+  deleteText(index: number, length: number, source: 'user'): void;
+  insertText(index: number, text: string, source: 'user'): void;
+  setSelection(index: number, length: number, source: 'user'): void;
+  getBounds(index: number, length: number): { left: number; top: number; width: number; height: number } | null;
+}
+
+type QuillContainer = Element & { __quill?: Quill };
+type QuillWindow = Window & { Quill?: { find?: (node: Element) => unknown } };
+
+// Quill 1 keeps its instance on the container; Quill 2 only hands it out through `Quill.find`.
+const findQuill = (element: Element): Quill | null => {
+  const container = element.closest('.ql-container') as QuillContainer | null;
+  if (!container) return null;
+  if (container.__quill) return container.__quill;
+  const found = (window as QuillWindow).Quill?.find?.(container) as Quill | null | undefined;
+  return found && typeof found.getSelection === 'function' ? found : null;
+};
+
+export const quillAdapter: EditorAdapter = {
+  name: 'Quill',
+  capture: (element) => {
+    const quill = findQuill(element);
+    const selection = quill?.getSelection();
+    if (!quill || !selection) return null;
+    return createTextSelection(
+      {
+        getText: (start, end) => quill.getText(start, end - start),
+        // Quill's history merges changes made in one go into a single undo step.
+        replace: (start, end, text) => {
+          quill.deleteText(start, end - start, 'user');
+          quill.insertText(start, text, 'user');
+          quill.setSelection(start, text.length, 'user');
+        },
+        // Bounds are relative to the container.
+        getRect: (start, end) => {
+          const bounds = quill.getBounds(start, end - start);
+          if (!bounds) return null;
+          const box = quill.container.getBoundingClientRect();
+          return new DOMRect(box.left + bounds.left, box.top + bounds.top, bounds.width, bounds.height);
+        },
+      },
+      selection.index,
+      selection.index + selection.length
+    );
+  },
+};
@@ -0,0 +1,39 @@
+import { EditorSelection, TextModel } from './types';
+
+/** Rectangle spanning two caret boxes, e.g. the start and end of a selection. */
+export const spanRects = (
+  start: Pick<DOMRect, 'left' | 'top' | 'bottom'>,
+  end: Pick<DOMRect, 'left' | 'top' | 'bottom'>
+): DOMRect => {
+  const left = Math.min(start.left, end.left);
+  const top = Math.min(start.top, end.top);
+  return new DOMRect(left, top, Math.max(Math.max(start.left, end.left) - left, 1), Math.max(end.bottom, start.bottom) - top);
+};
+
+/**
+ * The `from`–`to` range of an offset-addressed editor. Replacing checks that the
+ * text is still there first, and undoing puts the original back as a new edit,
+ * so it too lands in the editor's own history.
+ */
+export const createTextSelection = (model: TextModel, from: number, to: number): EditorSelection | null => {
+  const text = model.getText(from, to);
+  if (!text.trim()) return null;
+  let inserted: string | null = null;
+
+  return {
+    text,
+    replace: (replacement) => {
+      if (inserted !== null || model.getText(from, to) !== text) return false;
+      model.replace(from, to, replacement);
+      inserted = replacement;
+      return true;
+    },
+    undo: () => {
+      if (inserted === null || model.getText(from, from + inserted.length) !== inserted) return false;
+      model.replace(from, from + inserted.length, text);
+      inserted = null;
+      return true;
+    },
+    getRect: () => model.getRect(from, inserted === null ? to : from + inserted.length),
+  };
+};
@@ -0,0 +1,28 @@
+/** A selection read from a rich editor, replaced later through the editor's own API. */
+export interface EditorSelection {
+  text: string;
+  /** Puts `replacement` in place of the captured text; false when that text has changed since. */
+  replace(replacement: string): boolean;
+  /** Reverts `replace` through the editor; false when the replaced text was edited since. */
+  undo(): boolean;
+  /** Where the captured (or replaced) text is on screen. */
+  getRect(): DOMRect | null;
+}
+
+/**
+ * Recognises one editor framework. Adapters run in the page's own world, where
+ * the editor instances hang off their DOM nodes or globals.
+ */
+export interface EditorAdapter {
+  name: string;
+  /** The selection of the editor around `element`; null when it is not this adapter's editor or nothing is selected. */
+  capture(element: Element): EditorSelection | null;
+}
+
+/** An editor document addressed by character offsets, the way most editor APIs address it. */
+export interface TextModel {
+  getText(from: number, to: number): string;
+  /** Replaces `from`–`to` as one edit in the editor's undo history. */
+  replace(from: number, to: number, text: string): void;
+  getRect(from: number, to: number): DOMRect | null;
+}
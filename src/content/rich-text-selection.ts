@@ -0,0 +1,87 @@
+import { BLOCK_TAGS, RICH_TEXT_TAGS, escapeHtml } from '../utils/rich-text';
+import { ReplacementTarget } from './text-replacement';
+
+// Never part of the text a user means to rewrite.
+const SKIPPED_TAGS = new Set([
+  'button',
+  'canvas',
+  'iframe',
+  'input',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+]);
+
+/**
+ * Serialises the selected range to the `RICH_TEXT_TAGS` subset: links keep
+ * their href exactly as written, other attributes are dropped, and bold or
+ * italic spans (as Google Docs writes them) become `<b>` and `<i>`. Returns
+ * null when the selection has no formatting worth keeping, so plain text is
+ * rewritten as before.
+ */
+export const serializeRangeAsHtml = (range: Range): string | null => {
+  let formatted = false;
+  let blocks = 0;
+
+  const serialize = (node: Node, inPre: boolean): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? '';
+      return escapeHtml(inPre ? text : text.replace(/\s+/g, ' '));
+    }
+    const children = (isPre: boolean) =>
+      Array.from(node.childNodes)
+        .map((child) => serialize(child, isPre))
+        .join('');
+    if (!(node instanceof Element)) {
+      return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? children(inPre) : '';
+    }
+
+    const tag = node.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return '';
+    if (tag === 'br') {
+      formatted = true;
+      return '<br>';
+    }
+
+    const inner = children(inPre || tag === 'pre');
+    if (tag === 'a') {
+      const href = node.getAttribute('href');
+      if (href === null) return inner;
+      formatted = true;
+      return `<a href="${escapeHtml(href)}">${inner}</a>`;
+    }
+    if (RICH_TEXT_TAGS.has(tag)) {
+      // A single paragraph or line is not formatting by itself.
+      if (tag === 'div' || tag === 'p') {
+        blocks += 1;
+      } else {
+        formatted = true;
+      }
+      return `<${tag}>${inner}</${tag}>${BLOCK_TAGS.has(tag) ? '\n' : ''}`;
+    }
+
+    const style = node instanceof HTMLElement ? node.style : null;
+    let wrapped = inner;
+    if (style && (style.fontWeight === 'bold' || Number(style.fontWeight) >= 600)) {
+      formatted = true;
+      wrapped = `<b>${wrapped}</b>`;
+    }
+    if (style?.fontStyle === 'italic') {
+      formatted = true;
+      wrapped = `<i>${wrapped}</i>`;
+    }
+    return wrapped;
+  };
+
+  const html = serialize(range.cloneContents(), false).trim();
+  return (formatted || blocks > 1) && html ? html : null;
+};
+
+/** The formatted HTML for a captured page selection; text fields have none. */
+export const getTargetHtml = (target: ReplacementTarget | null): string | null =>
+  target?.kind === 'range' ? serializeRangeAsHtml(target.range) : null;
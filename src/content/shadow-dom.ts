@@ -0,0 +1,51 @@
+type SelectableRoot = ShadowRoot & { getSelection?: () => Selection | null };
+
+/**
+ * The focused element, looking through open shadow roots into web-component
+ * editors. Closed roots (ours included) keep their focus to themselves.
+ */
+export const getDeepActiveElement = (root: DocumentOrShadowRoot = document): Element | null => {
+  let element = root.activeElement;
+  while (element?.shadowRoot?.activeElement) {
+    element = element.shadowRoot.activeElement;
+  }
+  return element;
+};
+
+const getOpenShadowRoots = (element: Element | null): ShadowRoot[] => {
+  const roots: ShadowRoot[] = [];
+  for (let node: Node | null = element; node; ) {
+    const root = node.getRootNode();
+    if (!(root instanceof ShadowRoot)) break;
+    roots.push(root);
+    node = root.host;
+  }
+  return roots;
+};
+
+// A selection inside a shadow root shows up on the page collapsed at its host, or at the host's spot in its parent.
+const getSelectedHost = (selection: Selection | null): Element | null => {
+  if (!selection?.anchorNode) return null;
+  const anchor = selection.anchorNode;
+  const candidate = anchor instanceof Element && anchor.shadowRoot ? anchor : anchor.childNodes[selection.anchorOffset];
+  return candidate instanceof Element && candidate.shadowRoot ? candidate : null;
+};
+
+/**
+ * The selection the user sees. `window.getSelection()` cannot see into shadow
+ * roots, while Chrome's `ShadowRoot.getSelection()` has the real selection, so
+ * the open roots around the focused element are asked first, innermost first,
+ * then the root of a host the page selection sits on.
+ */
+export const getDeepSelection = (): Selection | null => {
+  const pageSelection = window.getSelection();
+  const roots = getOpenShadowRoots(getDeepActiveElement());
+  const selectedHost = getSelectedHost(pageSelection);
+  if (selectedHost?.shadowRoot) roots.push(selectedHost.shadowRoot);
+
+  for (const root of roots) {
+    const selection = (root as SelectableRoot).getSelection?.();
+    if (selection && selection.rangeCount > 0 && !selection.isCollapsed) return selection;
+  }
+  return pageSelection;
+};
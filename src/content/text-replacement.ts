@@ -0,0 +1,263 @@
+import { captureEditorSelection, replaceEditorSelection, undoEditorReplacement } from './editor-client';
+import { getDeepActiveElement, getDeepSelection } from './shadow-dom';
+
+export type ReplacementTarget =
+  | {
+      kind: 'input';
+      element: HTMLInputElement | HTMLTextAreaElement;
+      start: number;
+      end: number;
+      text: string;
+    }
+  | {
+      kind: 'range';
+      range: Range;
+      editableHost: HTMLElement | null;
+      text: string;
+    }
+  | {
+      /** A selection in a recognised rich editor, replaced through that editor's API. */
+      kind: 'editor';
+      id: string;
+      editor: string;
+      text: string;
+    };
+
+export interface AppliedReplacement {
+  undo: () => boolean;
+}
+
+const isTextField = (
+  element: Element | null
+): element is HTMLInputElement | HTMLTextAreaElement =>
+  element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement;
+
+const getEditableHost = (node: Node | null): HTMLElement | null => {
+  const element = node instanceof HTMLElement ? node : node?.parentElement ?? null;
+  if (!element?.isContentEditable) {
+    return null;
+  }
+
+  let host = element;
+  while (host.parentElement?.isContentEditable) {
+    host = host.parentElement;
+  }
+  return host;
+};
+
+/**
+ * Snapshots the current selection, inside open shadow roots too, so it can be
+ * replaced later, after focus has moved to the suggestion card. Returns null
+ * when nothing is selected.
+ */
+export const captureReplacementTarget = (): ReplacementTarget | null => {
+  // Rich editors keep their own model of the text; editing their DOM or value behind their back corrupts it.
+  const editorSelection = captureEditorSelection();
+  if (editorSelection) {
+    return { kind: 'editor', ...editorSelection };
+  }
+
+  const activeElement = getDeepActiveElement();
+  if (isTextField(activeElement)) {
+    // selectionStart is null for input types without a text selection API (email, number).
+    const start = activeElement.selectionStart;
+    const end = activeElement.selectionEnd;
+    if (start !== null && end !== null && activeElement.value.slice(start, end).trim()) {
+      return {
+        kind: 'input',
+        element: activeElement,
+        start,
+        end,
+        text: activeElement.value.slice(start, end),
+      };
+    }
+  }
+
+  const selection = getDeepSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0).cloneRange();
+  const text = range.toString();
+  if (!text.trim()) {
+    return null;
+  }
+
+  return {
+    kind: 'range',
+    range,
+    editableHost: getEditableHost(range.commonAncestorContainer),
+    text,
+  };
+};
+
+const dispatchInputEvent = (
+  target: HTMLElement,
+  type: 'beforeinput' | 'input',
+  data: string
+): boolean =>
+  target.dispatchEvent(
+    new InputEvent(type, {
+      bubbles: true,
+      cancelable: type === 'beforeinput',
+      inputType: 'insertReplacementText',
+      data,
+    })
+  );
+
+// Frameworks such as React track the last value they wrote through the instance
+// setter, so assigning `.value` directly would make them swallow the input event.
+const setNativeValue = (element: HTMLInputElement | HTMLTextAreaElement, value: string): void => {
+  const prototype =
+    element instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+  if (setter) {
+    setter.call(element, value);
+  } else {
+    element.value = value;
+  }
+};
+
+const replaceInputRange = (
+  element: HTMLInputElement | HTMLTextAreaElement,
+  start: number,
+  end: number,
+  text: string
+): void => {
+  const nextValue = element.value.slice(0, start) + text + element.value.slice(end);
+
+  element.focus();
+  element.setSelectionRange(start, end);
+
+  // execCommand keeps the browser's own undo stack and fires beforeinput/input natively.
+  let inserted = false;
+  try {
+    inserted = document.execCommand('insertText', false, text);
+  } catch (error) {
+    inserted = false;
+  }
+
+  if (!inserted || element.value !== nextValue) {
+    setNativeValue(element, nextValue);
+    dispatchInputEvent(element, 'input', text);
+  }
+
+  element.setSelectionRange(start, start + text.length);
+};
+
+const applyToInput = (
+  target: Extract<ReplacementTarget, { kind: 'input' }>,
+  replacement: string
+): AppliedReplacement | null => {
+  const { element, start, end, text } = target;
+  if (!element.isConnected || element.value.slice(start, end) !== text) {
+    return null;
+  }
+
+  replaceInputRange(element, start, end, replacement);
+
+  return {
+    undo: () => {
+      const replacedEnd = start + replacement.length;
+      if (!element.isConnected || element.value.slice(start, replacedEnd) !== replacement) {
+        return false;
+      }
+      replaceInputRange(element, start, replacedEnd, text);
+      return true;
+    },
+  };
+};
+
+const selectNodes = (first: Node, last: Node): void => {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.setStartBefore(first);
+  range.setEndAfter(last);
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+// A template's content is inert: nothing in it runs or loads while it is parsed.
+const parseHtml = (html: string): DocumentFragment => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content;
+};
+
+const applyToRange = (
+  target: Extract<ReplacementTarget, { kind: 'range' }>,
+  replacement: string,
+  html?: string
+): AppliedReplacement | null => {
+  const { range, editableHost, text } = target;
+  if (range.toString() !== text) {
+    return null;
+  }
+
+  if (editableHost && !dispatchInputEvent(editableHost, 'beforeinput', replacement)) {
+    return null;
+  }
+
+  const original = range.cloneContents();
+  const fragment = html === undefined ? null : parseHtml(html);
+  const insertedNodes: Node[] = fragment ? Array.from(fragment.childNodes) : [document.createTextNode(replacement)];
+  if (insertedNodes.length === 0) {
+    return null;
+  }
+  range.deleteContents();
+  range.insertNode(fragment ?? insertedNodes[0]);
+  const insertedText = insertedNodes.map((node) => node.textContent).join('');
+  if (editableHost) {
+    dispatchInputEvent(editableHost, 'input', replacement);
+  }
+  selectNodes(insertedNodes[0], insertedNodes[insertedNodes.length - 1]);
+
+  return {
+    undo: () => {
+      const isUnchanged =
+        insertedNodes.every((node) => node.isConnected) &&
+        insertedNodes.map((node) => node.textContent).join('') === insertedText;
+      if (!isUnchanged) {
+        return false;
+      }
+      insertedNodes.slice(1).forEach((node) => node.parentNode?.removeChild(node));
+      (insertedNodes[0] as ChildNode).replaceWith(original);
+      if (editableHost) {
+        dispatchInputEvent(editableHost, 'input', text);
+      }
+      return true;
+    },
+  };
+};
+
+const applyToEditor = (
+  target: Extract<ReplacementTarget, { kind: 'editor' }>,
+  replacement: string
+): AppliedReplacement | null =>
+  replaceEditorSelection(target.id, replacement) ? { undo: () => undoEditorReplacement(target.id) } : null;
+
+/**
+ * Replaces the captured selection with `replacement`, keeping any whitespace
+ * that surrounded the original selection. A page selection gets the sanitised
+ * `html` instead when it is given; text fields and rich editors always get the
+ * plain text. Returns null when the target text has changed since it was captured.
+ */
+export const applyReplacement = (
+  target: ReplacementTarget,
+  replacement: string,
+  html?: string
+): AppliedReplacement | null => {
+  const leading = target.text.match(/^\s*/)?.[0] ?? '';
+  const trailing = target.text.match(/\s*$/)?.[0] ?? '';
+  const padded = `${leading}${replacement.trim()}${trailing}`;
+
+  if (target.kind === 'input') {
+    return applyToInput(target, padded);
+  }
+  if (target.kind === 'editor') {
+    return applyToEditor(target, padded);
+  }
+  return applyToRange(target, padded, html === undefined ? undefined : `${leading}${html.trim()}${trailing}`);
+};
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { createButton, createIconButton } from '../button';
+import { clampToViewport, createCard, getAnchoredCardPosition } from '../card';
+
+describe('createButton', () => {
+  it('builds styled buttons from options', () => {
+    const apply = createButton('Apply', { icon: '✅', variant: 'primary', title: 'Apply (Enter)' });
+    const retry = createButton('Retry', { size: 'small' });
+
+    expect(apply.type).toBe('button');
+    expect(apply.className).toBe('btn btn-primary');
+    expect(apply.textContent).toBe('✅ Apply');
+    expect(apply.title).toBe('Apply (Enter)');
+    expect(retry.className).toBe('btn btn-small');
+    expect(retry.textContent).toBe('Retry');
+  });
+
+  it('labels icon buttons for screen readers', () => {
+    const button = createIconButton('‹', 'Previous version');
+
+    expect(button.getAttribute('aria-label')).toBe('Previous version');
+    expect(button.textContent).toBe('‹');
+  });
+});
+
+describe('createCard', () => {
+  it('renders a titled dialog whose close button calls back', () => {
+    const onClose = vi.fn();
+    const card = createCard('AI Rewriter', onClose);
+
+    expect(card.element.getAttribute('role')).toBe('dialog');
+    expect(card.element.tabIndex).toBe(-1);
+    expect(card.element.getAttribute('aria-label')).toBe('AI Rewriter');
+    expect(card.header.textContent).toContain('AI Rewriter');
+    expect(card.header.lastElementChild).toBe(card.closeButton);
+
+    card.closeButton.click();
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getAnchoredCardPosition', () => {
+  const viewport = { width: 1000, height: 800 };
+  const size = { width: 420, height: 300 };
+
+  it('opens below the anchor, left-aligned to it', () => {
+    expect(getAnchoredCardPosition({ top: 100, bottom: 120, left: 200 }, size, viewport)).toEqual({ top: 128, left: 200 });
+  });
+
+  it('flips above the anchor when only that side has room', () => {
+    expect(getAnchoredCardPosition({ top: 600, bottom: 620, left: 200 }, size, viewport)).toEqual({ top: 292, left: 200 });
+  });
+
+  it('overlaps the anchor on the roomier side when neither side has room', () => {
+    expect(getAnchoredCardPosition({ top: 300, bottom: 700, left: 200 }, size, viewport).top).toBe(8);
+    expect(getAnchoredCardPosition({ top: 100, bottom: 500, left: 200 }, size, viewport).top).toBe(492);
+  });
+
+  it('stays inside the viewport when the anchor scrolls out of it', () => {
+    expect(getAnchoredCardPosition({ top: -400, bottom: -380, left: 900 }, size, viewport)).toEqual({ top: 8, left: 572 });
+    expect(getAnchoredCardPosition({ top: 1200, bottom: 1220, left: -50 }, size, viewport)).toEqual({ top: 492, left: 8 });
+  });
+});
+
+describe('clampToViewport', () => {
+  it('pins boxes larger than the viewport to the top left corner', () => {
+    expect(clampToViewport({ top: 50, left: 50 }, { width: 1200, height: 900 }, { width: 1000, height: 800 })).toEqual({
+      top: 8,
+      left: 8,
+    });
+  });
+});
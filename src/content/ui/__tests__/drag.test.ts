@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { makeDraggable } from '../drag';
+
+// jsdom has no PointerEvent; the handlers only read the MouseEvent fields.
+const pointer = (target: Element, type: string, clientX: number, clientY: number) =>
+  target.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, button: 0, clientX, clientY }));
+
+const setup = (isEnabled?: () => boolean) => {
+  const element = document.createElement('div');
+  const handle = document.createElement('div');
+  const button = document.createElement('button');
+  handle.appendChild(button);
+  element.appendChild(handle);
+  document.body.appendChild(element);
+  vi.spyOn(element, 'getBoundingClientRect').mockReturnValue(new DOMRect(100, 100, 400, 300));
+  const onDragStart = vi.fn();
+  makeDraggable(element, handle, { isEnabled, onDragStart });
+  return { element, handle, button, onDragStart };
+};
+
+describe('makeDraggable', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('follows the pointer from where the handle was grabbed until release', () => {
+    const { element, handle, onDragStart } = setup();
+
+    pointer(handle, 'pointerdown', 150, 110);
+    pointer(handle, 'pointermove', 250, 210);
+
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+    expect(element.style.left).toBe('200px');
+    expect(element.style.top).toBe('200px');
+
+    pointer(handle, 'pointerup', 250, 210);
+    pointer(handle, 'pointermove', 400, 400);
+
+    expect(element.style.left).toBe('200px');
+  });
+
+  it('keeps the element inside the viewport', () => {
+    const { element, handle } = setup();
+
+    pointer(handle, 'pointerdown', 150, 110);
+    pointer(handle, 'pointermove', -500, 5000);
+
+    expect(element.style.left).toBe('8px');
+    expect(element.style.top).toBe(`${window.innerHeight - 300 - 8}px`);
+  });
+
+  it('leaves presses on controls and disabled handles alone', () => {
+    let enabled = true;
+    const { element, handle, button, onDragStart } = setup(() => enabled);
+
+    pointer(button, 'pointerdown', 150, 110);
+    pointer(handle, 'pointermove', 250, 210);
+    enabled = false;
+    pointer(handle, 'pointerdown', 150, 110);
+    pointer(handle, 'pointermove', 250, 210);
+
+    expect(onDragStart).not.toHaveBeenCalled();
+    expect(element.style.left).toBe('');
+  });
+});
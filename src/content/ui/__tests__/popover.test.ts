@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { Popover, getPopoverPosition } from '../popover';
+
+const viewport = { width: 1000, height: 800 };
+const size = { width: 240, height: 300 };
+
+describe('getPopoverPosition', () => {
+  it('opens below the anchor, right-aligned to it', () => {
+    expect(getPopoverPosition({ top: 100, bottom: 120, right: 600 }, size, viewport)).toEqual({ top: 128, left: 360 });
+  });
+
+  it('flips above the anchor when there is no room below', () => {
+    expect(getPopoverPosition({ top: 600, bottom: 620, right: 600 }, size, viewport)).toEqual({ top: 292, left: 360 });
+  });
+
+  it('stays inside the viewport', () => {
+    expect(getPopoverPosition({ top: 100, bottom: 120, right: 50 }, size, viewport).left).toBe(8);
+    expect(getPopoverPosition({ top: 100, bottom: 120, right: 2000 }, size, viewport).left).toBe(752);
+    expect(getPopoverPosition({ top: 10, bottom: 790, right: 600 }, size, viewport).top).toBe(8);
+  });
+});
+
+describe('Popover', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('opens at the anchor and closes', () => {
+    const popover = new Popover(document.body, { role: 'menu', label: 'Rewrite actions' });
+
+    expect(popover.element.getAttribute('role')).toBe('menu');
+    expect(popover.element.getAttribute('aria-label')).toBe('Rewrite actions');
+    expect(popover.isOpen()).toBe(false);
+
+    popover.open(new DOMRect(100, 100, 200, 20));
+
+    expect(popover.isOpen()).toBe(true);
+    expect(popover.element.style.top).toBe('128px');
+
+    popover.close();
+
+    expect(popover.isOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { UI_HOST_TAG, applyAppearance, createUIRoot } from '../root';
+
+describe('createUIRoot', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    document.body.removeAttribute('style');
+  });
+
+  it('keeps the UI and its stylesheet in a closed shadow root', () => {
+    const ui = createUIRoot();
+    const card = document.createElement('div');
+    card.className = 'card';
+    ui.root.appendChild(card);
+
+    expect(document.body.lastElementChild).toBe(ui.host);
+    expect(ui.host.tagName.toLowerCase()).toBe(UI_HOST_TAG);
+    expect(ui.host.shadowRoot).toBeNull();
+    expect(ui.root.querySelector('style')?.textContent).toContain('.typing-cursor');
+    expect(document.querySelector('.card')).toBeNull();
+    expect(document.head.querySelector('style')).toBeNull();
+  });
+
+  it('resolves the theme from the page and sets the accent', () => {
+    const ui = createUIRoot();
+    document.body.style.backgroundColor = 'rgb(24, 24, 24)';
+
+    applyAppearance(ui, { theme: 'auto', accentColor: '#ffd54f', cardPlacement: 'modal' });
+
+    expect(ui.host.dataset.theme).toBe('dark');
+    expect(ui.host.style.getPropertyValue('--accent')).toBe('#ffd54f');
+    expect(ui.host.style.getPropertyValue('--accent-contrast')).toBe('#000');
+
+    applyAppearance(ui, { theme: 'light', accentColor: '#3d8fd9', cardPlacement: 'modal' });
+
+    expect(ui.host.dataset.theme).toBe('light');
+  });
+});
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Toast } from '../toast';
+
+describe('Toast', () => {
+  let toast: Toast;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    toast = new Toast(document.body);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('shows a message and hides it after a while', () => {
+    toast.show('Copied to clipboard!');
+
+    expect(toast.isOpen()).toBe(true);
+    expect(toast.element.textContent).toContain('Copied to clipboard!');
+    expect(toast.element.classList.contains('is-error')).toBe(false);
+    expect(toast.element.querySelector('button')?.hidden).toBe(true);
+
+    vi.advanceTimersByTime(3000);
+
+    expect(toast.isOpen()).toBe(false);
+  });
+
+  it('runs its action once and closes', () => {
+    const onClick = vi.fn();
+    toast.show('Text replaced.', { action: { label: 'Undo', onClick } });
+    const button = toast.element.querySelector('button');
+
+    expect(button?.hidden).toBe(false);
+    expect(button?.textContent).toBe('Undo');
+    vi.advanceTimersByTime(3000);
+    expect(toast.isOpen()).toBe(true);
+
+    button?.click();
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(toast.isOpen()).toBe(false);
+  });
+
+  it('replaces the previous message and its timer', () => {
+    toast.show('First', { action: { label: 'Undo', onClick: vi.fn() } });
+    vi.advanceTimersByTime(2000);
+    toast.show('Failed to copy text', { isError: true });
+
+    expect(toast.element.classList.contains('is-error')).toBe(true);
+    expect(toast.element.querySelector('button')?.hidden).toBe(true);
+    vi.advanceTimersByTime(2999);
+    expect(toast.isOpen()).toBe(true);
+    vi.advanceTimersByTime(1);
+    expect(toast.isOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+export interface ButtonOptions {
+  /** Emoji or symbol shown before the label. */
+  icon?: string;
+  variant?: 'primary';
+  size?: 'small' | 'tiny';
+  title?: string;
+}
+
+export const createButton = (label: string, { icon, variant, size, title }: ButtonOptions = {}): HTMLButtonElement => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = ['btn', variant && `btn-${variant}`, size && `btn-${size}`].filter(Boolean).join(' ');
+  button.textContent = icon ? `${icon} ${label}` : label;
+  if (title) button.title = title;
+  return button;
+};
+
+/** A borderless symbol button, e.g. the card's close button. */
+export const createIconButton = (symbol: string, label: string): HTMLButtonElement => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'icon-button';
+  button.textContent = symbol;
+  button.title = label;
+  button.setAttribute('aria-label', label);
+  return button;
+};
@@ -0,0 +1,72 @@
+import { createIconButton } from './button';
+
+export interface CardParts {
+  element: HTMLDivElement;
+  /** Title row; header controls go before `closeButton`. */
+  header: HTMLDivElement;
+  closeButton: HTMLButtonElement;
+}
+
+/** A dialog panel with a title row and a close button; the caller adds the body. */
+export const createCard = (title: string, onClose: () => void): CardParts => {
+  const element = document.createElement('div');
+  element.className = 'card';
+  element.setAttribute('role', 'dialog');
+  element.setAttribute('aria-label', title);
+  // Focusable, so keyboard users and the caller can move the focus into it.
+  element.tabIndex = -1;
+
+  const header = document.createElement('div');
+  header.className = 'card-header';
+
+  const titleElement = document.createElement('div');
+  titleElement.className = 'card-title';
+  titleElement.textContent = title;
+
+  const closeButton = createIconButton('✕', 'Close');
+  closeButton.addEventListener('click', onClose);
+
+  header.appendChild(titleElement);
+  header.appendChild(closeButton);
+  element.appendChild(header);
+  return { element, header, closeButton };
+};
+
+const CARD_MARGIN = 8;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Position {
+  top: number;
+  left: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), Math.max(min, max));
+
+/** Moves a box of `size` just far enough to be fully visible, or to the top left corner if it is too big. */
+export const clampToViewport = ({ top, left }: Position, { width, height }: Size, viewport: Size): Position => ({
+  top: clamp(top, CARD_MARGIN, viewport.height - height - CARD_MARGIN),
+  left: clamp(left, CARD_MARGIN, viewport.width - width - CARD_MARGIN),
+});
+
+/**
+ * Where an inline card goes: below the anchor with their left edges aligned, or
+ * above it when only that side has room. When neither does, the roomier side wins
+ * and the card overlaps the anchor rather than leaving the viewport.
+ */
+export const getAnchoredCardPosition = (
+  anchor: Pick<DOMRect, 'top' | 'bottom' | 'left'>,
+  size: Size,
+  viewport: Size
+): Position => {
+  const spaceBelow = viewport.height - anchor.bottom - CARD_MARGIN;
+  const spaceAbove = anchor.top - CARD_MARGIN;
+  const fitsBelow = spaceBelow >= size.height + CARD_MARGIN;
+  const fitsAbove = spaceAbove >= size.height + CARD_MARGIN;
+  const below = fitsBelow || (!fitsAbove && spaceBelow >= spaceAbove);
+  const top = below ? anchor.bottom + CARD_MARGIN : anchor.top - CARD_MARGIN - size.height;
+  return clampToViewport({ top, left: anchor.left }, size, viewport);
+};
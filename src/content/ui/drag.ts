@@ -0,0 +1,44 @@
+import { clampToViewport } from './card';
+
+const INTERACTIVE = 'button, input, select, textarea, a';
+
+/**
+ * Moves a `position: fixed` element with the pointer while `handle` is dragged,
+ * keeping it inside the viewport. Presses on controls inside the handle keep
+ * their normal behaviour, and nothing happens while `isEnabled` returns false.
+ */
+export const makeDraggable = (
+  element: HTMLElement,
+  handle: HTMLElement,
+  { isEnabled = () => true, onDragStart }: { isEnabled?: () => boolean; onDragStart?: () => void } = {}
+): void => {
+  handle.addEventListener('pointerdown', (event) => {
+    if (event.button !== 0 || !isEnabled() || (event.target as Element | null)?.closest(INTERACTIVE)) return;
+
+    const rect = element.getBoundingClientRect();
+    const offsetX = event.clientX - rect.left;
+    const offsetY = event.clientY - rect.top;
+    // Keeps the moves coming when the pointer outruns the handle or leaves the window.
+    handle.setPointerCapture?.(event.pointerId);
+    event.preventDefault();
+    onDragStart?.();
+
+    const move = (moveEvent: PointerEvent) => {
+      const { top, left } = clampToViewport(
+        { top: moveEvent.clientY - offsetY, left: moveEvent.clientX - offsetX },
+        rect,
+        { width: window.innerWidth, height: window.innerHeight }
+      );
+      element.style.top = `${top}px`;
+      element.style.left = `${left}px`;
+    };
+    const stop = () => {
+      handle.removeEventListener('pointermove', move);
+      handle.removeEventListener('pointerup', stop);
+      handle.removeEventListener('pointercancel', stop);
+    };
+    handle.addEventListener('pointermove', move);
+    handle.addEventListener('pointerup', stop);
+    handle.addEventListener('pointercancel', stop);
+  });
+};
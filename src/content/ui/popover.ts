@@ -0,0 +1,59 @@
+const VIEWPORT_PADDING = 8;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Below the anchor with their right edges aligned, or above it when it does not
+ * fit below; always kept inside the viewport.
+ */
+export const getPopoverPosition = (
+  anchor: Pick<DOMRect, 'top' | 'bottom' | 'right'>,
+  { width, height }: Size,
+  viewport: Size
+): { top: number; left: number } => {
+  let top = anchor.bottom + VIEWPORT_PADDING;
+  if (top + height > viewport.height - VIEWPORT_PADDING) {
+    top = Math.max(VIEWPORT_PADDING, anchor.top - height - VIEWPORT_PADDING);
+  }
+  const left = Math.min(
+    Math.max(anchor.right - width, VIEWPORT_PADDING),
+    viewport.width - width - VIEWPORT_PADDING
+  );
+  return { top, left };
+};
+
+/** A floating panel anchored to a rectangle on the page, such as the selection. */
+export class Popover {
+  readonly element: HTMLDivElement;
+
+  constructor(parent: Node, { role, label }: { role: string; label: string }) {
+    this.element = document.createElement('div');
+    this.element.className = 'popover';
+    this.element.setAttribute('role', role);
+    this.element.setAttribute('aria-label', label);
+    parent.appendChild(this.element);
+  }
+
+  open(anchor: DOMRect): void {
+    this.element.classList.add('is-open');
+    // Measured once visible, so the position accounts for the current content.
+    const { width, height } = this.element.getBoundingClientRect();
+    const { top, left } = getPopoverPosition(anchor, { width, height }, {
+      width: window.innerWidth,
+      height: window.innerHeight,
+    });
+    this.element.style.top = `${top}px`;
+    this.element.style.left = `${left}px`;
+  }
+
+  close(): void {
+    this.element.classList.remove('is-open');
+  }
+
+  isOpen(): boolean {
+    return this.element.classList.contains('is-open');
+  }
+}
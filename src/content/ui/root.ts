@@ -0,0 +1,54 @@
+import { Appearance } from '../../types';
+import { getContrastColor, parseColor, resolveTheme } from '../../utils/theme';
+import { UI_STYLES } from './styles';
+
+export const UI_HOST_TAG = 'ai-rewriter-ui';
+
+export interface UIRoot {
+  /** The element in the page. Events from inside the shadow root reach page listeners retargeted to it. */
+  host: HTMLElement;
+  root: ShadowRoot;
+}
+
+/** Mounts the closed shadow root that all injected UI lives in, with the UI stylesheet. */
+export const createUIRoot = (doc: Document = document): UIRoot => {
+  const host = doc.createElement(UI_HOST_TAG);
+  // The host is the one element page CSS can still reach, so reset it and keep it out of the layout.
+  host.style.cssText = `
+    all: initial;
+    position: fixed;
+    top: 0;
+    left: 0;
+    width: 0;
+    height: 0;
+    z-index: 2147483647;
+  `;
+  const root = host.attachShadow({ mode: 'closed' });
+  const style = doc.createElement('style');
+  style.textContent = UI_STYLES;
+  root.appendChild(style);
+  (doc.body ?? doc.documentElement).appendChild(host);
+  return { host, root };
+};
+
+/** The first background the page paints (body, then html), or null when both are transparent. */
+export const getPageBackground = (doc: Document = document): string | null => {
+  const view = doc.defaultView;
+  if (!view) return null;
+  for (const element of [doc.body, doc.documentElement]) {
+    if (!element) continue;
+    const color = view.getComputedStyle(element).backgroundColor;
+    const rgba = parseColor(color);
+    if (rgba && rgba[3] > 0) return color;
+  }
+  return null;
+};
+
+/** Resolves `auto` against the page and the OS, then sets the theme and accent on the host. */
+export const applyAppearance = ({ host }: UIRoot, { theme, accentColor }: Appearance): void => {
+  const doc = host.ownerDocument;
+  const prefersDark = doc.defaultView?.matchMedia?.('(prefers-color-scheme: dark)').matches ?? false;
+  host.dataset.theme = resolveTheme(theme, { pageBackground: getPageBackground(doc), prefersDark });
+  host.style.setProperty('--accent', accentColor);
+  host.style.setProperty('--accent-contrast', getContrastColor(accentColor));
+};
@@ -0,0 +1,542 @@
+/**
+ * The one stylesheet of the in-page UI. It lives in our shadow root, so page CSS
+ * cannot restyle the card and nothing here (keyframes included) reaches the page.
+ * Colours are custom properties set per theme on the host; `--accent` comes from
+ * the user's settings.
+ */
+export const UI_STYLES = `
+:host {
+  all: initial;
+  --accent: #3d8fd9;
+  --accent-contrast: #fff;
+  --surface: #2c2c2c;
+  --surface-sunken: #1f1f1f;
+  --border: #3c3c3c;
+  --text: #fff;
+  --text-content: #e0e0e0;
+  --text-muted: #999;
+  --text-dimmed: #9e9e9e;
+  --control: #3c3c3c;
+  --control-hover: #4c4c4c;
+  --control-text: #fff;
+  --overlay: rgba(0, 0, 0, 0.5);
+  --shadow: 0 8px 24px rgba(0, 0, 0, 0.3);
+  --warning-bg: rgba(255, 193, 7, 0.12);
+  --warning-text: #ffd54f;
+  --danger: #dc3545;
+  --danger-bg: rgba(220, 53, 69, 0.12);
+  --danger-border: rgba(220, 53, 69, 0.5);
+  --danger-text: #ff8a80;
+  --danger-text-soft: #ffcdd2;
+  --success: #28a745;
+  --insert-bg: rgba(46, 160, 67, 0.35);
+  --insert-text: #d2f8d2;
+  --delete-bg: rgba(248, 81, 73, 0.3);
+  --delete-text: #ffc9c9;
+}
+
+:host([data-theme='light']) {
+  --surface: #fff;
+  --surface-sunken: #f3f4f6;
+  --border: #dcdfe4;
+  --text: #1f1f1f;
+  --text-content: #2d2d2d;
+  --text-muted: #666;
+  --text-dimmed: #8a8a8a;
+  --control: #eceef1;
+  --control-hover: #dfe2e6;
+  --control-text: #1f1f1f;
+  --overlay: rgba(0, 0, 0, 0.3);
+  --shadow: 0 8px 24px rgba(0, 0, 0, 0.15);
+  --warning-bg: rgba(255, 193, 7, 0.18);
+  --warning-text: #7a5d00;
+  --danger-bg: rgba(220, 53, 69, 0.08);
+  --danger-border: rgba(220, 53, 69, 0.4);
+  --danger-text: #c62828;
+  --danger-text-soft: #8e1c1c;
+  --insert-bg: rgba(46, 160, 67, 0.2);
+  --insert-text: #1b5e20;
+  --delete-bg: rgba(248, 81, 73, 0.18);
+  --delete-text: #b71c1c;
+}
+
+*,
+*::before,
+*::after {
+  box-sizing: border-box;
+}
+
+button,
+input,
+select {
+  font: inherit;
+}
+
+:focus-visible {
+  outline: 2px solid var(--accent);
+  outline-offset: 1px;
+}
+
+@keyframes blink {
+  50% { opacity: 0; }
+}
+
+@keyframes fade-in {
+  from { opacity: 0; }
+  to { opacity: 1; }
+}
+
+.overlay {
+  position: fixed;
+  inset: 0;
+  background: var(--overlay);
+  z-index: 10000;
+  display: none;
+  backdrop-filter: blur(2px);
+}
+
+.btn {
+  background: var(--control);
+  color: var(--control-text);
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 14px;
+  font-weight: 500;
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  transition: background-color 0.2s;
+}
+
+.btn:hover:not(:disabled) {
+  background: var(--control-hover);
+}
+
+.btn:disabled {
+  opacity: 0.6;
+  cursor: not-allowed;
+}
+
+.btn-primary,
+.btn-primary:hover:not(:disabled) {
+  background: var(--accent);
+  color: var(--accent-contrast);
+}
+
+.btn-primary:hover:not(:disabled) {
+  filter: brightness(1.1);
+}
+
+.btn-small {
+  padding: 6px 12px;
+  font-size: 13px;
+}
+
+.btn-tiny {
+  padding: 3px 8px;
+  border-radius: 4px;
+  font-size: 12px;
+  flex-shrink: 0;
+}
+
+.icon-button {
+  background: none;
+  border: none;
+  color: var(--text-muted);
+  cursor: pointer;
+  padding: 4px;
+  font-size: 16px;
+  line-height: 1;
+  transition: color 0.2s;
+}
+
+.icon-button:hover:not(:disabled) {
+  color: var(--text);
+}
+
+.icon-button:disabled {
+  opacity: 0.6;
+  cursor: not-allowed;
+}
+
+.input,
+.select {
+  width: 100%;
+  padding: 8px 10px;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: var(--surface-sunken);
+  color: var(--text);
+  font-size: 14px;
+  outline: none;
+}
+
+.input:focus,
+.select:focus {
+  border-color: var(--accent);
+}
+
+.select {
+  padding: 6px 8px;
+  font-size: 13px;
+}
+
+.toast {
+  position: fixed;
+  bottom: 20px;
+  right: 20px;
+  padding: 16px;
+  background: var(--success);
+  color: #fff;
+  border-radius: 8px;
+  z-index: 10001;
+  display: none;
+  align-items: center;
+  gap: 12px;
+  max-width: 300px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+  font-family: system-ui, -apple-system, sans-serif;
+  font-size: 14px;
+}
+
+.toast.is-open {
+  display: flex;
+}
+
+.toast.is-error {
+  background: var(--danger);
+}
+
+.toast-action {
+  background: rgba(255, 255, 255, 0.2);
+  color: #fff;
+  border: none;
+  padding: 4px 10px;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 13px;
+  font-weight: 600;
+}
+
+.selection-button {
+  position: fixed;
+  width: 28px;
+  height: 28px;
+  border-radius: 50%;
+  border: none;
+  background: var(--control);
+  color: var(--control-text);
+  font-family: system-ui, -apple-system, sans-serif;
+  font-weight: 700;
+  font-size: 12px;
+  cursor: pointer;
+  display: none;
+  align-items: center;
+  justify-content: center;
+  box-shadow: 0 4px 10px rgba(0, 0, 0, 0.25);
+  z-index: 10002;
+  transition: transform 0.15s ease, background-color 0.2s ease;
+}
+
+.selection-button:hover {
+  background: var(--accent);
+  color: var(--accent-contrast);
+  transform: scale(1.05);
+}
+
+.popover {
+  position: fixed;
+  width: 240px;
+  max-height: 320px;
+  padding: 6px;
+  background: var(--surface);
+  color: var(--text);
+  border: 1px solid var(--border);
+  border-radius: 10px;
+  box-shadow: var(--shadow);
+  z-index: 10003;
+  display: none;
+  flex-direction: column;
+  gap: 6px;
+  font-family: system-ui, -apple-system, sans-serif;
+  font-size: 14px;
+}
+
+.popover.is-open {
+  display: flex;
+}
+
+.menu-list {
+  display: flex;
+  flex-direction: column;
+  overflow-y: auto;
+}
+
+.menu-item {
+  background: none;
+  border: none;
+  border-radius: 6px;
+  color: var(--text-content);
+  text-align: left;
+  padding: 8px 10px;
+  cursor: pointer;
+  outline: none;
+}
+
+.menu-item:focus {
+  background: var(--control);
+}
+
+.card {
+  position: fixed;
+  top: 50%;
+  left: 50%;
+  transform: translate(-50%, -50%);
+  padding: 20px;
+  background: var(--surface);
+  color: var(--text);
+  border-radius: 12px;
+  z-index: 10001;
+  display: none;
+  width: 90%;
+  max-width: 500px;
+  box-shadow: var(--shadow);
+  font-family: system-ui, -apple-system, sans-serif;
+  font-size: 14px;
+  border: 1px solid var(--border);
+  animation: fade-in 0.3s ease-out;
+}
+
+.card:focus {
+  outline: none;
+}
+
+.card.is-inline {
+  transform: none;
+  width: 420px;
+  min-width: 280px;
+  min-height: 160px;
+  max-width: calc(100vw - 16px);
+  max-height: calc(100vh - 16px);
+  overflow: auto;
+  resize: both;
+  animation-duration: 0.15s;
+}
+
+.card.is-inline .card-header {
+  cursor: move;
+  user-select: none;
+}
+
+.card-header {
+  display: flex;
+  align-items: center;
+  margin-bottom: 16px;
+  padding-bottom: 12px;
+  border-bottom: 1px solid var(--border);
+}
+
+.card-title {
+  font-weight: 600;
+  font-size: 16px;
+  flex-grow: 1;
+}
+
+.card-actions {
+  display: flex;
+  gap: 12px;
+  justify-content: flex-end;
+}
+
+.version-nav {
+  display: none;
+  align-items: center;
+  gap: 4px;
+  margin-right: 12px;
+  color: var(--text-muted);
+  font-size: 13px;
+}
+
+.version-nav .icon-button {
+  padding: 2px 6px;
+  font-size: 14px;
+}
+
+.view-toggle {
+  display: inline-flex;
+  gap: 2px;
+  margin-bottom: 12px;
+  padding: 2px;
+  background: var(--surface-sunken);
+  border-radius: 6px;
+}
+
+.view-tab {
+  background: none;
+  border: none;
+  border-radius: 4px;
+  color: var(--text-muted);
+  cursor: pointer;
+  padding: 4px 10px;
+  font-size: 13px;
+}
+
+.view-tab[aria-selected='true'] {
+  background: var(--control);
+  color: var(--text);
+}
+
+.view-tab:disabled {
+  opacity: 0.6;
+  cursor: not-allowed;
+}
+
+.variant-tabs {
+  display: none;
+  gap: 6px;
+  margin-bottom: 12px;
+}
+
+.variant-tab {
+  background: var(--control);
+  border: none;
+  border-radius: 12px;
+  color: var(--control-text);
+  cursor: pointer;
+  min-width: 32px;
+  padding: 3px 10px;
+  font-size: 13px;
+}
+
+.variant-tab[aria-selected='true'] {
+  background: var(--accent);
+  color: var(--accent-contrast);
+}
+
+.card-content {
+  margin-bottom: 16px;
+  color: var(--text-content);
+  font-size: 15px;
+  line-height: 1.6;
+  white-space: pre-wrap;
+  max-height: 60vh;
+  overflow-y: auto;
+}
+
+.card-content a {
+  color: var(--accent);
+}
+
+.card-content code {
+  font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+  font-size: 0.9em;
+  padding: 1px 4px;
+  border-radius: 3px;
+  background: var(--surface-sunken);
+}
+
+.card-content ins {
+  background: var(--insert-bg);
+  color: var(--insert-text);
+  text-decoration: none;
+  border-radius: 2px;
+}
+
+.card-content del {
+  background: var(--delete-bg);
+  color: var(--delete-text);
+  text-decoration: line-through;
+  border-radius: 2px;
+}
+
+.typing-cursor {
+  display: inline-block;
+  animation: blink 1s step-end infinite;
+}
+
+.variant-error {
+  color: var(--danger-text);
+}
+
+.chunk-failure-notice {
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 4px;
+  color: var(--danger-text);
+  font-size: 13px;
+  white-space: normal;
+}
+
+.chunk-failure-message {
+  flex-grow: 1;
+}
+
+.chunk-original {
+  color: var(--text-dimmed);
+}
+
+.notice {
+  display: none;
+  margin: -8px 0 16px;
+  padding: 8px 10px;
+  border-radius: 6px;
+  background: var(--warning-bg);
+  color: var(--warning-text);
+  font-size: 13px;
+  line-height: 1.4;
+}
+
+.source-label {
+  display: none;
+  margin: -8px 0 16px;
+  color: var(--text-muted);
+  font-size: 12px;
+}
+
+.card-error {
+  display: none;
+  margin: -8px 0 16px;
+  padding: 10px 12px;
+  border-radius: 6px;
+  border: 1px solid var(--danger-border);
+  background: var(--danger-bg);
+  color: var(--danger-text-soft);
+  font-size: 13px;
+  line-height: 1.4;
+}
+
+.card-error-title {
+  font-weight: 600;
+  color: var(--danger-text);
+  margin-bottom: 4px;
+}
+
+.card-error-message {
+  word-break: break-word;
+}
+
+.card-error-actions {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-top: 10px;
+}
+
+.card-error-actions .select {
+  width: auto;
+}
+
+.refine-row {
+  display: flex;
+  gap: 8px;
+  margin-bottom: 12px;
+}
+
+.refine-row .input {
+  flex: 1;
+  min-width: 0;
+}
+`;
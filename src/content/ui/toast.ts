@@ -0,0 +1,66 @@
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+const TOAST_DURATION_MS = 3000;
+// Leave actionable toasts up a little longer so there is time to click them.
+const ACTION_TOAST_DURATION_MS = 6000;
+
+/** A short message in the corner of the page; showing another one replaces it. */
+export class Toast {
+  readonly element: HTMLDivElement;
+  private readonly message: HTMLSpanElement;
+  private readonly action: HTMLButtonElement;
+  private timeout: number | null = null;
+
+  constructor(parent: Node) {
+    this.element = document.createElement('div');
+    this.element.className = 'toast';
+    this.element.setAttribute('role', 'status');
+
+    this.message = document.createElement('span');
+    this.action = document.createElement('button');
+    this.action.type = 'button';
+    this.action.className = 'toast-action';
+    this.action.hidden = true;
+
+    this.element.appendChild(this.message);
+    this.element.appendChild(this.action);
+    parent.appendChild(this.element);
+  }
+
+  show(message: string, { isError = false, action }: { isError?: boolean; action?: ToastAction } = {}): void {
+    this.message.textContent = message;
+    this.element.classList.toggle('is-error', isError);
+    this.element.classList.add('is-open');
+
+    this.action.hidden = !action;
+    this.action.textContent = action?.label ?? '';
+    this.action.onclick = action
+      ? () => {
+          this.hide();
+          action.onClick();
+        }
+      : null;
+
+    this.clearTimer();
+    this.timeout = window.setTimeout(() => this.hide(), action ? ACTION_TOAST_DURATION_MS : TOAST_DURATION_MS);
+  }
+
+  hide(): void {
+    this.clearTimer();
+    this.element.classList.remove('is-open');
+  }
+
+  isOpen(): boolean {
+    return this.element.classList.contains('is-open');
+  }
+
+  private clearTimer(): void {
+    if (this.timeout !== null) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import { PROFILES_KEY, StorageService } from '../services/storage.service';
+import { getProvider, listProviders } from '../services/providers';
+import { Provider, RewriteAction, SettingsProfile } from '../types';
+import {
+  GenerationParamInputs,
+  fillGenerationParams,
+  getGenerationParamInputs,
+  readGenerationParams,
+} from './generation-params';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+/**
+ * Popup section for creating, editing, reordering, disabling and deleting the
+ * rewrite actions that populate the context menu.
+ */
+export class ActionsManager {
+  private actions: RewriteAction[] = [];
+  private profiles: SettingsProfile[] = [];
+  private editingId: string | null = null;
+
+  private actionList: HTMLUListElement;
+  private addButton: HTMLButtonElement;
+  private resetButton: HTMLButtonElement;
+  private editor: HTMLFormElement;
+  private titleInput: HTMLInputElement;
+  private instructionInput: HTMLTextAreaElement;
+  private profileSelect: HTMLSelectElement;
+  private providerSelect: HTMLSelectElement;
+  private modelInput: HTMLInputElement;
+  private paramInputs: GenerationParamInputs;
+  private cancelButton: HTMLButtonElement;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.actionList = document.getElementById('actionList') as HTMLUListElement;
+    this.addButton = document.getElementById('addActionBtn') as HTMLButtonElement;
+    this.resetButton = document.getElementById('resetActionsBtn') as HTMLButtonElement;
+    this.editor = document.getElementById('actionEditor') as HTMLFormElement;
+    this.titleInput = document.getElementById('actionTitle') as HTMLInputElement;
+    this.instructionInput = document.getElementById('actionInstruction') as HTMLTextAreaElement;
+    this.profileSelect = document.getElementById('actionProfile') as HTMLSelectElement;
+    this.providerSelect = document.getElementById('actionProvider') as HTMLSelectElement;
+    this.modelInput = document.getElementById('actionModel') as HTMLInputElement;
+    this.paramInputs = getGenerationParamInputs('action');
+    this.cancelButton = document.getElementById('cancelActionBtn') as HTMLButtonElement;
+
+    this.populateProviderOptions();
+    this.setupEventListeners();
+    void this.load();
+  }
+
+  private async load(): Promise<void> {
+    [this.actions, this.profiles] = await Promise.all([
+      this.storageService.getActions(),
+      this.storageService.getProfiles(),
+    ]);
+    this.populateProfileOptions();
+    this.render();
+  }
+
+  private populateProfileOptions(): void {
+    const selected = this.profileSelect.value;
+    this.profileSelect.innerHTML = '';
+
+    const defaultOption = document.createElement('option');
+    defaultOption.value = '';
+    defaultOption.textContent = 'Use active profile';
+    this.profileSelect.appendChild(defaultOption);
+
+    this.profiles.forEach((profile) => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = profile.name;
+      this.profileSelect.appendChild(option);
+    });
+    this.profileSelect.value = this.profiles.some((profile) => profile.id === selected) ? selected : '';
+  }
+
+  private populateProviderOptions(): void {
+    const defaultOption = document.createElement('option');
+    defaultOption.value = '';
+    defaultOption.textContent = "Use the profile's provider";
+    this.providerSelect.appendChild(defaultOption);
+
+    listProviders().forEach((adapter) => {
+      const option = document.createElement('option');
+      option.value = adapter.id;
+      option.textContent = adapter.label;
+      this.providerSelect.appendChild(option);
+    });
+  }
+
+  private setupEventListeners(): void {
+    this.addButton.addEventListener('click', () => this.openEditor(null));
+    this.cancelButton.addEventListener('click', () => this.closeEditor());
+    this.editor.addEventListener('submit', (event) => {
+      event.preventDefault();
+      void this.saveEditor();
+    });
+    this.resetButton.addEventListener('click', () => void this.resetToDefaults());
+    this.editor.querySelectorAll('input, textarea').forEach((field) => {
+      field.addEventListener('input', () => field.classList.remove('field-invalid'));
+    });
+    // Profiles are added and renamed in the settings form above.
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && changes[PROFILES_KEY]) {
+        void this.storageService.getProfiles().then((profiles) => {
+          this.profiles = profiles;
+          this.populateProfileOptions();
+          this.render();
+        });
+      }
+    });
+  }
+
+  private render(): void {
+    this.actionList.innerHTML = '';
+
+    this.actions.forEach((action, index) => {
+      const item = document.createElement('li');
+      item.className = `action-item${action.enabled ? '' : ' disabled'}`;
+
+      const toggle = document.createElement('input');
+      toggle.type = 'checkbox';
+      toggle.checked = action.enabled;
+      toggle.title = action.enabled ? 'Disable action' : 'Enable action';
+      toggle.addEventListener('change', () => {
+        void this.update(this.actions.map((a) => (a.id === action.id ? { ...a, enabled: toggle.checked } : a)));
+      });
+
+      const title = document.createElement('span');
+      title.className = 'action-title';
+      title.textContent = action.title;
+      title.title = action.instruction;
+
+      const override = this.describeOverrides(action);
+      if (override) {
+        const badge = document.createElement('span');
+        badge.className = 'action-badge';
+        badge.textContent = override;
+        title.appendChild(badge);
+      }
+
+      item.append(
+        toggle,
+        title,
+        this.createIconButton('↑', 'Move up', index === 0, () => this.move(index, -1)),
+        this.createIconButton('↓', 'Move down', index === this.actions.length - 1, () => this.move(index, 1)),
+        this.createIconButton('✎', 'Edit', false, () => this.openEditor(action)),
+        this.createIconButton('✕', 'Delete', false, () => this.remove(action))
+      );
+      this.actionList.appendChild(item);
+    });
+  }
+
+  private describeOverrides(action: RewriteAction): string {
+    const parts: string[] = [];
+    const profile = this.profiles.find((item) => item.id === action.profileId);
+    if (profile) parts.push(profile.name);
+    if (action.provider) parts.push(getProvider(action.provider).label);
+    if (action.model) parts.push(action.model);
+    if (action.temperature !== undefined) parts.push(`T ${action.temperature}`);
+    if (action.maxTokens !== undefined) parts.push(`${action.maxTokens} tokens`);
+    if (action.topP !== undefined) parts.push(`P ${action.topP}`);
+    return parts.join(' · ');
+  }
+
+  private createIconButton(
+    label: string,
+    title: string,
+    disabled: boolean,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'icon-button small';
+    button.textContent = label;
+    button.title = title;
+    button.disabled = disabled;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private move(index: number, offset: number): void {
+    const next = [...this.actions];
+    const [action] = next.splice(index, 1);
+    next.splice(index + offset, 0, action);
+    void this.update(next);
+  }
+
+  private remove(action: RewriteAction): void {
+    if (!confirm(`Delete the "${action.title}" action?`)) return;
+    if (this.editingId === action.id) this.closeEditor();
+    void this.update(this.actions.filter((a) => a.id !== action.id));
+  }
+
+  private openEditor(action: RewriteAction | null): void {
+    this.editingId = action?.id ?? null;
+    this.titleInput.value = action?.title ?? '';
+    this.instructionInput.value = action?.instruction ?? '';
+    this.profileSelect.value = this.profiles.some((profile) => profile.id === action?.profileId)
+      ? action?.profileId ?? ''
+      : '';
+    this.providerSelect.value = action?.provider ?? '';
+    this.modelInput.value = action?.model ?? '';
+    fillGenerationParams(this.paramInputs, action ?? {});
+    this.editor.hidden = false;
+    this.titleInput.focus();
+  }
+
+  private closeEditor(): void {
+    this.editingId = null;
+    this.editor.reset();
+    this.editor.hidden = true;
+  }
+
+  private async saveEditor(): Promise<void> {
+    const title = this.titleInput.value.trim();
+    const instruction = this.instructionInput.value.trim();
+    if (!title) {
+      this.titleInput.classList.add('field-invalid');
+      this.showStatus('Actions need a title.', 'error');
+      return;
+    }
+    if (!instruction) {
+      this.instructionInput.classList.add('field-invalid');
+      this.showStatus('Actions need an instruction.', 'error');
+      return;
+    }
+
+    const profileId = this.profileSelect.value || undefined;
+    const provider = (this.providerSelect.value || undefined) as Provider | undefined;
+    const model = this.modelInput.value.trim() || undefined;
+    if (model && provider) {
+      const modelError = getProvider(provider).validateModel(model);
+      if (modelError) {
+        this.modelInput.classList.add('field-invalid');
+        this.showStatus(modelError, 'error');
+        return;
+      }
+    }
+
+    const generation = readGenerationParams(this.paramInputs);
+    if ('error' in generation) {
+      this.showStatus(generation.error, 'error');
+      return;
+    }
+
+    const existing = this.actions.find((action) => action.id === this.editingId);
+    const action: RewriteAction = {
+      id: existing?.id ?? `action-${Date.now().toString(36)}`,
+      title,
+      instruction,
+      enabled: existing?.enabled ?? true,
+      ...(profileId ? { profileId } : {}),
+      ...(provider ? { provider } : {}),
+      ...(model ? { model } : {}),
+      ...generation.params,
+    };
+
+    const next = existing
+      ? this.actions.map((a) => (a.id === existing.id ? action : a))
+      : [...this.actions, action];
+    await this.update(next);
+    this.closeEditor();
+    this.showStatus(existing ? 'Action updated.' : 'Action added.', 'success');
+  }
+
+  private async resetToDefaults(): Promise<void> {
+    if (!confirm('Replace all actions with the built-in defaults?')) return;
+    await this.storageService.resetActions();
+    this.closeEditor();
+    await this.load();
+    this.showStatus('Actions reset to defaults.', 'success');
+  }
+
+  private async update(actions: RewriteAction[]): Promise<void> {
+    this.actions = actions;
+    this.render();
+    try {
+      await this.storageService.saveActions(actions);
+    } catch (error) {
+      this.showStatus('Failed to save actions', 'error');
+    }
+  }
+}
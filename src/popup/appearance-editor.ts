@@ -0,0 +1,51 @@
+import { StorageService } from '../services/storage.service';
+import { CardPlacement, UITheme } from '../types';
+import { isHexColor } from '../utils/theme';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+/** Popup section for the theme, accent colour and card placement of the UI injected into pages. */
+export class AppearanceEditor {
+  private themeSelect: HTMLSelectElement;
+  private accentInput: HTMLInputElement;
+  private placementSelect: HTMLSelectElement;
+  private saveButton: HTMLButtonElement;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.themeSelect = document.getElementById('uiTheme') as HTMLSelectElement;
+    this.accentInput = document.getElementById('accentColor') as HTMLInputElement;
+    this.placementSelect = document.getElementById('cardPlacement') as HTMLSelectElement;
+    this.saveButton = document.getElementById('saveAppearanceBtn') as HTMLButtonElement;
+
+    this.saveButton.addEventListener('click', () => void this.save());
+    void this.load();
+  }
+
+  private async load(): Promise<void> {
+    const { theme, accentColor, cardPlacement } = await this.storageService.getAppearance();
+    this.themeSelect.value = theme;
+    this.accentInput.value = accentColor;
+    this.placementSelect.value = cardPlacement;
+  }
+
+  private async save(): Promise<void> {
+    const accentColor = this.accentInput.value;
+    if (!isHexColor(accentColor)) {
+      this.showStatus('Choose an accent colour.', 'error');
+      return;
+    }
+    try {
+      await this.storageService.saveAppearance({
+        theme: this.themeSelect.value as UITheme,
+        accentColor,
+        cardPlacement: this.placementSelect.value as CardPlacement,
+      });
+      this.showStatus('Appearance saved. Open pages update right away.', 'success');
+    } catch (error) {
+      this.showStatus('Failed to save the appearance', 'error');
+    }
+  }
+}
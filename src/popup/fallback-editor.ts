@@ -0,0 +1,104 @@
+import { listProviders } from '../services/providers';
+import { DEFAULT_RETRY_POLICY } from '../services/retry';
+import { StorageService } from '../services/storage.service';
+import { FallbackModel, Provider } from '../types';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+const MAX_RETRIES = 5;
+
+const formatChain = (chain: FallbackModel[]): string =>
+  chain.map(({ provider, model }) => (model ? `${provider}:${model}` : provider)).join('\n');
+
+/** Popup section for the retry policy and the ordered fallback models. */
+export class FallbackEditor {
+  private retriesInput: HTMLInputElement;
+  private maxDelayInput: HTMLInputElement;
+  private chainInput: HTMLTextAreaElement;
+  private saveButton: HTMLButtonElement;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.retriesInput = document.getElementById('retryCount') as HTMLInputElement;
+    this.maxDelayInput = document.getElementById('retryMaxDelay') as HTMLInputElement;
+    this.chainInput = document.getElementById('fallbackModels') as HTMLTextAreaElement;
+    this.saveButton = document.getElementById('saveFallbacksBtn') as HTMLButtonElement;
+
+    this.chainInput.placeholder = listProviders()
+      .slice(0, 2)
+      .map((adapter) => `${adapter.id}:${adapter.modelExample}`)
+      .join('\n');
+    this.saveButton.addEventListener('click', () => void this.save());
+    void this.load();
+  }
+
+  private async load(): Promise<void> {
+    const [policy, chain] = await Promise.all([
+      this.storageService.getRetryPolicy(),
+      this.storageService.getFallbackChain(),
+    ]);
+    this.retriesInput.value = String(policy.maxRetries);
+    this.maxDelayInput.value = String(Math.round(policy.maxDelayMs / 1000));
+    this.chainInput.value = formatChain(chain);
+  }
+
+  private async save(): Promise<void> {
+    const retries = Number(this.retriesInput.value);
+    const maxDelaySeconds = Number(this.maxDelayInput.value);
+    if (!Number.isInteger(retries) || retries < 0 || retries > MAX_RETRIES) {
+      this.showStatus(`Retries must be a whole number from 0 to ${MAX_RETRIES}.`, 'error');
+      return;
+    }
+    if (!Number.isFinite(maxDelaySeconds) || maxDelaySeconds < 1) {
+      this.showStatus('The longest wait must be at least 1 second.', 'error');
+      return;
+    }
+
+    const chain: FallbackModel[] = [];
+    const lines = this.chainInput.value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    for (const line of lines) {
+      const separator = line.indexOf(':');
+      const id = (separator === -1 ? line : line.slice(0, separator)).trim();
+      const model = separator === -1 ? '' : line.slice(separator + 1).trim();
+      const adapter = listProviders().find((candidate) => candidate.id === id);
+      if (!adapter) {
+        const ids = listProviders()
+          .map((candidate) => candidate.id)
+          .join(', ');
+        this.showStatus(`Unknown provider "${id}". Use one of: ${ids}.`, 'error');
+        return;
+      }
+      const modelError = model ? adapter.validateModel(model) : null;
+      if (modelError) {
+        this.showStatus(modelError, 'error');
+        return;
+      }
+      chain.push(model ? { provider: id as Provider, model } : { provider: id as Provider });
+    }
+
+    try {
+      await Promise.all([
+        this.storageService.saveRetryPolicy({
+          ...DEFAULT_RETRY_POLICY,
+          maxRetries: retries,
+          maxDelayMs: maxDelaySeconds * 1000,
+        }),
+        this.storageService.saveFallbackChain(chain),
+      ]);
+      this.chainInput.value = formatChain(chain);
+      this.showStatus(
+        chain.length === 1
+          ? 'Retry settings and 1 fallback model saved.'
+          : `Retry settings and ${chain.length} fallback models saved.`,
+        'success'
+      );
+    } catch (error) {
+      this.showStatus('Failed to save the retry settings', 'error');
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { GenerationParams } from '../types';
+
+type ParamName = keyof GenerationParams;
+
+export type GenerationParamInputs = Record<ParamName, HTMLInputElement>;
+
+const PARAMS: Array<{ name: ParamName; id: string; label: string; min: number; max: number; integer?: boolean }> = [
+  { name: 'temperature', id: 'Temperature', label: 'Temperature', min: 0, max: 2 },
+  { name: 'maxTokens', id: 'MaxTokens', label: 'Max tokens', min: 1, max: 200000, integer: true },
+  { name: 'topP', id: 'TopP', label: 'Top P', min: 0, max: 1 },
+  { name: 'presencePenalty', id: 'PresencePenalty', label: 'Presence penalty', min: -2, max: 2 },
+  { name: 'frequencyPenalty', id: 'FrequencyPenalty', label: 'Frequency penalty', min: -2, max: 2 },
+];
+
+/** Looks up the `<prefix>Temperature`, `<prefix>MaxTokens`, … inputs of a form. */
+export const getGenerationParamInputs = (prefix: string): GenerationParamInputs =>
+  Object.fromEntries(
+    PARAMS.map(({ name, id }) => [name, document.getElementById(`${prefix}${id}`) as HTMLInputElement])
+  ) as GenerationParamInputs;
+
+export const fillGenerationParams = (inputs: GenerationParamInputs, params: GenerationParams = {}): void => {
+  PARAMS.forEach(({ name }) => {
+    const value = params[name];
+    inputs[name].value = value === undefined ? '' : String(value);
+  });
+};
+
+/**
+ * Reads the filled-in parameters; empty fields are left out so they fall back
+ * to the profile or provider defaults. Marks the first invalid field.
+ */
+export const readGenerationParams = (
+  inputs: GenerationParamInputs
+): { params: GenerationParams } | { error: string } => {
+  const params: GenerationParams = {};
+  for (const { name, label, min, max, integer } of PARAMS) {
+    const input = inputs[name];
+    const raw = input.value.trim();
+    if (!raw) continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      input.classList.add('field-invalid');
+      return {
+        error: integer
+          ? `${label} must be a whole number between ${min} and ${max}.`
+          : `${label} must be between ${min} and ${max}.`,
+      };
+    }
+    params[name] = value;
+  }
+  return { params };
+};
+
+export const clearGenerationParamErrors = (inputs: GenerationParamInputs): void => {
+  Object.values(inputs).forEach((input) => input.classList.remove('field-invalid'));
+};
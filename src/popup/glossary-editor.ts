@@ -0,0 +1,47 @@
+import { StorageService } from '../services/storage.service';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+/** Popup section for the glossary of terms that rewrites must keep as written. */
+export class GlossaryEditor {
+  private termsInput: HTMLTextAreaElement;
+  private saveButton: HTMLButtonElement;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.termsInput = document.getElementById('glossaryTerms') as HTMLTextAreaElement;
+    this.saveButton = document.getElementById('saveGlossaryBtn') as HTMLButtonElement;
+
+    this.saveButton.addEventListener('click', () => void this.save());
+    void this.load();
+  }
+
+  private async load(): Promise<void> {
+    const terms = await this.storageService.getGlossary();
+    this.termsInput.value = terms.join('\n');
+  }
+
+  private async save(): Promise<void> {
+    // Duplicates and blank lines are dropped; the order is kept.
+    const terms = Array.from(
+      new Set(
+        this.termsInput.value
+          .split('\n')
+          .map((term) => term.trim())
+          .filter(Boolean)
+      )
+    );
+    try {
+      await this.storageService.saveGlossary(terms);
+      this.termsInput.value = terms.join('\n');
+      this.showStatus(
+        terms.length === 1 ? '1 protected term saved.' : `${terms.length} protected terms saved.`,
+        'success'
+      );
+    } catch (error) {
+      this.showStatus('Failed to save the protected terms', 'error');
+    }
+  }
+}
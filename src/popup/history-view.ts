@@ -0,0 +1,236 @@
+import {
+  DEFAULT_HISTORY_SETTINGS,
+  HistoryService,
+  historyToCsv,
+  historyToJson,
+  searchHistory,
+} from '../services/history.service';
+import { getProvider } from '../services/providers';
+import { StorageService } from '../services/storage.service';
+import { HistoryEntry, Message, RewriteAction } from '../types';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+const PREVIEW_LENGTH = 160;
+
+/**
+ * Popup view listing saved rewrites with search, copy, re-run, delete and export.
+ */
+export class HistoryView {
+  private entries: HistoryEntry[] = [];
+  private actions: RewriteAction[] = [];
+  private readonly historyService = HistoryService.getInstance();
+
+  private searchInput: HTMLInputElement;
+  private list: HTMLUListElement;
+  private emptyState: HTMLParagraphElement;
+  private enabledCheckbox: HTMLInputElement;
+  private maxEntriesInput: HTMLInputElement;
+  private retentionInput: HTMLInputElement;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.searchInput = document.getElementById('historySearch') as HTMLInputElement;
+    this.list = document.getElementById('historyList') as HTMLUListElement;
+    this.emptyState = document.getElementById('historyEmpty') as HTMLParagraphElement;
+    this.enabledCheckbox = document.getElementById('historyEnabled') as HTMLInputElement;
+    this.maxEntriesInput = document.getElementById('historyMaxEntries') as HTMLInputElement;
+    this.retentionInput = document.getElementById('historyRetentionDays') as HTMLInputElement;
+
+    this.setupEventListeners();
+  }
+
+  public async load(): Promise<void> {
+    const [settings, entries, actions] = await Promise.all([
+      this.historyService.getSettings(),
+      this.historyService.getEntries(),
+      this.storageService.getActions(),
+    ]);
+    this.enabledCheckbox.checked = settings.enabled;
+    this.maxEntriesInput.value = String(settings.maxEntries);
+    this.retentionInput.value = String(settings.retentionDays);
+    this.entries = entries;
+    this.actions = actions.filter((action) => action.enabled);
+    this.render();
+  }
+
+  private setupEventListeners(): void {
+    this.searchInput.addEventListener('input', () => this.render());
+    (document.getElementById('exportHistoryJson') as HTMLButtonElement).addEventListener('click', () =>
+      this.download('ai-rewriter-history.json', historyToJson(this.getVisibleEntries()), 'application/json')
+    );
+    (document.getElementById('exportHistoryCsv') as HTMLButtonElement).addEventListener('click', () =>
+      this.download('ai-rewriter-history.csv', historyToCsv(this.getVisibleEntries()), 'text/csv')
+    );
+    (document.getElementById('clearHistory') as HTMLButtonElement).addEventListener('click', () =>
+      void this.clearAll()
+    );
+    [this.enabledCheckbox, this.maxEntriesInput, this.retentionInput].forEach((field) => {
+      field.addEventListener('change', () => void this.saveSettings());
+    });
+  }
+
+  private getVisibleEntries(): HistoryEntry[] {
+    return searchHistory(this.entries, this.searchInput.value);
+  }
+
+  private render(): void {
+    const visible = this.getVisibleEntries();
+    this.list.innerHTML = '';
+    this.emptyState.hidden = visible.length > 0;
+    this.emptyState.textContent = this.entries.length
+      ? 'No rewrites match your search.'
+      : 'Completed rewrites will appear here.';
+
+    visible.forEach((entry) => this.list.appendChild(this.renderEntry(entry)));
+  }
+
+  private renderEntry(entry: HistoryEntry): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'history-item';
+
+    const meta = document.createElement('div');
+    meta.className = 'history-meta';
+    meta.textContent = [
+      entry.actionTitle,
+      entry.provider ? getProvider(entry.provider).label : '',
+      entry.model,
+      entry.variants?.length ? `+${entry.variants.length} ${entry.variants.length === 1 ? 'variant' : 'variants'}` : '',
+      new Date(entry.createdAt).toLocaleString(),
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    const original = document.createElement('p');
+    original.className = 'history-original';
+    original.textContent = this.truncate(entry.originalText);
+    original.title = entry.originalText;
+
+    const rewritten = document.createElement('p');
+    rewritten.className = 'history-rewritten';
+    rewritten.textContent = this.truncate(entry.rewrittenText);
+    rewritten.title = entry.rewrittenText;
+
+    item.append(meta, original, rewritten);
+
+    if (entry.pageUrl) {
+      const page = document.createElement('a');
+      page.className = 'history-page';
+      page.href = entry.pageUrl;
+      page.target = '_blank';
+      page.rel = 'noopener noreferrer';
+      page.textContent = entry.pageTitle || entry.pageUrl;
+      item.appendChild(page);
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'history-actions';
+
+    const copyButton = this.createButton('Copy', () => void this.copy(entry));
+    const rerunSelect = document.createElement('select');
+    rerunSelect.className = 'history-rerun-select';
+    rerunSelect.setAttribute('aria-label', 'Action to re-run');
+    this.actions.forEach((action) => {
+      const option = document.createElement('option');
+      option.value = action.id;
+      option.textContent = action.title;
+      option.selected = action.id === entry.actionId;
+      rerunSelect.appendChild(option);
+    });
+    const rerunButton = this.createButton('Re-run', () => void this.rerun(entry, rerunSelect.value, rerunButton));
+    const deleteButton = this.createButton('Delete', () => void this.remove(entry));
+
+    actions.append(copyButton, rerunSelect, rerunButton, deleteButton);
+    item.appendChild(actions);
+    return item;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'secondary compact';
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private truncate(text: string): string {
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+  }
+
+  private async copy(entry: HistoryEntry): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(entry.rewrittenText);
+      this.showStatus('Copied to clipboard!', 'success');
+    } catch (error) {
+      this.showStatus('Failed to copy text', 'error');
+    }
+  }
+
+  private async rerun(entry: HistoryEntry, actionId: string, button: HTMLButtonElement): Promise<void> {
+    const action = this.actions.find((item) => item.id === actionId);
+    if (!action) return;
+
+    button.disabled = true;
+    button.textContent = '...';
+    try {
+      // The background runs it, so the rewrite still lands in the history if the popup closes meanwhile.
+      const response = (await chrome.runtime.sendMessage({
+        type: 'RERUN_HISTORY_ENTRY',
+        payload: { entryId: entry.id, actionId: action.id },
+      } as Message)) as { success?: boolean; error?: string } | undefined;
+      if (!response?.success) {
+        this.showStatus(response?.error || 'Failed to rewrite text', 'error');
+        return;
+      }
+      this.entries = await this.historyService.getEntries();
+      this.render();
+      this.showStatus(`Re-ran "${action.title}".`, 'success');
+    } finally {
+      button.disabled = false;
+      button.textContent = 'Re-run';
+    }
+  }
+
+  private async remove(entry: HistoryEntry): Promise<void> {
+    await this.historyService.deleteEntry(entry.id);
+    this.entries = this.entries.filter((item) => item.id !== entry.id);
+    this.render();
+  }
+
+  private async clearAll(): Promise<void> {
+    if (!this.entries.length || !confirm('Delete all saved rewrites?')) return;
+    await this.historyService.clear();
+    this.entries = [];
+    this.render();
+    this.showStatus('History cleared.', 'success');
+  }
+
+  private async saveSettings(): Promise<void> {
+    const maxEntries = Number.parseInt(this.maxEntriesInput.value, 10);
+    const retentionDays = Number.parseInt(this.retentionInput.value, 10);
+    const settings = {
+      enabled: this.enabledCheckbox.checked,
+      maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : DEFAULT_HISTORY_SETTINGS.maxEntries,
+      retentionDays: Number.isFinite(retentionDays) && retentionDays >= 0 ? retentionDays : DEFAULT_HISTORY_SETTINGS.retentionDays,
+    };
+    this.maxEntriesInput.value = String(settings.maxEntries);
+    this.retentionInput.value = String(settings.retentionDays);
+
+    await this.historyService.saveSettings(settings);
+    this.entries = await this.historyService.getEntries();
+    this.render();
+    this.showStatus(settings.enabled ? 'History settings saved.' : 'History saving turned off.', 'success');
+  }
+
+  private download(filename: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
@@ -0,0 +1,142 @@
+import { KeyVaultService, VaultStatus } from '../services/key-vault.service';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+/**
+ * Popup section for the encrypted key vault: unlocking it, setting, changing or
+ * removing the passphrase, the auto-lock timeout and locking it right away.
+ */
+export class KeyVaultPanel {
+  private status: VaultStatus | null = null;
+
+  private statusText: HTMLParagraphElement;
+  private unlockGroup: HTMLDivElement;
+  private unlockInput: HTMLInputElement;
+  private unlockButton: HTMLButtonElement;
+  private manageGroup: HTMLDivElement;
+  private passphraseLabel: HTMLLabelElement;
+  private passphraseInput: HTMLInputElement;
+  private autoLockGroup: HTMLDivElement;
+  private autoLockSelect: HTMLSelectElement;
+  private passphraseButton: HTMLButtonElement;
+  private lockButton: HTMLButtonElement;
+
+  constructor(
+    private readonly keyVault: KeyVaultService,
+    private readonly showStatus: StatusCallback,
+    private readonly onChange: (status: VaultStatus) => void
+  ) {
+    this.statusText = document.getElementById('vaultStatus') as HTMLParagraphElement;
+    this.unlockGroup = document.getElementById('vaultUnlockGroup') as HTMLDivElement;
+    this.unlockInput = document.getElementById('vaultUnlockPassphrase') as HTMLInputElement;
+    this.unlockButton = document.getElementById('vaultUnlockBtn') as HTMLButtonElement;
+    this.manageGroup = document.getElementById('vaultManageGroup') as HTMLDivElement;
+    this.passphraseLabel = document.getElementById('vaultPassphraseLabel') as HTMLLabelElement;
+    this.passphraseInput = document.getElementById('vaultPassphrase') as HTMLInputElement;
+    this.autoLockGroup = document.getElementById('vaultAutoLockGroup') as HTMLDivElement;
+    this.autoLockSelect = document.getElementById('vaultAutoLock') as HTMLSelectElement;
+    this.passphraseButton = document.getElementById('vaultPassphraseBtn') as HTMLButtonElement;
+    this.lockButton = document.getElementById('vaultLockBtn') as HTMLButtonElement;
+
+    this.setupEventListeners();
+  }
+
+  /** Reloads the vault state, re-renders and notifies the owner. */
+  public async load(): Promise<VaultStatus> {
+    this.status = await this.keyVault.getStatus();
+    this.render(this.status);
+    this.onChange(this.status);
+    return this.status;
+  }
+
+  private setupEventListeners(): void {
+    this.unlockButton.addEventListener('click', () => void this.unlock());
+    this.unlockInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        void this.unlock();
+      }
+    });
+    this.passphraseButton.addEventListener('click', () => void this.savePassphrase());
+    this.lockButton.addEventListener('click', () => void this.lock());
+    this.autoLockSelect.addEventListener('change', () => void this.saveAutoLock());
+  }
+
+  private render(status: VaultStatus): void {
+    if (!status.hasPassphrase) {
+      this.statusText.textContent =
+        'Keys are encrypted on this device and never synced. Add a passphrase so they cannot be used without it.';
+    } else if (status.locked) {
+      this.statusText.textContent = 'Keys are locked. Enter your passphrase to use or change them.';
+    } else {
+      this.statusText.textContent = 'Keys are unlocked.';
+    }
+
+    this.unlockGroup.hidden = !status.locked;
+    this.manageGroup.hidden = status.locked;
+    this.autoLockGroup.hidden = !status.hasPassphrase;
+    this.lockButton.hidden = !status.hasPassphrase;
+    this.passphraseLabel.textContent = status.hasPassphrase
+      ? 'New passphrase (leave empty to remove it):'
+      : 'Passphrase:';
+    this.passphraseButton.textContent = status.hasPassphrase ? 'Change passphrase' : 'Set passphrase';
+    this.autoLockSelect.value = String(status.autoLockMinutes);
+  }
+
+  private async unlock(): Promise<void> {
+    const passphrase = this.unlockInput.value;
+    if (!passphrase) return;
+
+    this.unlockButton.disabled = true;
+    try {
+      if (!(await this.keyVault.unlock(passphrase))) {
+        this.unlockInput.classList.add('field-invalid');
+        this.showStatus('Wrong passphrase.', 'error');
+        return;
+      }
+      this.unlockInput.value = '';
+      this.unlockInput.classList.remove('field-invalid');
+      // A legacy key found while the vault was locked can move in now.
+      await this.keyVault.migrateLegacyKey();
+      await this.load();
+      this.showStatus('Keys unlocked.', 'success');
+    } finally {
+      this.unlockButton.disabled = false;
+    }
+  }
+
+  private async savePassphrase(): Promise<void> {
+    const passphrase = this.passphraseInput.value;
+    const hasPassphrase = !!this.status?.hasPassphrase;
+    if (!passphrase && !hasPassphrase) {
+      this.passphraseInput.classList.add('field-invalid');
+      this.showStatus('Please enter a passphrase.', 'error');
+      return;
+    }
+    if (!passphrase && !confirm('Remove the passphrase? Keys stay encrypted, but no longer need it.')) return;
+
+    this.passphraseButton.disabled = true;
+    try {
+      await this.keyVault.setPassphrase(passphrase);
+      this.passphraseInput.value = '';
+      this.passphraseInput.classList.remove('field-invalid');
+      await this.load();
+      this.showStatus(passphrase ? 'Passphrase saved.' : 'Passphrase removed.', 'success');
+    } catch (error) {
+      this.showStatus(error instanceof Error ? error.message : 'Failed to update the passphrase.', 'error');
+    } finally {
+      this.passphraseButton.disabled = false;
+    }
+  }
+
+  private async lock(): Promise<void> {
+    await this.keyVault.lock();
+    await this.load();
+    this.showStatus('Keys locked.', 'success');
+  }
+
+  private async saveAutoLock(): Promise<void> {
+    await this.keyVault.setAutoLockMinutes(Number(this.autoLockSelect.value));
+    this.showStatus('Auto-lock updated.', 'success');
+  }
+}
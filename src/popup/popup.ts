@@ -1,61 +1,338 @@
 import { StorageService } from '../services/storage.service';
-import { AIService } from '../services/ai.service';
-import { Settings, Provider } from '../types';
+import { AIService, MAX_VARIANTS } from '../services/ai.service';
+import { ActionsManager } from './actions-manager';
+import {
+  GenerationParamInputs,
+  clearGenerationParamErrors,
+  fillGenerationParams,
+  getGenerationParamInputs,
+  readGenerationParams,
+} from './generation-params';
+import { AppearanceEditor } from './appearance-editor';
+import { FallbackEditor } from './fallback-editor';
+import { GlossaryEditor } from './glossary-editor';
+import { HistoryView } from './history-view';
+import { KeyVaultPanel } from './key-vault-panel';
+import { ResponseCachePanel } from './response-cache-panel';
+import { ShortcutsManager } from './shortcuts-manager';
+import { KeyVaultService, VaultLockedError, VaultStatus, maskApiKey } from '../services/key-vault.service';
+import { ResponseCacheService } from '../services/response-cache.service';
+import { DEFAULT_PROVIDER, getProvider, listProviders } from '../services/providers';
+import { Provider, SettingsProfile } from '../types';
 import './popup.css';
 
 class PopupUI {
   private storageService: StorageService;
   private aiService: AIService;
+  private keyVault: KeyVaultService;
+  private keyVaultPanel: KeyVaultPanel;
+  private vaultStatus: VaultStatus | null = null;
+  private profiles: SettingsProfile[] = [];
+  private currentProfileId = '';
+  private profileSelect: HTMLSelectElement;
+  private addProfileButton: HTMLButtonElement;
+  private deleteProfileButton: HTMLButtonElement;
+  private profileNameInput: HTMLInputElement;
+  private profileOwnKeyCheckbox: HTMLInputElement;
+  private profileParamInputs: GenerationParamInputs;
+  private profileSystemPromptInput: HTMLTextAreaElement;
   private apiKeyInput: HTMLInputElement;
+  private forgetApiKeyButton: HTMLButtonElement;
+  private apiKeyHelp: HTMLParagraphElement;
   private providerSelect: HTMLSelectElement;
+  private baseUrlGroup: HTMLDivElement;
+  private baseUrlInput: HTMLInputElement;
+  private modelHelp: HTMLParagraphElement;
   private modelInput: HTMLInputElement;
   private modelDataList: HTMLDataListElement;
   private modelStatusElement: HTMLDivElement;
+  private variantCountInput: HTMLInputElement;
+  private preserveFormattingCheckbox: HTMLInputElement;
   private refreshModelsButton: HTMLButtonElement;
   private saveButton: HTMLButtonElement;
   private resetButton: HTMLButtonElement;
   private statusElement: HTMLDivElement;
+  private historyView: HistoryView;
 
   private readonly modelCacheTtlMs = 24 * 60 * 60 * 1000;
 
   constructor() {
     this.storageService = StorageService.getInstance();
     this.aiService = AIService.getInstance();
-
+    this.keyVault = KeyVaultService.getInstance();
+
+    this.profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+    this.addProfileButton = document.getElementById('addProfileBtn') as HTMLButtonElement;
+    this.deleteProfileButton = document.getElementById('deleteProfileBtn') as HTMLButtonElement;
+    this.profileNameInput = document.getElementById('profileName') as HTMLInputElement;
+    this.profileOwnKeyCheckbox = document.getElementById('profileOwnKey') as HTMLInputElement;
+    this.profileParamInputs = getGenerationParamInputs('profile');
+    this.profileSystemPromptInput = document.getElementById('profileSystemPrompt') as HTMLTextAreaElement;
     this.apiKeyInput = document.getElementById('apiKey') as HTMLInputElement;
+    this.forgetApiKeyButton = document.getElementById('forgetApiKey') as HTMLButtonElement;
+    this.apiKeyHelp = document.getElementById('apiKeyHelp') as HTMLParagraphElement;
     this.providerSelect = document.getElementById('provider') as HTMLSelectElement;
+    this.baseUrlGroup = document.getElementById('baseUrlGroup') as HTMLDivElement;
+    this.baseUrlInput = document.getElementById('baseUrl') as HTMLInputElement;
+    this.modelHelp = document.getElementById('modelHelp') as HTMLParagraphElement;
     this.modelInput = document.getElementById('modelInput') as HTMLInputElement;
     this.modelDataList = document.getElementById('models-list') as HTMLDataListElement;
     this.modelStatusElement = document.getElementById('modelStatus') as HTMLDivElement;
+    this.variantCountInput = document.getElementById('variantCount') as HTMLInputElement;
+    this.preserveFormattingCheckbox = document.getElementById('preserveFormatting') as HTMLInputElement;
     this.refreshModelsButton = document.getElementById('refreshModels') as HTMLButtonElement;
     this.saveButton = document.getElementById('saveBtn') as HTMLButtonElement;
     this.resetButton = document.getElementById('resetBtn') as HTMLButtonElement;
     this.statusElement = document.getElementById('status') as HTMLDivElement;
 
+    this.keyVaultPanel = new KeyVaultPanel(
+      this.keyVault,
+      (message, type) => this.showStatus(message, type),
+      (status) => {
+        this.vaultStatus = status;
+        this.updateApiKeyField();
+      }
+    );
+
     this.initializeUI();
     this.setupEventListeners();
+    new ActionsManager(this.storageService, (message, type) => this.showStatus(message, type));
+    new ShortcutsManager(this.storageService, (message, type) => this.showStatus(message, type));
+    new GlossaryEditor(this.storageService, (message, type) => this.showStatus(message, type));
+    new FallbackEditor(this.storageService, (message, type) => this.showStatus(message, type));
+    new AppearanceEditor(this.storageService, (message, type) => this.showStatus(message, type));
+    new ResponseCachePanel(ResponseCacheService.getInstance(), (message, type) => this.showStatus(message, type));
+    this.historyView = new HistoryView(this.storageService, (message, type) =>
+      this.showStatus(message, type)
+    );
+    this.setupTabs();
+  }
+
+  private setupTabs(): void {
+    const tabs = Array.from(document.querySelectorAll<HTMLButtonElement>('.tab'));
+    tabs.forEach((tab) => {
+      tab.addEventListener('click', () => {
+        tabs.forEach((other) => {
+          const isActive = other === tab;
+          other.classList.toggle('active', isActive);
+          other.setAttribute('aria-selected', String(isActive));
+          const view = document.getElementById(other.dataset.view || '');
+          if (view) view.hidden = !isActive;
+        });
+        if (tab.dataset.view === 'historyView') {
+          void this.historyView.load();
+        }
+      });
+    });
   }
 
   private async initializeUI(): Promise<void> {
+    this.populateProviderOptions();
+
+    await this.keyVault.migrateLegacyKey();
+    await this.keyVaultPanel.load();
+
     const settings = await this.storageService.getSettings();
-    this.apiKeyInput.value = settings.apiKey;
-    this.providerSelect.value = settings.provider || 'openrouter';
-    this.modelInput.value = settings.model || '';
+    this.variantCountInput.value = String(settings.variantCount ?? 1);
+    this.preserveFormattingCheckbox.checked = settings.preserveFormatting ?? false;
+    await this.loadProfiles(settings.profileId);
+  }
+
+  private async loadProfiles(selectedId?: string): Promise<void> {
+    this.profiles = await this.storageService.getProfiles();
+    const profile = this.profiles.find((item) => item.id === selectedId) ?? this.profiles[0];
+
+    this.profileSelect.innerHTML = '';
+    this.profiles.forEach((item) => {
+      const option = document.createElement('option');
+      option.value = item.id;
+      option.textContent = item.name;
+      this.profileSelect.appendChild(option);
+    });
+    this.deleteProfileButton.disabled = this.profiles.length < 2;
+    this.showProfile(profile);
+  }
+
+  private showProfile(profile: SettingsProfile): void {
+    this.currentProfileId = profile.id;
+    this.profileSelect.value = profile.id;
+    this.profileNameInput.value = profile.name;
+    this.providerSelect.value = getProvider(profile.provider).id;
+    this.baseUrlInput.value = profile.baseUrl || '';
+    this.modelInput.value = profile.model || '';
+    this.apiKeyInput.value = '';
+    this.profileOwnKeyCheckbox.checked = !!profile.keyRef;
+    fillGenerationParams(this.profileParamInputs, profile);
+    this.profileSystemPromptInput.value = profile.systemPrompt || '';
+    this.clearValidationStates();
+    this.clearModelStatus();
+    this.modelDataList.innerHTML = '';
+    this.updateProviderFields();
+
+    if (this.canFetchModels()) {
+      this.fetchAndPopulateModels(this.getSelectedProvider());
+    }
+  }
+
+  private async switchProfile(id: string): Promise<void> {
+    const profile = this.profiles.find((item) => item.id === id);
+    if (!profile) return;
+    await this.storageService.setActiveProfileId(id);
+    this.showProfile(profile);
+    this.showStatus(`Switched to ${profile.name}.`, 'success');
+  }
+
+  /** Starts the new profile from the current provider so only what differs needs changing. */
+  private async addProfile(): Promise<void> {
+    const profile: SettingsProfile = {
+      id: `profile-${Date.now().toString(36)}`,
+      name: `Profile ${this.profiles.length + 1}`,
+      provider: this.getSelectedProvider(),
+      baseUrl: this.baseUrlInput.value.trim(),
+    };
+    await this.storageService.saveProfile(profile);
+    await this.storageService.setActiveProfileId(profile.id);
+    await this.loadProfiles(profile.id);
+    this.profileNameInput.focus();
+    this.profileNameInput.select();
+  }
+
+  private async deleteProfile(): Promise<void> {
+    const profile = this.profiles.find((item) => item.id === this.currentProfileId);
+    if (!profile || this.profiles.length < 2) return;
+    if (!confirm(`Delete the "${profile.name}" profile?`)) return;
+
+    if (profile.keyRef) {
+      await this.keyVault.setKey(profile.keyRef, '');
+      await this.keyVaultPanel.load();
+    }
+    await this.storageService.deleteProfile(profile.id);
+    await this.loadProfiles(await this.storageService.getActiveProfileId());
+    this.showStatus('Profile deleted.', 'success');
+  }
+
+  private populateProviderOptions(): void {
+    this.providerSelect.innerHTML = '';
+    listProviders().forEach((adapter) => {
+      const option = document.createElement('option');
+      option.value = adapter.id;
+      option.textContent = adapter.label;
+      this.providerSelect.appendChild(option);
+    });
+  }
+
+  private updateProviderFields(): void {
+    const adapter = getProvider(this.getSelectedProvider());
+
+    this.baseUrlGroup.hidden = !adapter.requiresBaseUrl;
+    this.updateApiKeyField();
+
+    this.apiKeyHelp.textContent = '';
+    if (adapter.apiKeyUrl) {
+      const link = document.createElement('a');
+      link.href = adapter.apiKeyUrl;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      link.textContent = new URL(adapter.apiKeyUrl).hostname;
+      this.apiKeyHelp.append(`Get your ${adapter.label} key at `, link, '.');
+    } else {
+      this.apiKeyHelp.textContent = 'Only needed if your server requires an API key.';
+    }
+
+    const example = document.createElement('span');
+    example.className = 'help-highlight';
+    example.textContent = adapter.modelExample;
+    this.modelHelp.textContent = '';
+    this.modelHelp.append(
+      `${adapter.label} models look like `,
+      example,
+      `. Leave empty to use ${adapter.defaultModel}.`
+    );
+  }
 
-    if (settings.apiKey) {
-      this.fetchAndPopulateModels(settings.provider, settings.apiKey);
+  // Saved keys are never shown; the placeholder only reveals their last characters.
+  private updateApiKeyField(): void {
+    const adapter = getProvider(this.getSelectedProvider());
+    const hint = this.getSavedKeyHint();
+    if (hint) {
+      this.apiKeyInput.placeholder = `Saved key ${maskApiKey(hint)}. Type to replace it`;
+    } else {
+      this.apiKeyInput.placeholder = adapter.requiresApiKey
+        ? 'Enter your API key'
+        : 'Optional for most local servers';
     }
+    this.forgetApiKeyButton.hidden = !hint;
+  }
+
+  private getSavedKeyHint(): string | undefined {
+    return this.vaultStatus?.hints[this.getKeySlot()];
+  }
+
+  /** Vault slot of the key in use: the profile's own, or the one shared by the provider. */
+  private getKeySlot(): string {
+    return this.profileOwnKeyCheckbox.checked ? `profile:${this.currentProfileId}` : this.getSelectedProvider();
+  }
+
+  /** The key being typed, else the saved one; empty when none is available or the vault is locked. */
+  private async resolveApiKey(): Promise<string> {
+    const typed = this.apiKeyInput.value.trim();
+    if (typed) return typed;
+    try {
+      return await this.keyVault.getKey(this.getKeySlot());
+    } catch (error) {
+      return '';
+    }
+  }
+
+  private async forgetApiKey(): Promise<void> {
+    const provider = this.getSelectedProvider();
+    const owner = this.profileOwnKeyCheckbox.checked ? 'profile' : this.getProviderLabel(provider);
+    if (!confirm(`Forget the saved ${owner} key?`)) return;
+    try {
+      await this.keyVault.setKey(this.getKeySlot(), '');
+      await this.keyVaultPanel.load();
+      this.showStatus('Key removed.', 'success');
+    } catch (error) {
+      this.showStatus('Failed to remove the key.', 'error');
+    }
+  }
+
+  private getSelectedProvider(): Provider {
+    return this.providerSelect.value as Provider;
+  }
+
+  private canFetchModels(): boolean {
+    const adapter = getProvider(this.getSelectedProvider());
+    if (adapter.requiresApiKey && !this.apiKeyInput.value && !this.getSavedKeyHint()) {
+      return false;
+    }
+    if (adapter.requiresBaseUrl && !this.baseUrlInput.value.trim()) {
+      return false;
+    }
+    return true;
   }
 
   private setupEventListeners(): void {
     this.saveButton.addEventListener('click', () => this.saveSettings());
     this.resetButton.addEventListener('click', () => this.resetSettings());
+    this.forgetApiKeyButton.addEventListener('click', () => void this.forgetApiKey());
+    this.profileSelect.addEventListener('change', () => void this.switchProfile(this.profileSelect.value));
+    this.addProfileButton.addEventListener('click', () => void this.addProfile());
+    this.deleteProfileButton.addEventListener('click', () => void this.deleteProfile());
+    this.profileNameInput.addEventListener('input', () => this.profileNameInput.classList.remove('field-invalid'));
+    Object.values(this.profileParamInputs).forEach((input) => {
+      input.addEventListener('input', () => input.classList.remove('field-invalid'));
+    });
+    this.profileOwnKeyCheckbox.addEventListener('change', () => {
+      this.clearModelStatus();
+      this.updateApiKeyField();
+    });
 
     this.refreshModelsButton.addEventListener('click', async () => {
-        const apiKey = this.apiKeyInput.value;
-        const provider = this.providerSelect.value as Provider;
-        if (apiKey) {
-            await this.fetchAndPopulateModels(provider, apiKey, { forceRefresh: true });
+        if (this.canFetchModels()) {
+            await this.fetchAndPopulateModels(this.getSelectedProvider(), { forceRefresh: true });
+        } else if (getProvider(this.getSelectedProvider()).requiresBaseUrl) {
+            this.showStatus('Please enter the Base URL first', 'error');
         } else {
             this.showStatus('Please enter API Key first', 'error');
         }
@@ -65,10 +342,10 @@ class PopupUI {
     this.providerSelect.addEventListener('change', () => {
         this.providerSelect.classList.remove('field-invalid');
         this.clearModelStatus();
-        const apiKey = this.apiKeyInput.value;
-        const provider = this.providerSelect.value as Provider;
-        if (apiKey) {
-            this.fetchAndPopulateModels(provider, apiKey);
+        this.modelDataList.innerHTML = '';
+        this.updateProviderFields();
+        if (this.canFetchModels()) {
+            this.fetchAndPopulateModels(this.getSelectedProvider());
         }
     });
 
@@ -76,10 +353,17 @@ class PopupUI {
     this.apiKeyInput.addEventListener('blur', () => {
         this.apiKeyInput.classList.remove('field-invalid');
         this.clearModelStatus();
-        const apiKey = this.apiKeyInput.value;
-        const provider = this.providerSelect.value as Provider;
-        if (apiKey) {
-            this.fetchAndPopulateModels(provider, apiKey);
+        if (this.canFetchModels()) {
+            this.fetchAndPopulateModels(this.getSelectedProvider());
+        }
+    });
+
+    // A different server has a different model list, so skip the cache.
+    this.baseUrlInput.addEventListener('change', () => {
+        this.baseUrlInput.classList.remove('field-invalid');
+        this.clearModelStatus();
+        if (this.canFetchModels()) {
+            this.fetchAndPopulateModels(this.getSelectedProvider(), { forceRefresh: true });
         }
     });
 
@@ -91,7 +375,6 @@ class PopupUI {
 
   private async fetchAndPopulateModels(
     provider: Provider,
-    apiKey: string,
     options: { forceRefresh?: boolean } = {}
   ): Promise<void> {
     const cacheEntry = await this.storageService.getModelCache(provider);
@@ -112,7 +395,10 @@ class PopupUI {
     this.setModelStatus(`Fetching ${this.getProviderLabel(provider)} models...`, 'info');
 
     try {
-        const models = await this.aiService.fetchModels(provider, apiKey);
+        const models = await this.aiService.fetchModels(provider, {
+          apiKey: await this.resolveApiKey(),
+          baseUrl: this.baseUrlInput.value,
+        });
         this.populateModelList(models);
         await this.storageService.setModelCache(provider, models);
         this.setModelStatus(
@@ -140,15 +426,40 @@ class PopupUI {
     if (!skipValidation && !this.validateInputs()) {
       return;
     }
-
-    const settings: Settings = {
-      apiKey: this.apiKeyInput.value,
-      provider: this.providerSelect.value as Provider,
-      model: this.modelInput.value
+    const generation = readGenerationParams(this.profileParamInputs);
+    const params = 'params' in generation ? generation.params : {};
+
+    const settings: SettingsProfile = {
+      id: this.currentProfileId,
+      name: this.profileNameInput.value.trim(),
+      provider: this.getSelectedProvider(),
+      model: this.modelInput.value,
+      baseUrl: this.baseUrlInput.value.trim(),
+      keyRef: this.profileOwnKeyCheckbox.checked ? this.getKeySlot() : undefined,
+      ...params,
+      systemPrompt: this.profileSystemPromptInput.value.trim() || undefined,
     };
 
     try {
-      await this.storageService.saveSettings(settings);
+      if (getProvider(settings.provider).requiresBaseUrl && settings.baseUrl) {
+        const granted = await this.requestHostPermission(settings.baseUrl);
+        if (!granted) {
+          this.showStatus('Permission to reach the server was denied.', 'error');
+          return;
+        }
+      }
+      const apiKey = this.apiKeyInput.value.trim();
+      if (apiKey) {
+        await this.keyVault.setKey(this.getKeySlot(), apiKey);
+        this.apiKeyInput.value = '';
+        await this.keyVaultPanel.load();
+      }
+      await this.storageService.saveProfile(settings);
+      await this.storageService.saveSettings({
+        variantCount: this.getVariantCount(),
+        preserveFormatting: this.preserveFormattingCheckbox.checked,
+      });
+      await this.loadProfiles(settings.id);
       if (!settings.model) {
         const defaultModel = this.getDefaultModel(settings.provider);
         this.showStatus(
@@ -159,14 +470,31 @@ class PopupUI {
         this.showStatus('Settings saved successfully!', 'success');
       }
     } catch (error) {
-      this.showStatus('Failed to save settings', 'error');
+      this.showStatus(error instanceof VaultLockedError ? error.message : 'Failed to save settings', 'error');
     }
   }
 
+  private getVariantCount(): number {
+    const count = Math.round(Number(this.variantCountInput.value));
+    return Number.isFinite(count) ? Math.min(Math.max(count, 1), MAX_VARIANTS) : 1;
+  }
+
+  private async requestHostPermission(baseUrl: string): Promise<boolean> {
+    const origin = `${new URL(baseUrl).origin}/*`;
+    return chrome.permissions.request({ origins: [origin] });
+  }
+
   private async resetSettings(): Promise<void> {
     this.apiKeyInput.value = '';
-    this.providerSelect.value = 'openrouter';
+    this.providerSelect.value = DEFAULT_PROVIDER;
+    this.baseUrlInput.value = '';
     this.modelInput.value = '';
+    this.profileOwnKeyCheckbox.checked = false;
+    fillGenerationParams(this.profileParamInputs);
+    this.profileSystemPromptInput.value = '';
+    this.variantCountInput.value = '1';
+    this.preserveFormattingCheckbox.checked = false;
+    this.updateProviderFields();
     this.modelDataList.innerHTML = '';
     this.clearValidationStates();
     await this.saveSettings(true);
@@ -175,19 +503,38 @@ class PopupUI {
   private validateInputs(): boolean {
     this.clearValidationStates();
 
-    const apiKey = this.apiKeyInput.value.trim();
-    if (!apiKey) {
-      this.apiKeyInput.classList.add('field-invalid');
-      this.showStatus('API key is required to save settings.', 'error');
+    if (!this.profileNameInput.value.trim()) {
+      this.profileNameInput.classList.add('field-invalid');
+      this.showStatus('Please name the profile.', 'error');
+      return false;
+    }
+
+    const generation = readGenerationParams(this.profileParamInputs);
+    if ('error' in generation) {
+      this.showStatus(generation.error, 'error');
       return false;
     }
 
-    const provider = this.providerSelect.value as Provider;
+    const provider = this.getSelectedProvider();
     if (!provider) {
       this.providerSelect.classList.add('field-invalid');
       this.showStatus('Please choose a provider.', 'error');
       return false;
     }
+    const adapter = getProvider(provider);
+
+    const apiKey = this.apiKeyInput.value.trim();
+    if (adapter.requiresApiKey && !apiKey && !this.getSavedKeyHint()) {
+      this.apiKeyInput.classList.add('field-invalid');
+      this.showStatus('API key is required to save settings.', 'error');
+      return false;
+    }
+
+    if (adapter.requiresBaseUrl && !this.isValidHttpUrl(this.baseUrlInput.value.trim())) {
+      this.baseUrlInput.classList.add('field-invalid');
+      this.showStatus('Please enter a valid http(s) Base URL.', 'error');
+      return false;
+    }
 
     const model = this.modelInput.value.trim();
     if (!model) {
@@ -204,37 +551,33 @@ class PopupUI {
     return true;
   }
 
-  private getModelFormatError(provider: Provider, model: string): string | null {
-    if (provider === 'openrouter' && !model.includes('/')) {
-      return 'OpenRouter models should look like "provider/model".';
-    }
-
-    if (provider === 'gemini' && !/^gemini-[\w.-]+$/i.test(model)) {
-      return 'Gemini models should look like "gemini-1.5-pro".';
+  private isValidHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch (error) {
+      return false;
     }
+  }
 
-    return null;
+  private getModelFormatError(provider: Provider, model: string): string | null {
+    return getProvider(provider).validateModel(model);
   }
 
   private getDefaultModel(provider: Provider): string {
-    if (provider === 'gemini') {
-      return 'gemini-1.5-flash';
-    }
-
-    return 'openai/gpt-4o-mini';
+    return getProvider(provider).defaultModel;
   }
 
   private getProviderLabel(provider: Provider): string {
-    if (provider === 'gemini') {
-      return 'Gemini';
-    }
-
-    return 'OpenRouter';
+    return getProvider(provider).label;
   }
 
   private clearValidationStates(): void {
+    this.profileNameInput.classList.remove('field-invalid');
+    clearGenerationParamErrors(this.profileParamInputs);
     this.apiKeyInput.classList.remove('field-invalid');
     this.providerSelect.classList.remove('field-invalid');
+    this.baseUrlInput.classList.remove('field-invalid');
     this.modelInput.classList.remove('field-invalid');
   }
 
@@ -0,0 +1,45 @@
+import { RESPONSE_CACHE_INDEX_KEY, ResponseCacheService } from '../services/response-cache.service';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+/** Popup section showing how many rewrite responses are cached, with a button to clear them. */
+export class ResponseCachePanel {
+  private statusText: HTMLParagraphElement;
+  private clearButton: HTMLButtonElement;
+
+  constructor(
+    private readonly cacheService: ResponseCacheService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.statusText = document.getElementById('cacheStatus') as HTMLParagraphElement;
+    this.clearButton = document.getElementById('clearCacheBtn') as HTMLButtonElement;
+
+    this.clearButton.addEventListener('click', () => void this.clear());
+    // Rewrites running in the background fill the cache while the popup is open.
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes[RESPONSE_CACHE_INDEX_KEY]) {
+        void this.load();
+      }
+    });
+    void this.load();
+  }
+
+  private async load(): Promise<void> {
+    const { entries, size } = await this.cacheService.getStats();
+    this.statusText.textContent =
+      entries === 0
+        ? 'The cache is empty.'
+        : `${entries} cached ${entries === 1 ? 'response' : 'responses'} (${Math.ceil(size / 1024)} KB).`;
+    this.clearButton.disabled = entries === 0;
+  }
+
+  private async clear(): Promise<void> {
+    try {
+      await this.cacheService.clear();
+      await this.load();
+      this.showStatus('Response cache cleared.', 'success');
+    } catch (error) {
+      this.showStatus('Failed to clear the response cache', 'error');
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { ACTIONS_KEY, StorageService } from '../services/storage.service';
+import { CommandBindings, REWRITE_COMMANDS } from '../services/commands';
+import { RewriteAction } from '../types';
+
+type StatusCallback = (message: string, type: 'success' | 'error') => void;
+
+/**
+ * Popup section listing the extension's keyboard shortcuts. Chrome owns the key
+ * assignments, so this only links to its shortcut page, but the rewrite commands
+ * can each be bound to one of the user's actions.
+ */
+export class ShortcutsManager {
+  private actions: RewriteAction[] = [];
+  private bindings: CommandBindings = {};
+  private commands: chrome.commands.Command[] = [];
+
+  private shortcutList: HTMLUListElement;
+  private editButton: HTMLButtonElement;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly showStatus: StatusCallback
+  ) {
+    this.shortcutList = document.getElementById('shortcutList') as HTMLUListElement;
+    this.editButton = document.getElementById('editShortcutsBtn') as HTMLButtonElement;
+
+    this.editButton.addEventListener('click', () => {
+      void chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+    });
+    // The action list can change from the section above without reopening the popup.
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && changes[ACTIONS_KEY]) {
+        void this.load();
+      }
+    });
+    void this.load();
+  }
+
+  private async load(): Promise<void> {
+    const [commands, actions, bindings] = await Promise.all([
+      chrome.commands.getAll(),
+      this.storageService.getActions(),
+      this.storageService.getCommandBindings(),
+    ]);
+    this.commands = commands.filter((command) => command.name && command.description);
+    this.actions = actions.filter((action) => action.enabled);
+    this.bindings = bindings;
+    this.render();
+  }
+
+  private render(): void {
+    this.shortcutList.innerHTML = '';
+    this.commands.forEach((command) => {
+      const name = command.name ?? '';
+      const item = document.createElement('li');
+      item.className = 'shortcut-item';
+
+      const description = document.createElement('span');
+      description.className = 'shortcut-description';
+      description.textContent = command.description ?? name;
+
+      const keys = document.createElement('kbd');
+      keys.className = command.shortcut ? 'shortcut-keys' : 'shortcut-keys unset';
+      keys.textContent = command.shortcut || 'Not set';
+
+      item.appendChild(description);
+      item.appendChild(keys);
+      if (REWRITE_COMMANDS.includes(name)) {
+        item.appendChild(this.createActionSelect(name));
+      }
+      this.shortcutList.appendChild(item);
+    });
+  }
+
+  private createActionSelect(command: string): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = 'shortcut-action';
+    select.setAttribute('aria-label', 'Action for this shortcut');
+
+    const defaultOption = document.createElement('option');
+    defaultOption.value = '';
+    defaultOption.textContent = 'First enabled action';
+    select.appendChild(defaultOption);
+    this.actions.forEach((action) => {
+      const option = document.createElement('option');
+      option.value = action.id;
+      option.textContent = action.title;
+      select.appendChild(option);
+    });
+    // A binding to a deleted or disabled action falls back to the default.
+    select.value = this.actions.some((action) => action.id === this.bindings[command])
+      ? this.bindings[command]
+      : '';
+
+    select.addEventListener('change', () => void this.saveBinding(command, select.value));
+    return select;
+  }
+
+  private async saveBinding(command: string, actionId: string): Promise<void> {
+    const bindings = { ...this.bindings };
+    if (actionId) {
+      bindings[command] = actionId;
+    } else {
+      delete bindings[command];
+    }
+
+    try {
+      await this.storageService.saveCommandBindings(bindings);
+      this.bindings = bindings;
+      this.showStatus('Shortcut updated.', 'success');
+    } catch (error) {
+      this.showStatus('Failed to save the shortcut.', 'error');
+    }
+  }
+}
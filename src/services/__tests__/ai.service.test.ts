@@ -1,6 +1,10 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import OpenAI from 'openai';
-import { AIService } from '../ai.service';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { AIService, DEFAULT_SYSTEM_PROMPT, RICH_TEXT_PROMPT, autoMaxTokens } from '../ai.service';
+import { PROTECTED_SPANS_PROMPT } from '../../utils/protected-spans';
+import { KeyVaultService } from '../key-vault.service';
+import { Settings } from '../../types';
 
 vi.mock('openai', () => {
   return {
@@ -11,6 +15,7 @@ vi.mock('openai', () => {
 vi.mock('@google/generative-ai', () => {
   return {
     GoogleGenerativeAI: vi.fn(),
+    FinishReason: { MAX_TOKENS: 'MAX_TOKENS' },
   };
 });
 
@@ -23,18 +28,20 @@ type OpenAIMockInstance = {
 };
 
 const openAIConstructor = OpenAI as unknown as ReturnType<typeof vi.fn>;
+const geminiConstructor = GoogleGenerativeAI as unknown as ReturnType<typeof vi.fn>;
 
-const setChromeSettings = (settings: { apiKey: string; provider: 'openrouter'; model?: string }) => {
+const setChromeSettings = (settings: Settings, syncData: Record<string, unknown> = {}) => {
+  const result = { ...settings, ...syncData };
   const chromeMock = {
     storage: {
       sync: {
-        get: vi.fn((keys?: unknown, cb?: (result: typeof settings) => void) => {
+        get: vi.fn((keys?: unknown, cb?: (result: Record<string, unknown>) => void) => {
           if (typeof keys === 'function') {
-            keys(settings);
+            keys(result);
             return;
           }
           if (cb) {
-            cb(settings);
+            cb(result);
           }
         }),
       },
@@ -42,6 +49,8 @@ const setChromeSettings = (settings: { apiKey: string; provider: 'openrouter'; m
   } as unknown as typeof chrome;
 
   (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = chromeMock;
+  // Keys come from the encrypted vault, which has its own tests.
+  vi.spyOn(KeyVaultService.prototype, 'getKey').mockResolvedValue(settings.apiKey);
 };
 
 describe('AIService', () => {
@@ -76,6 +85,9 @@ describe('AIService', () => {
       success: true,
       content: 'Rewritten text.',
       isStreaming: false,
+      provider: 'openrouter',
+      model: 'openai/gpt-4o-mini',
+      truncated: false,
     });
     expect(openAIConstructor).toHaveBeenCalledWith(
       expect.objectContaining({
@@ -87,7 +99,7 @@ describe('AIService', () => {
     expect(create).toHaveBeenCalledWith(
       expect.objectContaining({
         model: 'openai/gpt-4o-mini',
-        max_tokens: 1200,
+        max_tokens: 1024,
         temperature: 0.2,
         top_p: 1,
         presence_penalty: 0.1,
@@ -137,6 +149,9 @@ describe('AIService', () => {
       success: true,
       content: 'Hello world',
       isStreaming: true,
+      provider: 'openrouter',
+      model: 'openai/gpt-4o-mini',
+      truncated: false,
     });
     expect(tokens).toEqual(['Hello ', 'world']);
     expect(callbacks.onComplete).toHaveBeenCalled();
@@ -148,4 +163,542 @@ describe('AIService', () => {
       })
     );
   });
+
+  it('sends OpenAI provider requests straight to the OpenAI API', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'Rewritten text.' } }],
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'sk-test', provider: 'openai' });
+
+    const response = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(response.success).toBe(true);
+    expect(openAIConstructor).toHaveBeenCalledWith(
+      expect.objectContaining({ apiKey: 'sk-test', baseURL: 'https://api.openai.com/v1' })
+    );
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'gpt-4o-mini' }),
+      expect.anything()
+    );
+  });
+
+  it('uses the configured base URL for OpenAI-compatible servers without requiring a key', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'Local rewrite.' } }],
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({
+      apiKey: '',
+      provider: 'openai-compatible',
+      model: 'llama3.1:8b',
+      baseUrl: 'http://localhost:11434/v1/',
+    });
+
+    const response = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(response).toEqual({
+      success: true,
+      content: 'Local rewrite.',
+      isStreaming: false,
+      provider: 'openai-compatible',
+      model: 'llama3.1:8b',
+      truncated: false,
+    });
+    expect(openAIConstructor).toHaveBeenCalledWith(
+      expect.objectContaining({ baseURL: 'http://localhost:11434/v1' })
+    );
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'llama3.1:8b' }),
+      expect.anything()
+    );
+  });
+
+  it('reports a missing base URL for OpenAI-compatible servers', async () => {
+    setChromeSettings({ apiKey: '', provider: 'openai-compatible' });
+
+    const response = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(response.success).toBe(false);
+    expect(response.error).toEqual({ code: 'missing-base-url', message: expect.stringMatching(/Base URL not set/) });
+    expect(openAIConstructor).not.toHaveBeenCalled();
+  });
+
+  it('reports typed error codes for a missing or rejected key', async () => {
+    setChromeSettings({ apiKey: '', provider: 'openai' });
+    const onError = vi.fn();
+
+    const missing = await AIService.getInstance().rewriteText('Original text.', {}, {
+      onToken: vi.fn(),
+      onComplete: vi.fn(),
+      onError,
+    });
+
+    expect(missing.error?.code).toBe('missing-key');
+    expect(onError).toHaveBeenCalledWith(missing.error);
+    expect(openAIConstructor).not.toHaveBeenCalled();
+
+    const create = vi.fn().mockRejectedValue(Object.assign(new Error('401 Incorrect API key'), { status: 401 }));
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'bad-key', provider: 'openai' });
+
+    const rejected = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(rejected.error).toEqual({ code: 'invalid-key', message: '401 Incorrect API key' });
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts only the request whose signal is cancelled', async () => {
+    const signals: AbortSignal[] = [];
+    async function* streamChunks(signal: AbortSignal) {
+      yield { choices: [{ delta: { content: 'first ' } }] };
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal.aborted) {
+        throw new Error('Request was aborted.');
+      }
+      yield { choices: [{ delta: { content: 'second' } }] };
+    }
+    const create = vi.fn((_payload: unknown, options: { signal: AbortSignal }) => {
+      signals.push(options.signal);
+      return Promise.resolve(streamChunks(options.signal));
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' });
+
+    const service = AIService.getInstance();
+    const controllerA = new AbortController();
+    const controllerB = new AbortController();
+    const callbacksA = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const callbacksB = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+
+    const requestA = service.rewriteText('Text A.', { signal: controllerA.signal }, callbacksA);
+    const requestB = service.rewriteText('Text B.', { signal: controllerB.signal }, callbacksB);
+    controllerA.abort();
+    const [responseA, responseB] = await Promise.all([requestA, requestB]);
+
+    expect(signals).toEqual([controllerA.signal, controllerB.signal]);
+    expect(responseA.success).toBe(false);
+    expect(callbacksA.onError).not.toHaveBeenCalled();
+    expect(callbacksA.onComplete).not.toHaveBeenCalled();
+    expect(responseB).toEqual(
+      expect.objectContaining({ success: true, content: 'first second', isStreaming: true })
+    );
+    expect(callbacksB.onComplete).toHaveBeenCalled();
+  });
+
+  it('applies per-action provider, model and temperature overrides', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'Rewritten text.' } }],
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter', model: 'openai/gpt-4o-mini' });
+
+    await AIService.getInstance().rewriteText('Original text.', {
+      instruction: 'Make it sparkle.',
+      provider: 'openai',
+      temperature: 0.9,
+    });
+
+    expect(openAIConstructor).toHaveBeenCalledWith(
+      expect.objectContaining({ baseURL: 'https://api.openai.com/v1' })
+    );
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'gpt-4o-mini',
+        temperature: 0.9,
+        messages: expect.arrayContaining([
+          expect.objectContaining({ role: 'user', content: 'Make it sparkle.\nOriginal text.' }),
+        ]),
+      }),
+      expect.anything()
+    );
+  });
+
+  it('streams OpenAI variants from a single request using n', async () => {
+    async function* streamChunks() {
+      yield { choices: [{ index: 0, delta: { content: 'First' } }, { index: 1, delta: { content: 'Second' } }] };
+      yield { choices: [{ index: 1, delta: { content: ' one' } }] };
+    }
+    const create = vi.fn().mockResolvedValue(streamChunks());
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openai' });
+
+    const tokens: Array<[number, string]> = [];
+    const callbacks = {
+      onToken: (variant: number, token: string) => tokens.push([variant, token]),
+      onComplete: vi.fn(),
+      onError: vi.fn(),
+    };
+    const responses = await AIService.getInstance().rewriteVariants('Original text.', 2, {}, callbacks);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ n: 2, stream: true }), expect.anything());
+    expect(responses.map((response) => response.content)).toEqual(['First', 'Second one']);
+    expect(tokens).toEqual([
+      [0, 'First'],
+      [1, 'Second'],
+      [1, ' one'],
+    ]);
+    const source = { provider: 'openai', providerLabel: 'OpenAI', model: 'gpt-4o-mini' };
+    expect(callbacks.onComplete).toHaveBeenCalledWith(0, false, undefined, source);
+    expect(callbacks.onComplete).toHaveBeenCalledWith(1, false, undefined, source);
+  });
+
+  it('runs parallel requests for providers without n and cancels them together', async () => {
+    const controller = new AbortController();
+    const create = vi.fn().mockImplementation(async (_payload: unknown, { signal }: { signal: AbortSignal }) => {
+      async function* streamChunks() {
+        yield { choices: [{ delta: { content: 'Partial' } }] };
+        controller.abort();
+        if (signal.aborted) throw new Error('Request was aborted.');
+      }
+      return streamChunks();
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' });
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const responses = await AIService.getInstance().rewriteVariants(
+      'Original text.',
+      3,
+      { signal: controller.signal },
+      callbacks
+    );
+
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(create).toHaveBeenCalledWith(
+      expect.not.objectContaining({ n: expect.anything() }),
+      expect.anything()
+    );
+    expect(responses.every((response) => !response.success)).toBe(true);
+    expect(callbacks.onComplete).not.toHaveBeenCalled();
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it('continues a Gemini chat session with the refinement turns', async () => {
+    async function* streamChunks() {
+      yield { text: () => 'Warmer text.' };
+    }
+    const sendMessageStream = vi.fn().mockResolvedValue({ stream: streamChunks() });
+    const startChat = vi.fn().mockReturnValue({ sendMessageStream });
+    geminiConstructor.mockReturnValue({ getGenerativeModel: vi.fn().mockReturnValue({ startChat }) });
+    setChromeSettings({ apiKey: 'test-key', provider: 'gemini' });
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const response = await AIService.getInstance().rewriteText(
+      'Original text.',
+      {
+        instruction: 'Rewrite it.',
+        refinements: [
+          { role: 'assistant', content: 'First result.' },
+          { role: 'user', content: 'Make it a bit warmer.' },
+        ],
+      },
+      callbacks
+    );
+
+    expect(response.content).toBe('Warmer text.');
+    const { history } = startChat.mock.calls[0][0];
+    expect(history.slice(-2)).toEqual([
+      { role: 'user', parts: [{ text: 'Rewrite it.\nOriginal text.' }] },
+      { role: 'model', parts: [{ text: 'First result.' }] },
+    ]);
+    expect(sendMessageStream).toHaveBeenCalledWith([{ text: 'Make it a bit warmer.' }], expect.anything());
+  });
+
+  it('rewrites with a non-active profile and its own key, temperature and system prompt', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'Rewritten text.' } }],
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings(
+      { apiKey: 'shared-key', provider: 'openrouter' },
+      {
+        activeProfileId: 'fast',
+        settingsProfiles: [
+          { id: 'fast', name: 'Fast', provider: 'openrouter' },
+          {
+            id: 'work',
+            name: 'Work',
+            provider: 'openai',
+            model: 'gpt-4o',
+            keyRef: 'profile:work',
+            temperature: 0.3,
+            systemPrompt: 'You edit for Acme Corp.',
+          },
+        ],
+      }
+    );
+    const getKey = vi.mocked(KeyVaultService.prototype.getKey).mockResolvedValue('work-key');
+
+    const response = await AIService.getInstance().rewriteText('Original text.', { profileId: 'work' });
+
+    expect(response.success).toBe(true);
+    expect(getKey).toHaveBeenCalledWith('profile:work');
+    expect(openAIConstructor).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'work-key' }));
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'gpt-4o',
+        temperature: 0.3,
+        messages: expect.arrayContaining([{ role: 'system', content: 'You edit for Acme Corp.' }]),
+      }),
+      expect.anything()
+    );
+  });
+
+  it('sends configured generation parameters and reports a response cut off by max tokens', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'Cut off' }, finish_reason: 'length' }],
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings(
+      { apiKey: 'test-key', provider: 'openrouter' },
+      { settingsProfiles: [{ id: 'default', name: 'Default', provider: 'openrouter', maxTokens: 300, topP: 0.9 }] }
+    );
+
+    const response = await AIService.getInstance().rewriteText('Original text.', {
+      presencePenalty: 0,
+      frequencyPenalty: 0.5,
+    });
+
+    expect(response.truncated).toBe(true);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ max_tokens: 300, top_p: 0.9, presence_penalty: 0, frequency_penalty: 0.5 }),
+      expect.anything()
+    );
+  });
+
+  it('asks the model to keep the markup of a formatted selection', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: '<p>New <b>text</b></p>' } }],
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' });
+
+    const response = await AIService.getInstance().rewriteText('<p>Old <b>text</b></p>', { format: 'html' });
+
+    expect(response.content).toBe('<p>New <b>text</b></p>');
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: expect.arrayContaining([
+          { role: 'system', content: `${DEFAULT_SYSTEM_PROMPT}\n${RICH_TEXT_PROMPT}` },
+        ]),
+      }),
+      expect.anything()
+    );
+  });
+
+  it('masks protected spans in the prompt and restores them in the streamed result', async () => {
+    async function* streamChunks() {
+      yield { choices: [{ delta: { content: 'Ask Acme Cloud about ⟦' } }] };
+      yield { choices: [{ delta: { content: '2⟧ or ⟦2⟧.' } }] };
+    }
+    const create = vi.fn().mockResolvedValue(streamChunks());
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' }, { glossary: ['Acme Cloud'] });
+
+    const tokens: string[] = [];
+    const callbacks = { onToken: (token: string) => tokens.push(token), onComplete: vi.fn(), onError: vi.fn() };
+    const response = await AIService.getInstance().rewriteText('Contact Acme Cloud at help@acme.io.', {}, callbacks);
+
+    const messages = create.mock.calls[0][0].messages;
+    expect(messages[0].content).toBe(`${DEFAULT_SYSTEM_PROMPT}\n${PROTECTED_SPANS_PROMPT}`);
+    expect(messages[messages.length - 1].content).toContain('Contact ⟦1⟧ at ⟦2⟧.');
+    expect(tokens.join('')).toBe('Ask Acme Cloud about help@acme.io or help@acme.io.');
+    expect(response.content).toBe('Ask Acme Cloud about help@acme.io or help@acme.io.');
+    expect(response.spanIssues).toEqual({ missing: ['Acme Cloud'], duplicated: ['help@acme.io'] });
+    expect(callbacks.onComplete).toHaveBeenCalledWith(false, response.spanIssues, expect.anything());
+  });
+
+  it('replays a cached response as a stream without calling the provider again', async () => {
+    const create = vi.fn().mockResolvedValue({ choices: [{ message: { content: 'Cached text.' } }] });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' });
+    const local: Record<string, unknown> = {};
+    Object.assign(chrome.storage, {
+      local: {
+        get: vi.fn((keys: string[], cb: (result: Record<string, unknown>) => void) =>
+          cb(Object.fromEntries(keys.filter((key) => key in local).map((key) => [key, local[key]])))
+        ),
+        set: vi.fn((items: Record<string, unknown>, cb: () => void) => {
+          Object.assign(local, items);
+          cb();
+        }),
+        remove: vi.fn((_keys: string[], cb: () => void) => cb()),
+      },
+    });
+    const service = AIService.getInstance();
+
+    const first = await service.rewriteText('Original text.', { cache: 'use' });
+    const tokens: string[] = [];
+    const callbacks = { onToken: (token: string) => tokens.push(token), onComplete: vi.fn(), onError: vi.fn() };
+    const replayed = await service.rewriteText('Original text.', { cache: 'use' }, callbacks);
+    await service.rewriteText('Original text.', { cache: 'refresh' });
+    await service.rewriteText('Other text.', { cache: 'use' });
+
+    expect(first.content).toBe('Cached text.');
+    expect(replayed).toEqual(expect.objectContaining({ success: true, content: 'Cached text.', isStreaming: true }));
+    expect(tokens).toEqual(['Cached text.']);
+    expect(callbacks.onComplete).toHaveBeenCalledWith(false, undefined, {
+      provider: 'openrouter',
+      providerLabel: 'OpenRouter',
+      model: 'openai/gpt-4o-mini',
+    });
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+
+  it('leaves the response cache alone without a cache mode', async () => {
+    const create = vi.fn().mockResolvedValue({ choices: [{ message: { content: 'Private text.' } }] });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' });
+    const local = { get: vi.fn(), set: vi.fn(), remove: vi.fn() };
+    Object.assign(chrome.storage, { local });
+
+    const response = await AIService.getInstance().rewriteText('Original text.', {});
+
+    expect(response.content).toBe('Private text.');
+    expect(local.get).not.toHaveBeenCalled();
+    expect(local.set).not.toHaveBeenCalled();
+  });
+
+  it('retries a rate-limited request after the Retry-After delay', async () => {
+    async function* streamChunks() {
+      yield { choices: [{ delta: { content: 'Done.' } }] };
+    }
+    const rateLimited = Object.assign(new Error('429 Rate limit reached'), {
+      status: 429,
+      headers: new Headers({ 'retry-after': '0' }),
+    });
+    const create = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce(streamChunks());
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openai' });
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const response = await AIService.getInstance().rewriteText('Original text.', {}, callbacks);
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(response).toEqual(expect.objectContaining({ success: true, content: 'Done.', provider: 'openai' }));
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the next model in the chain and reports which one answered', async () => {
+    async function* streamChunks() {
+      yield { choices: [{ delta: { content: 'From the fallback.' } }] };
+    }
+    const invalidKey = Object.assign(new Error('401 Incorrect API key provided'), { status: 401 });
+    const create = vi.fn().mockRejectedValueOnce(invalidKey).mockResolvedValueOnce(streamChunks());
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings(
+      { apiKey: 'test-key', provider: 'openrouter', model: 'openai/gpt-4o-mini' },
+      { fallbackChain: [{ provider: 'openrouter' }, { provider: 'openai', model: 'gpt-4o' }] }
+    );
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const response = await AIService.getInstance().rewriteText('Original text.', {}, callbacks);
+
+    // Auth errors are not retried, and the first entry is the primary model itself.
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls[1][0]).toEqual(expect.objectContaining({ model: 'gpt-4o' }));
+    expect(response).toEqual(expect.objectContaining({ success: true, provider: 'openai', model: 'gpt-4o' }));
+    expect(callbacks.onComplete).toHaveBeenCalledWith(false, undefined, {
+      provider: 'openai',
+      providerLabel: 'OpenAI',
+      model: 'gpt-4o',
+      fallback: true,
+    });
+  });
+
+  it('reports the primary error when every fallback fails', async () => {
+    const create = vi.fn().mockRejectedValue(Object.assign(new Error('404 The model does not exist'), { status: 404 }));
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings(
+      { apiKey: 'test-key', provider: 'openai', model: 'gpt-5-typo' },
+      { fallbackChain: [{ provider: 'openai', model: 'gpt-4o' }] }
+    );
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const response = await AIService.getInstance().rewriteText('Original text.', {}, callbacks);
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(response.success).toBe(false);
+    expect(callbacks.onError).toHaveBeenCalledWith({
+      code: 'model-not-found',
+      message: '404 The model does not exist (the fallback models failed too)',
+    });
+  });
+
+  it('scales the automatic max tokens with the input length', () => {
+    expect(autoMaxTokens('Short.')).toBe(1024);
+    expect(autoMaxTokens('x'.repeat(8000))).toBe(4000);
+    expect(autoMaxTokens('x'.repeat(100000))).toBe(8192);
+  });
+
+  it('maps generation parameters to the Gemini generationConfig', async () => {
+    async function* streamChunks() {
+      yield { text: () => 'Partial', candidates: [{ finishReason: 'MAX_TOKENS' }] };
+    }
+    const sendMessageStream = vi.fn().mockResolvedValue({ stream: streamChunks() });
+    const getGenerativeModel = vi.fn().mockReturnValue({ startChat: vi.fn().mockReturnValue({ sendMessageStream }) });
+    geminiConstructor.mockReturnValue({ getGenerativeModel });
+    setChromeSettings({ apiKey: 'test-key', provider: 'gemini' });
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    await AIService.getInstance().rewriteText(
+      'Original text.',
+      { temperature: 0.7, topP: 0.8, maxTokens: 512 },
+      callbacks
+    );
+
+    expect(getGenerativeModel).toHaveBeenCalledWith(
+      expect.objectContaining({
+        generationConfig: { maxOutputTokens: 512, temperature: 0.7, topP: 0.8 },
+      })
+    );
+    expect(callbacks.onComplete).toHaveBeenCalledWith(true, undefined, expect.objectContaining({ provider: 'gemini' }));
+  });
+
+  it('rewrites chunks concurrently but streams them in order and isolates a failed chunk', async () => {
+    const releases: Array<() => void> = [];
+    const create = vi.fn().mockImplementation(async (payload: { messages: Array<{ content: string }> }) => {
+      const prompt = payload.messages[payload.messages.length - 1].content;
+      const label = prompt.slice(prompt.lastIndexOf('\n') + 1);
+      await new Promise<void>((resolve) => releases.push(resolve));
+      if (label === 'Second.') throw new Error('Rate limited');
+      async function* streamChunks() {
+        yield { choices: [{ delta: { content: `${label} done` } }] };
+      }
+      return streamChunks();
+    });
+    openAIConstructor.mockReturnValue({ chat: { completions: { create } } });
+    setChromeSettings({ apiKey: 'test-key', provider: 'openrouter' });
+
+    const events: string[] = [];
+    const chunks = ['First.', 'Second.', 'Third.'].map((text) => ({ text, separator: ' ' }));
+    const pending = AIService.getInstance().rewriteChunks(
+      chunks,
+      { instruction: 'Fix it.' },
+      {
+        onToken: (chunk, token) => events.push(`token ${chunk}: ${token}`),
+        onComplete: (chunk) => events.push(`end ${chunk}`),
+        onError: (chunk, error) => events.push(`error ${chunk}: ${error.message}`),
+      }
+    );
+
+    await vi.waitFor(() => expect(releases).toHaveLength(3));
+    releases[2]();
+    releases[1]();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(events).toEqual([]);
+    releases[0]();
+    const responses = await pending;
+
+    expect(events).toEqual([
+      'token 0: First. done',
+      'end 0',
+      'error 1: Rate limited',
+      'token 2: Third. done',
+      'end 2',
+    ]);
+    expect(responses.map((response) => response.success)).toEqual([true, false, true]);
+  });
 });
@@ -0,0 +1,219 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIService } from '../ai.service';
+import { KeyVaultService } from '../key-vault.service';
+import { registerProvider } from '../providers';
+import { AnthropicProvider } from '../providers/anthropic.provider';
+
+type Handler = (req: IncomingMessage, body: any, res: ServerResponse) => void;
+
+let server: Server;
+let handler: Handler;
+let lastRequest: { url?: string; headers: IncomingMessage['headers']; body: any } | null = null;
+
+const sse = (res: ServerResponse, events: Array<[string, unknown]>) => {
+  res.writeHead(200, { 'content-type': 'text/event-stream' });
+  events.forEach(([event, data]) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  });
+  res.end();
+};
+
+const setChromeSettings = (model?: string) => {
+  (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+    storage: {
+      sync: {
+        get: vi.fn((_keys: unknown, cb: (result: unknown) => void) =>
+          cb({ provider: 'anthropic', model })
+        ),
+      },
+    },
+  } as unknown as typeof chrome;
+  vi.spyOn(KeyVaultService.prototype, 'getKey').mockResolvedValue('sk-ant-test');
+};
+
+describe('AnthropicProvider', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : null;
+        lastRequest = { url: req.url, headers: req.headers, body };
+        handler(req, body, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    registerProvider(new AnthropicProvider(`http://127.0.0.1:${port}/v1`));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    lastRequest = null;
+    setChromeSettings('claude-3-5-haiku-latest');
+  });
+
+  it('streams content_block_delta events and sends the system prompt top-level', async () => {
+    handler = (_req, _body, res) =>
+      sse(res, [
+        ['message_start', { type: 'message_start', message: { id: 'msg_1' } }],
+        ['content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }],
+        ['ping', { type: 'ping' }],
+        ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello ' } }],
+        ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'world' } }],
+        ['content_block_stop', { type: 'content_block_stop', index: 0 }],
+        ['message_stop', { type: 'message_stop' }],
+      ]);
+
+    const tokens: string[] = [];
+    const callbacks = {
+      onToken: (token: string) => tokens.push(token),
+      onComplete: vi.fn(),
+      onError: vi.fn(),
+    };
+
+    const response = await AIService.getInstance().rewriteText('Original text.', {}, callbacks);
+
+    expect(response).toEqual({
+      success: true,
+      content: 'Hello world',
+      isStreaming: true,
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+      truncated: false,
+    });
+    expect(tokens).toEqual(['Hello ', 'world']);
+    expect(callbacks.onComplete).toHaveBeenCalled();
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect(lastRequest?.url).toBe('/v1/messages');
+    expect(lastRequest?.headers['x-api-key']).toBe('sk-ant-test');
+    expect(lastRequest?.headers['anthropic-version']).toBe('2023-06-01');
+    expect(lastRequest?.body).toEqual(
+      expect.objectContaining({
+        model: 'claude-3-5-haiku-latest',
+        stream: true,
+        system: expect.stringContaining('helpful editor'),
+      })
+    );
+    expect(lastRequest?.body.messages.every((m: { role: string }) => m.role !== 'system')).toBe(true);
+  });
+
+  it('returns the text blocks of non-streaming responses', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ content: [{ type: 'text', text: ' Rewritten text. ' }] }));
+    };
+
+    const response = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(response).toEqual({
+      success: true,
+      content: 'Rewritten text.',
+      isStreaming: false,
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+      truncated: false,
+    });
+    expect(lastRequest?.body.stream).toBe(false);
+  });
+
+  it.each([
+    [401, 'authentication_error', 'invalid-key', /Invalid Anthropic API key/],
+    [429, 'rate_limit_error', 'rate-limited', /rate limit/],
+    [529, 'overloaded_error', 'server', /overloaded/],
+  ])('maps HTTP %i %s payloads into AIResponse.error', async (status, type, code, expected) => {
+    handler = (_req, _body, res) => {
+      // Retryable errors are retried first; no need to wait in between here.
+      res.writeHead(status, { 'content-type': 'application/json', 'retry-after': '0' });
+      res.end(JSON.stringify({ type: 'error', error: { type, message: 'details' } }));
+    };
+
+    const response = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(response.success).toBe(false);
+    expect(response.error).toEqual({ code, message: expect.stringMatching(expected) });
+  });
+
+  it('retries an overloaded request when the server allows it', async () => {
+    let calls = 0;
+    handler = (_req, _body, res) => {
+      calls += 1;
+      if (calls === 1) {
+        res.writeHead(529, { 'content-type': 'application/json', 'retry-after': '0' });
+        res.end(JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }));
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ content: [{ type: 'text', text: 'Second try.' }] }));
+    };
+
+    const response = await AIService.getInstance().rewriteText('Original text.');
+
+    expect(calls).toBe(2);
+    expect(response.content).toBe('Second try.');
+  });
+
+  it('reports error events that arrive mid-stream', async () => {
+    handler = (_req, _body, res) =>
+      sse(res, [
+        ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Partial' } }],
+        ['error', { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }],
+      ]);
+
+    const callbacks = { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() };
+    const response = await AIService.getInstance().rewriteText('Original text.', {}, callbacks);
+
+    expect(response.success).toBe(false);
+    expect(response.error?.code).toBe('server');
+    expect(callbacks.onError).toHaveBeenCalledWith({ code: 'server', message: expect.stringMatching(/overloaded/) });
+    expect(callbacks.onComplete).not.toHaveBeenCalled();
+  });
+
+  it('stops streaming without an error when the request is cancelled', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(
+        `event: content_block_delta\ndata: ${JSON.stringify({
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'text_delta', text: 'First' },
+        })}\n\n`
+      );
+      // Keep the connection open until the client aborts.
+    };
+
+    const controller = new AbortController();
+    const callbacks = {
+      onToken: vi.fn(() => controller.abort()),
+      onComplete: vi.fn(),
+      onError: vi.fn(),
+    };
+    const response = await AIService.getInstance().rewriteText(
+      'Original text.',
+      { signal: controller.signal },
+      callbacks
+    );
+
+    expect(callbacks.onToken).toHaveBeenCalledWith('First');
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect(callbacks.onComplete).not.toHaveBeenCalled();
+    expect(response.error?.code).toBe('cancelled');
+  });
+
+  it('lists models for the model cache', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ data: [{ id: 'claude-3-5-sonnet-latest' }, { id: 'claude-3-5-haiku-latest' }] }));
+    };
+
+    const models = await AIService.getInstance().fetchModels('anthropic', { apiKey: 'sk-ant-test' });
+
+    expect(models).toEqual(['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest']);
+    expect(lastRequest?.url).toBe('/v1/models?limit=1000');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { COMMANDS, resolveCommandAction } from '../commands';
+import { RewriteAction } from '../../types';
+
+const actions: RewriteAction[] = [
+  { id: 'disabled', title: 'Disabled', instruction: 'Nope.', enabled: false },
+  { id: 'shorter', title: 'Shorter', instruction: 'Shorten it.', enabled: true },
+  { id: 'formal', title: 'Formal', instruction: 'Make it formal.', enabled: true },
+];
+
+describe('resolveCommandAction', () => {
+  it('runs the action bound to the command', () => {
+    expect(resolveCommandAction('rewrite-action-1', actions, { 'rewrite-action-1': 'formal' })?.id).toBe(
+      'formal'
+    );
+  });
+
+  it('falls back to the first enabled action when unbound or bound to a disabled action', () => {
+    expect(resolveCommandAction(COMMANDS.rewriteDefault, actions, {})?.id).toBe('shorter');
+    expect(resolveCommandAction('rewrite-action-2', actions, { 'rewrite-action-2': 'disabled' })?.id).toBe(
+      'shorter'
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HISTORY_KEY,
+  HistoryService,
+  historyToCsv,
+  pruneHistory,
+  searchHistory,
+} from '../history.service';
+import { HistoryEntry } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entry = (overrides: Partial<HistoryEntry>): HistoryEntry => ({
+  id: 'id',
+  originalText: 'original',
+  rewrittenText: 'rewritten',
+  actionTitle: 'Rewrite it',
+  createdAt: 0,
+  ...overrides,
+});
+
+const createStorageArea = () => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: vi.fn((keys: string[], cb: (result: Record<string, unknown>) => void) => {
+      cb(Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, data[key]])));
+    }),
+    set: vi.fn((items: Record<string, unknown>, cb: () => void) => {
+      Object.assign(data, items);
+      cb();
+    }),
+    remove: vi.fn((key: string, cb: () => void) => {
+      delete data[key];
+      cb();
+    }),
+  };
+};
+
+describe('history helpers', () => {
+  it('drops expired entries and keeps the newest up to the cap', () => {
+    const now = 100 * DAY_MS;
+    const entries = [
+      entry({ id: 'old', createdAt: now - 40 * DAY_MS }),
+      entry({ id: 'a', createdAt: now - 3 * DAY_MS }),
+      entry({ id: 'b', createdAt: now - 1 * DAY_MS }),
+      entry({ id: 'c', createdAt: now - 2 * DAY_MS }),
+    ];
+
+    const pruned = pruneHistory(entries, { enabled: true, maxEntries: 2, retentionDays: 30 }, now);
+    expect(pruned.map((e) => e.id)).toEqual(['b', 'c']);
+
+    const forever = pruneHistory(entries, { enabled: true, maxEntries: 10, retentionDays: 0 }, now);
+    expect(forever).toHaveLength(4);
+  });
+
+  it('matches every search term across text, action, model and page fields', () => {
+    const entries = [
+      entry({ id: '1', originalText: 'Quarterly report draft', model: 'gpt-4o-mini' }),
+      entry({ id: '2', rewrittenText: 'The quarterly numbers', pageTitle: 'Inbox - Mail' }),
+    ];
+
+    expect(searchHistory(entries, 'QUARTERLY').map((e) => e.id)).toEqual(['1', '2']);
+    expect(searchHistory(entries, 'quarterly inbox').map((e) => e.id)).toEqual(['2']);
+    expect(searchHistory(entries, '  ')).toEqual(entries);
+  });
+
+  it('escapes quotes, commas and newlines in CSV exports', () => {
+    const csv = historyToCsv([
+      entry({ originalText: 'Hello, "world"', rewrittenText: 'Line one\nLine two', createdAt: Date.UTC(2024, 0, 2) }),
+    ]);
+    const [header, row] = csv.split('\r\n');
+
+    expect(header).toBe('createdAt,actionTitle,provider,model,pageTitle,pageUrl,originalText,rewrittenText,variants');
+    expect(row).toBe('2024-01-02T00:00:00.000Z,Rewrite it,,,,,"Hello, ""world""","Line one\nLine two",');
+  });
+
+  it('puts the other variants in one cell, a line each', () => {
+    const csv = historyToCsv([entry({ variants: ['Second, shorter', 'Third "take"'] })]);
+    const [, row] = csv.split('\r\n');
+
+    expect(row).toBe('1970-01-01T00:00:00.000Z,Rewrite it,,,,,original,rewritten,"Second, shorter\nThird ""take"""');
+  });
+
+  it('keeps page text that looks like a formula from running in spreadsheets', () => {
+    const csv = historyToCsv([
+      entry({
+        originalText: '=HYPERLINK("https://example.com","Click")',
+        rewrittenText: '+cmd',
+        actionTitle: '@SUM(A1)',
+        provider: 'openai',
+        model: '\tgpt',
+        pageTitle: '-1',
+        variants: ['-2'],
+      }),
+    ]);
+    const [, row] = csv.split('\r\n');
+
+    expect(row).toBe(
+      `1970-01-01T00:00:00.000Z,'@SUM(A1),openai,'\tgpt,'-1,,"'=HYPERLINK(""https://example.com"",""Click"")",'+cmd,'-2`
+    );
+  });
+});
+
+describe('HistoryService', () => {
+  let sync: ReturnType<typeof createStorageArea>;
+  let local: ReturnType<typeof createStorageArea>;
+
+  beforeEach(() => {
+    sync = createStorageArea();
+    local = createStorageArea();
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      storage: { sync, local },
+    } as unknown as typeof chrome;
+  });
+
+  it('stores completed rewrites newest first in local storage', async () => {
+    const service = HistoryService.getInstance();
+    await service.addEntry({ originalText: 'one', rewrittenText: 'One.', actionTitle: 'Rewrite it' });
+    await service.addEntry({ originalText: 'two', rewrittenText: 'Two.', actionTitle: 'Rewrite it' });
+
+    const entries = await service.getEntries();
+    expect(entries.map((e) => e.originalText)).toEqual(['two', 'one']);
+    expect(local.data[HISTORY_KEY]).toHaveLength(2);
+    expect(sync.set).not.toHaveBeenCalled();
+  });
+
+  it('keeps both entries when two rewrites finish at once', async () => {
+    const service = HistoryService.getInstance();
+    // Storage answers asynchronously, so unqueued writes would each start from the same empty list.
+    const read = local.get.getMockImplementation()!;
+    const write = local.set.getMockImplementation()!;
+    local.get.mockImplementation((keys, cb) => setTimeout(() => read(keys, cb), 0));
+    local.set.mockImplementation((items, cb) => setTimeout(() => write(items, cb), 0));
+
+    await Promise.all([
+      service.addEntry({ originalText: 'one', rewrittenText: 'One.', actionTitle: 'Rewrite it' }),
+      service.addEntry({ originalText: 'two', rewrittenText: 'Two.', actionTitle: 'Rewrite it' }),
+    ]);
+
+    expect((await service.getEntries()).map((e) => e.originalText).sort()).toEqual(['one', 'two']);
+  });
+
+  it('saves nothing once the user opts out', async () => {
+    const service = HistoryService.getInstance();
+    await service.saveSettings({ enabled: false, maxEntries: 200, retentionDays: 30 });
+
+    const saved = await service.addEntry({ originalText: 'one', rewrittenText: 'One.', actionTitle: 'Rewrite it' });
+
+    expect(saved).toBeNull();
+    expect(await service.getEntries()).toEqual([]);
+  });
+});
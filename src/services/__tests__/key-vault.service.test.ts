@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KEY_VAULT_KEY, KeyVaultService, VaultLockedError } from '../key-vault.service';
+
+const createStorageArea = (initial: Record<string, unknown> = {}) => {
+  const data: Record<string, unknown> = { ...initial };
+  return {
+    data,
+    get: vi.fn((keys: string[], cb: (result: Record<string, unknown>) => void) => {
+      cb(Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, data[key]])));
+    }),
+    set: vi.fn((items: Record<string, unknown>, cb: () => void) => {
+      Object.assign(data, items);
+      cb();
+    }),
+    remove: vi.fn((key: string, cb: () => void) => {
+      delete data[key];
+      cb();
+    }),
+  };
+};
+
+let sync: ReturnType<typeof createStorageArea>;
+let local: ReturnType<typeof createStorageArea>;
+
+const setupChrome = (syncData: Record<string, unknown> = {}) => {
+  sync = createStorageArea(syncData);
+  local = createStorageArea();
+  (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+    storage: { sync, local, session: createStorageArea() },
+  } as unknown as typeof chrome;
+};
+
+describe('KeyVaultService', () => {
+  beforeEach(() => setupChrome());
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps one encrypted key per provider in local storage', async () => {
+    const vault = KeyVaultService.getInstance();
+
+    await vault.setKey('openrouter', 'sk-or-secret-1234');
+    await vault.setKey('gemini', 'gemini-secret-5678');
+
+    expect(await vault.getKey('openrouter')).toBe('sk-or-secret-1234');
+    expect(await vault.getKey('gemini')).toBe('gemini-secret-5678');
+    expect(await vault.getKey('openai')).toBe('');
+    expect(JSON.stringify(local.data[KEY_VAULT_KEY])).not.toContain('secret');
+    expect((await vault.getStatus()).hints).toEqual({ openrouter: '1234', gemini: '5678' });
+  });
+
+  it('moves the legacy sync key into the vault once', async () => {
+    setupChrome({ apiKey: 'legacy-key-abcd', provider: 'gemini' });
+    const vault = KeyVaultService.getInstance();
+
+    await vault.migrateLegacyKey();
+
+    expect(sync.data.apiKey).toBeUndefined();
+    expect(await vault.getKey('gemini')).toBe('legacy-key-abcd');
+  });
+
+  it('moves the legacy sync key on the first use after the vault is unlocked', async () => {
+    setupChrome({ apiKey: 'legacy-key-abcd', provider: 'openai' });
+    // A fresh instance, without a migration left over from earlier tests.
+    (KeyVaultService as any).instance = undefined;
+    const vault = KeyVaultService.getInstance();
+    await vault.setPassphrase('correct horse');
+    await vault.lock();
+
+    expect(await vault.getKey('openai')).toBe('');
+    expect(sync.data.apiKey).toBe('legacy-key-abcd');
+
+    expect(await vault.unlock('correct horse')).toBe(true);
+    expect(await vault.getKey('openai')).toBe('legacy-key-abcd');
+    expect(sync.data.apiKey).toBeUndefined();
+  });
+
+  it('requires the passphrase after locking and rejects a wrong one', async () => {
+    const vault = KeyVaultService.getInstance();
+    await vault.setKey('openai', 'sk-openai-key');
+    await vault.setPassphrase('correct horse');
+    expect(await vault.getKey('openai')).toBe('sk-openai-key');
+
+    await vault.lock();
+    await expect(vault.getKey('openai')).rejects.toBeInstanceOf(VaultLockedError);
+    expect(await vault.unlock('wrong horse')).toBe(false);
+    expect(await vault.unlock('correct horse')).toBe(true);
+    expect(await vault.getKey('openai')).toBe('sk-openai-key');
+  });
+
+  it('locks again once the auto-lock timeout passes without use', async () => {
+    const vault = KeyVaultService.getInstance();
+    await vault.setKey('openai', 'sk-openai-key');
+    await vault.setAutoLockMinutes(5);
+    await vault.setPassphrase('correct horse');
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 6 * 60 * 1000);
+
+    expect((await vault.getStatus()).locked).toBe(true);
+    await expect(vault.getKey('openai')).rejects.toBeInstanceOf(VaultLockedError);
+  });
+});
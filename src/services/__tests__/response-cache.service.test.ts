@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CacheIndexEntry,
+  RESPONSE_CACHE_INDEX_KEY,
+  RESPONSE_CACHE_LIMITS,
+  ResponseCacheService,
+  hashCacheKey,
+  selectEvictions,
+} from '../response-cache.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const indexEntry = (lastUsedAt: number, size = 10, createdAt = lastUsedAt): CacheIndexEntry => ({
+  createdAt,
+  lastUsedAt,
+  size,
+});
+
+const createStorageArea = () => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: vi.fn((keys: string[], cb: (result: Record<string, unknown>) => void) => {
+      cb(Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, data[key]])));
+    }),
+    set: vi.fn((items: Record<string, unknown>, cb: () => void) => {
+      Object.assign(data, items);
+      cb();
+    }),
+    remove: vi.fn((keys: string[], cb: () => void) => {
+      keys.forEach((key) => delete data[key]);
+      cb();
+    }),
+  };
+};
+
+const response = (content: string) => ({ content, truncated: false, provider: 'openai' as const, model: 'gpt-4o' });
+
+describe('response cache helpers', () => {
+  it('evicts expired entries, then the least recently used over the caps', () => {
+    const now = 30 * DAY_MS;
+    const index = {
+      expired: indexEntry(now, 10, now - 8 * DAY_MS),
+      oldest: indexEntry(now - 3000),
+      older: indexEntry(now - 2000),
+      newest: indexEntry(now - 1000),
+    };
+
+    expect(selectEvictions(index, { ...RESPONSE_CACHE_LIMITS, maxEntries: 2 }, now)).toEqual(['expired', 'oldest']);
+    expect(selectEvictions(index, { ...RESPONSE_CACHE_LIMITS, maxSize: 15 }, now)).toEqual([
+      'expired',
+      'older',
+      'oldest',
+    ]);
+  });
+
+  it('hashes equal request parts to the same key', async () => {
+    const key = await hashCacheKey({ model: 'gpt-4o', text: 'Hello' });
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashCacheKey({ model: 'gpt-4o', text: 'Hello' })).toBe(key);
+    expect(await hashCacheKey({ model: 'gpt-4o', text: 'Hello!' })).not.toBe(key);
+  });
+});
+
+describe('ResponseCacheService', () => {
+  let local: ReturnType<typeof createStorageArea>;
+
+  beforeEach(() => {
+    local = createStorageArea();
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      storage: { local },
+    } as unknown as typeof chrome;
+  });
+
+  it('stores, returns and clears responses', async () => {
+    const cache = ResponseCacheService.getInstance();
+
+    await cache.set('a', response('First'));
+    await cache.set('b', response('Second'));
+
+    expect(await cache.get('a')).toEqual(response('First'));
+    expect(await cache.get('missing')).toBeNull();
+    expect(await cache.getStats()).toEqual({ entries: 2, size: 11 });
+
+    await cache.clear();
+    expect(await cache.get('a')).toBeNull();
+    expect(Object.keys(local.data)).toEqual([]);
+  });
+
+  it('drops expired responses', async () => {
+    const cache = ResponseCacheService.getInstance();
+    await cache.set('a', response('First'));
+    const index = local.data[RESPONSE_CACHE_INDEX_KEY] as Record<string, CacheIndexEntry>;
+    index.a.createdAt -= RESPONSE_CACHE_LIMITS.ttlMs + 1;
+
+    expect(await cache.get('a')).toBeNull();
+  });
+});
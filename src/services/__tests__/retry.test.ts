@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderError, classifyError, parseRetryAfter } from '../providers/provider-error';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, withRetry } from '../retry';
+
+describe('provider errors', () => {
+  it('reads Retry-After as seconds, an HTTP date or milliseconds', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter(new Headers({ 'retry-after': '3' }), now)).toBe(3000);
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }), now)).toBe(5000);
+    expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '1' }, now)).toBe(250);
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+  });
+
+  it('classifies SDK errors by status, code and connection failures', () => {
+    const apiError = (status: number, code?: string) => Object.assign(new Error(`${status} error`), { status, code });
+
+    expect(classifyError(apiError(401)).code).toBe('invalid-key');
+    expect(classifyError(apiError(429)).code).toBe('rate-limited');
+    expect(classifyError(apiError(429, 'insufficient_quota')).code).toBe('quota-exceeded');
+    expect(classifyError(apiError(400, 'content_filter')).code).toBe('safety-blocked');
+    expect(classifyError(apiError(404)).code).toBe('model-not-found');
+    expect(classifyError(apiError(400, 'context_length_exceeded')).code).toBe('context-too-long');
+    expect(classifyError(apiError(400)).code).toBe('unknown');
+    expect(
+      classifyError(
+        Object.assign(new Error('[400 Bad Request] API key not valid. Please pass a valid API key.'), { status: 400 })
+      ).code
+    ).toBe('invalid-key');
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key. [API_KEY_INVALID]')).code).toBe(
+      'invalid-key'
+    );
+    expect(classifyError(apiError(503)).retryable).toBe(true);
+    expect(classifyError(new TypeError('Failed to fetch'), 'OpenAI')).toEqual(
+      expect.objectContaining({ code: 'network', message: 'Could not reach OpenAI. Check your connection.' })
+    );
+    expect(classifyError(new Error('Candidate was blocked due to SAFETY')).code).toBe('safety-blocked');
+    expect(classifyError(Object.assign(new Error('aborted'), { name: 'AbortError' })).code).toBe('cancelled');
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially with jitter, capped by the policy', () => {
+    const policy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 3000 };
+
+    expect(getRetryDelay(0, policy, undefined, () => 0)).toBe(500);
+    expect(getRetryDelay(1, policy, undefined, () => 1)).toBe(2000);
+    expect(getRetryDelay(4, policy, undefined, () => 1)).toBe(3000);
+    expect(getRetryDelay(0, policy, 2500)).toBe(2500);
+    expect(getRetryDelay(0, policy, 60000)).toBeNull();
+  });
+
+  it('retries retryable errors and gives up on the others', async () => {
+    vi.useFakeTimers();
+    const signal = new AbortController().signal;
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new ProviderError('Overloaded', 'server'))
+      .mockResolvedValueOnce('done');
+
+    const result = withRetry(task, { policy: DEFAULT_RETRY_POLICY, signal });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('done');
+    expect(task).toHaveBeenCalledTimes(2);
+
+    const invalidKey = vi.fn().mockRejectedValue(new ProviderError('Invalid key', 'invalid-key'));
+    await expect(withRetry(invalidKey, { policy: DEFAULT_RETRY_POLICY, signal })).rejects.toThrow('Invalid key');
+    expect(invalidKey).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as the request is cancelled', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new ProviderError('Rate limited', 'rate-limited', { retryAfterMs: 20000 }));
+
+    const result = withRetry(task, { policy: DEFAULT_RETRY_POLICY, signal: controller.signal });
+    const rejected = expect(result).rejects.toThrow('Rate limited');
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await rejected;
+
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
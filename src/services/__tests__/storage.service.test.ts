@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageService } from '../storage.service';
+import { DEFAULT_REWRITE_ACTIONS } from '../default-actions';
+
+const createStorageArea = () => {
+  const data: Record<string, unknown> = {};
+  return {
+    data,
+    get: vi.fn((keys: string[], cb: (result: Record<string, unknown>) => void) => {
+      cb(Object.fromEntries(keys.filter((key) => key in data).map((key) => [key, data[key]])));
+    }),
+    set: vi.fn((items: Record<string, unknown>, cb: () => void) => {
+      Object.assign(data, items);
+      cb();
+    }),
+    remove: vi.fn((key: string, cb: () => void) => {
+      delete data[key];
+      cb();
+    }),
+  };
+};
+
+let sync: ReturnType<typeof createStorageArea>;
+
+describe('StorageService actions', () => {
+  beforeEach(() => {
+    sync = createStorageArea();
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      storage: { sync, local: createStorageArea() },
+    } as unknown as typeof chrome;
+  });
+
+  it('seeds the built-in actions when none are stored', async () => {
+    const actions = await StorageService.getInstance().getActions();
+
+    expect(actions).toEqual(DEFAULT_REWRITE_ACTIONS);
+    actions[0].title = 'Changed';
+    expect(DEFAULT_REWRITE_ACTIONS[0].title).toBe('Rewrite it');
+  });
+
+  it('persists custom actions and resets back to the defaults', async () => {
+    const service = StorageService.getInstance();
+    const custom = [
+      { id: 'action-1', title: 'Pirate', instruction: 'Talk like a pirate.', enabled: true, temperature: 1 },
+    ];
+
+    await service.saveActions(custom);
+    expect(await service.getActions()).toEqual(custom);
+
+    await service.resetActions();
+    expect(await service.getActions()).toEqual(DEFAULT_REWRITE_ACTIONS);
+  });
+});
+
+describe('StorageService profiles', () => {
+  beforeEach(() => {
+    sync = createStorageArea();
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      storage: { sync, local: createStorageArea() },
+    } as unknown as typeof chrome;
+  });
+
+  it('builds a default profile from the legacy settings', async () => {
+    Object.assign(sync.data, { provider: 'gemini', model: 'gemini-1.5-pro' });
+
+    const settings = await StorageService.getInstance().getSettings();
+
+    expect(settings).toEqual(
+      expect.objectContaining({ profileId: 'default', provider: 'gemini', model: 'gemini-1.5-pro', variantCount: 1 })
+    );
+  });
+
+  it('resolves the active profile unless another one is asked for', async () => {
+    const service = StorageService.getInstance();
+    await service.saveProfiles([
+      { id: 'work', name: 'Work', provider: 'openai', model: 'gpt-4o', temperature: 0.2 },
+      { id: 'local', name: 'Local', provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' },
+    ]);
+    await service.setActiveProfileId('local');
+
+    expect((await service.getSettings()).provider).toBe('openai-compatible');
+    expect(await service.getSettings('work')).toEqual(
+      expect.objectContaining({ profileId: 'work', model: 'gpt-4o', temperature: 0.2 })
+    );
+    expect((await service.getSettings('missing')).profileId).toBe('local');
+  });
+
+  it('keeps the last profile and moves the active one off a deleted profile', async () => {
+    const service = StorageService.getInstance();
+    await service.saveProfiles([{ id: 'a', name: 'A', provider: 'openai' }]);
+    await service.saveProfile({ id: 'b', name: 'B', provider: 'gemini' });
+    await service.setActiveProfileId('b');
+
+    await service.deleteProfile('b');
+    expect(await service.getActiveProfileId()).toBe('a');
+
+    await service.deleteProfile('a');
+    expect((await service.getProfiles()).map((profile) => profile.id)).toEqual(['a']);
+  });
+});
+
+describe('StorageService appearance', () => {
+  beforeEach(() => {
+    sync = createStorageArea();
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      storage: { sync, local: createStorageArea() },
+    } as unknown as typeof chrome;
+  });
+
+  it('falls back to the defaults for missing or invalid values', async () => {
+    const service = StorageService.getInstance();
+
+    const defaults = { theme: 'auto', accentColor: '#3d8fd9', cardPlacement: 'modal' };
+    expect(await service.getAppearance()).toEqual(defaults);
+
+    sync.data.appearance = { theme: 'sepia', accentColor: 'red', cardPlacement: 'floating' };
+    expect(await service.getAppearance()).toEqual(defaults);
+
+    const appearance = { theme: 'dark', accentColor: '#e91e63', cardPlacement: 'inline' } as const;
+    await service.saveAppearance(appearance);
+    expect(await service.getAppearance()).toEqual(appearance);
+  });
+});
+
+describe('StorageService panel source', () => {
+  beforeEach(() => {
+    sync = createStorageArea();
+    (globalThis as typeof globalThis & { chrome?: typeof chrome }).chrome = {
+      storage: { sync, local: createStorageArea(), session: createStorageArea() },
+    } as unknown as typeof chrome;
+  });
+
+  it('keeps the text sent to the side panel in session storage', async () => {
+    const service = StorageService.getInstance();
+    expect(await service.getPanelSource()).toBeNull();
+
+    const source = { text: 'Some text', tabId: 3, frameId: 0, pageTitle: 'Draft' };
+    await service.savePanelSource(source);
+    expect(await service.getPanelSource()).toEqual(source);
+    expect(sync.set).not.toHaveBeenCalled();
+  });
+
+  it('detaches the panel source without forgetting it came from an incognito page', async () => {
+    const service = StorageService.getInstance();
+    await service.detachPanelSource();
+    expect(await service.getPanelSource()).toBeNull();
+
+    await service.savePanelSource({ text: 'Some text', tabId: 3, frameId: 0, incognito: true });
+    await service.detachPanelSource();
+    expect(await service.getPanelSource()).toEqual({
+      text: 'Some text',
+      tabId: 3,
+      frameId: 0,
+      incognito: true,
+      detached: true,
+    });
+  });
+});
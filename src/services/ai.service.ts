@@ -1,15 +1,108 @@
-import { AIResponse, AIRequestPayload, Settings, StreamCallbacks, Provider } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
+import {
+  AIResponse,
+  AIRequestPayload,
+  ChunkStreamCallbacks,
+  FallbackModel,
+  GenerationParams,
+  Settings,
+  StoredSettings,
+  StreamCallbacks,
+  PromptMessage,
+  Provider,
+  ResultSource,
+  RewriteAction,
+  RewriteError,
+  TextChunk,
+  TextFormat,
+  VariantStreamCallbacks,
+} from '../types';
+import { PROTECTED_SPANS_PROMPT, SpanMasker, createSpanMasker } from '../utils/protected-spans';
+import { estimateTokens } from '../utils/token-estimator';
+import { DEFAULT_INSTRUCTION } from './default-actions';
+import { KeyVaultService, VaultLockedError } from './key-vault.service';
+import {
+  classifyError,
+  getProvider,
+  ProviderAdapter,
+  ProviderError,
+  ProviderRequest,
+  ProviderResult,
+} from './providers';
+import { CachedResponse, ResponseCacheService, hashCacheKey } from './response-cache.service';
+import { withRetry } from './retry';
+import { StorageService } from './storage.service';
 
-export interface RewriteOptions {
+/** Per-action overrides of the provider, model and generation parameters from Settings. */
+export interface RewriteOptions extends GenerationParams {
   instruction?: string;
+  /** Settings profile to rewrite with instead of the active one. */
+  profileId?: string;
+  provider?: Provider;
+  model?: string;
+  /**
+   * Follow-up turns (the previous result as `assistant`, then the new instruction
+   * as `user`) appended after the rewrite prompt to refine an earlier result.
+   */
+  refinements?: PromptMessage[];
+  /** `html` when the text is a formatted fragment whose markup must survive the rewrite. */
+  format?: TextFormat;
+  /**
+   * `use` answers from the response cache when it can and caches new results;
+   * `refresh` skips the lookup but caches the new result. Unset bypasses the cache.
+   */
+  cache?: 'use' | 'refresh';
+  /**
+   * Cancels this request only. Each caller owns its own controller so concurrent
+   * rewrites (e.g. in different tabs) never abort one another.
+   */
+  signal?: AbortSignal;
 }
 
+const CANCELLED_ERROR: RewriteError = { code: 'cancelled', message: 'The rewrite was cancelled.' };
+
+type PreparedRequest = { adapter: ProviderAdapter; request: ProviderRequest; masker: SpanMasker };
+type StreamRestorer = ReturnType<SpanMasker['createStreamRestorer']>;
+
+export const MAX_VARIANTS = 5;
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful editor. Follow the rewrite instruction and only return the rewritten text without additional commentary.';
+
+export const RICH_TEXT_PROMPT =
+  'The text is an HTML fragment. Keep its markup: rewrite only the text between the tags, keep bold, italics, links, lists and code where they still apply, and copy every href exactly. Return only the HTML fragment, without a code fence.';
+
+// Alternatives drawn at the usual low temperature come back near-identical.
+const VARIANT_TEMPERATURE = 0.8;
+
+// A rewrite is about as long as its input; leave headroom for expanding actions.
+const MIN_AUTO_MAX_TOKENS = 1024;
+const MAX_AUTO_MAX_TOKENS = 8192;
+
+/** Output budget for `text` when no max tokens are configured. */
+export const autoMaxTokens = (text: string): number =>
+  Math.min(Math.max(estimateTokens(text) * 2, MIN_AUTO_MAX_TOKENS), MAX_AUTO_MAX_TOKENS);
+
+/** Input tokens per chunk; small enough for any model's context and output limit. */
+export const CHUNK_TOKEN_BUDGET = 1500;
+const MAX_CONCURRENT_CHUNKS = 3;
+
+/** Whether `text` is long enough to be rewritten chunk by chunk. */
+export const needsChunking = (text: string): boolean => estimateTokens(text) > CHUNK_TOKEN_BUDGET;
+
+export const actionToRewriteOptions = (action: RewriteAction | undefined): RewriteOptions => ({
+  instruction: action?.instruction || DEFAULT_INSTRUCTION,
+  provider: action?.provider,
+  model: action?.model,
+  temperature: action?.temperature,
+  maxTokens: action?.maxTokens,
+  topP: action?.topP,
+  presencePenalty: action?.presencePenalty,
+  frequencyPenalty: action?.frequencyPenalty,
+  profileId: action?.profileId,
+});
+
 export class AIService {
   private static instance: AIService;
-  private readonly OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
-  private abortController: AbortController | null = null;
 
   private constructor() {}
 
@@ -20,134 +113,452 @@ export class AIService {
     return AIService.instance;
   }
 
-  private async getSettings(): Promise<Settings> {
-    return new Promise((resolve) => {
-      chrome.storage.sync.get(['apiKey', 'provider', 'model'], (result) => {
-        resolve({
-          apiKey: result.apiKey || '',
-          provider: result.provider || 'openrouter',
-          model: result.model,
-        });
-      });
-    });
-  }
-
-  public async fetchModels(provider: Provider, apiKey: string): Promise<string[]> {
+  public async fetchModels(provider: Provider, settings: Omit<Settings, 'provider'>): Promise<string[]> {
     try {
-      if (provider === 'openrouter') {
-        const response = await fetch('https://openrouter.ai/api/v1/models');
-        if (!response.ok) return [];
-        const data = await response.json();
-        return data.data.map((m: any) => m.id);
-      } else if (provider === 'gemini') {
-        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`);
-        if (!response.ok) return [];
-        const data = await response.json();
-        // Gemini returns model names like "models/gemini-1.5-flash".
-        // We can just use them as is, or strip "models/".
-        // The SDK usually accepts "gemini-1.5-flash" or "models/gemini-1.5-flash".
-        // Let's strip "models/" for cleaner UI, but ensure we handle it correctly.
-        return (data.models || [])
-          .map((m: any) => m.name.replace(/^models\//, ''))
-          .filter((name: string) => name.includes('gemini')); // Filter for gemini models to be safe
-      }
-      return [];
+      return await getProvider(provider).fetchModels({ ...settings, provider });
     } catch (error) {
       console.error('Error fetching models:', error);
       return [];
     }
   }
 
+  /**
+   * Rewrites `text`, streaming through `callbacks` when given. Every failure is
+   * returned as a typed error and, except for cancellations, also reported
+   * through `callbacks.onError`.
+   */
   public async rewriteText(text: string, options: RewriteOptions = {}, callbacks?: StreamCallbacks): Promise<AIResponse> {
-    let errorHandled = false;
+    let providerLabel: string | undefined;
     try {
-      const settings = await this.getSettings();
-      
-      if (!settings.apiKey) {
-        return {
-          success: false,
-          content: '',
-          error: 'API key not found. Please set your API key in the extension settings.',
-        };
+      const prepared = await this.prepareRequest(text, options);
+      if ('error' in prepared) {
+        return this.reportFailure(prepared.error, callbacks?.onError);
       }
+      const { adapter, request, masker } = prepared;
+      providerLabel = adapter.label;
+      const cacheKey = options.cache ? await this.getCacheKey(adapter, request, text, options) : null;
+      const cached = cacheKey && options.cache === 'use' ? await this.readCachedResult(cacheKey) : null;
 
-      if (settings.provider === 'gemini') {
-        return this.rewriteWithGemini(text, settings.apiKey, settings.model, options, callbacks);
-      }
+      let streamed = false;
+      let restorer = null as StreamRestorer | null;
+      // Each attempt restores into a fresh buffer; retries and fallbacks only run while nothing has streamed.
+      const startRestorer = (): StreamRestorer | null => {
+        restorer = callbacks ? masker.createStreamRestorer(callbacks.onToken) : null;
+        return restorer;
+      };
 
-      const model = settings.model || 'openai/gpt-4o-mini';
+      let result: ProviderResult;
+      let source: ResultSource;
+      if (cached) {
+        // A cached answer is replayed as a single token, so callers see an ordinary stream.
+        startRestorer()?.push(cached.content);
+        result = cached;
+        source = { provider: cached.provider, providerLabel: getProvider(cached.provider).label, model: cached.model };
+      } else {
+        ({ result, source } = await this.runWithFallbacks(
+          prepared,
+          options,
+          (attempt) => {
+            const attemptRestorer = startRestorer();
+            if (!attemptRestorer) return attempt.adapter.complete(attempt.request);
+            return attempt.adapter.stream(attempt.request, (token) => {
+              streamed = true;
+              attemptRestorer.push(token);
+            });
+          },
+          () => !streamed
+        ));
+        if (cacheKey) await this.cacheResult(cacheKey, request.signal, result, source);
+      }
 
-      const payload: AIRequestPayload = {
-        model,
-        max_tokens: 1200,
-        temperature: 0.2,
-        top_p: 1,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
-        messages: this.buildPromptMessages(text, options),
+      const { text: content, issues } = masker.restore(result.content);
+      if (callbacks && !request.signal.aborted) {
+        restorer?.flush();
+        callbacks.onComplete(result.truncated, issues, source);
+      }
+      return {
+        success: true,
+        content,
+        isStreaming: Boolean(callbacks),
+        provider: source.provider,
+        model: source.model,
+        truncated: result.truncated,
+        spanIssues: issues,
       };
+    } catch (error) {
+      return this.reportFailure(this.toRewriteError(error, options.signal, providerLabel), callbacks?.onError);
+    }
+  }
 
-      this.abortController = new AbortController();
-      const client = this.createOpenAIClient(settings);
+  /**
+   * Streams `count` alternative rewrites of the same text. Providers that support
+   * it answer with a single multi-choice request; otherwise the variants run as
+   * parallel requests. All of them share `options.signal`, so aborting it cancels
+   * every variant. Resolves with one response per variant, in order.
+   */
+  public async rewriteVariants(
+    text: string,
+    count: number,
+    options: RewriteOptions,
+    callbacks: VariantStreamCallbacks
+  ): Promise<AIResponse[]> {
+    const variantOptions = { ...options, temperature: options.temperature ?? VARIANT_TEMPERATURE };
+    const failAll = (error: RewriteError) =>
+      Array.from({ length: count }, (_, variant) =>
+        this.reportFailure(error, (reported) => callbacks.onError(variant, reported))
+      );
+    const prepared = await this.prepareRequest(text, variantOptions).catch((error: unknown) => ({
+      error: this.toRewriteError(error, options.signal),
+    }));
+    if ('error' in prepared) {
+      return failAll(prepared.error);
+    }
 
-      if (callbacks) {
-        const stream = await client.chat.completions.create(
-          { ...payload, stream: true },
-          { signal: this.abortController.signal }
+    const { adapter, request, masker } = prepared;
+    if (count > 1 && adapter.streamChoices) {
+      try {
+        const restorers = Array.from({ length: count }, (_, variant) =>
+          masker.createStreamRestorer((token) => callbacks.onToken(variant, token))
+        );
+        const streamChoices = adapter.streamChoices.bind(adapter);
+        let streamed = false;
+        const policy = await StorageService.getInstance().getRetryPolicy();
+        // Retried like single rewrites, but not handed to the fallback chain: fallback
+        // providers may not answer several choices from one request.
+        const results = await withRetry(
+          () =>
+            streamChoices(request, count, (variant, token) => {
+              streamed = true;
+              restorers[variant]?.push(token);
+            }),
+          { policy, signal: request.signal, providerLabel: adapter.label, canRetry: () => !streamed }
         );
-        let fullContent = '';
+        const source = this.toSource(prepared, false);
+        const restored = results.map((result) => masker.restore(result.content));
+        if (!request.signal.aborted) {
+          results.forEach(({ truncated }, variant) => {
+            restorers[variant]?.flush();
+            callbacks.onComplete(variant, truncated, restored[variant].issues, source);
+          });
+        }
+        return results.map(({ truncated }, variant) => ({
+          success: true,
+          content: restored[variant].text,
+          isStreaming: true,
+          provider: adapter.id,
+          model: request.model,
+          truncated,
+          spanIssues: restored[variant].issues,
+        }));
+      } catch (error) {
+        return failAll(this.toRewriteError(error, request.signal, adapter.label));
+      }
+    }
+
+    return Promise.all(
+      Array.from({ length: count }, (_, variant) =>
+        this.rewriteText(text, variantOptions, {
+          onToken: (token) => callbacks.onToken(variant, token),
+          onComplete: (truncated, spanIssues, source) => callbacks.onComplete(variant, truncated, spanIssues, source),
+          onError: (error) => callbacks.onError(variant, error),
+        })
+      )
+    );
+  }
+
+  /**
+   * Rewrites the chunks of a long text, at most `MAX_CONCURRENT_CHUNKS` at a time.
+   * Events are released in chunk order: the earliest unfinished chunk streams
+   * live while later ones are buffered, so the text fills in section by section.
+   * A failed chunk does not stop the others; rewrite it again on its own to retry.
+   * Resolves with one response per chunk, in order.
+   */
+  public async rewriteChunks(
+    chunks: TextChunk[],
+    options: RewriteOptions,
+    callbacks: ChunkStreamCallbacks
+  ): Promise<AIResponse[]> {
+    const buffered: string[][] = chunks.map(() => []);
+    const finished: Array<(() => void) | null> = chunks.map(() => null);
+    let live = 0;
+
+    const release = () => {
+      while (live < chunks.length) {
+        const chunk = live;
+        buffered[chunk].forEach((token) => callbacks.onToken(chunk, token));
+        buffered[chunk] = [];
+        const finish = finished[chunk];
+        if (!finish) return;
+        finish();
+        live += 1;
+      }
+    };
+    const emitToken = (chunk: number, token: string) => {
+      if (chunk === live) {
+        callbacks.onToken(chunk, token);
+      } else {
+        buffered[chunk].push(token);
+      }
+    };
+    const finish = (chunk: number, event: () => void) => {
+      if (finished[chunk]) return;
+      finished[chunk] = event;
+      if (chunk === live) release();
+    };
+
+    const responses: AIResponse[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < chunks.length && !options.signal?.aborted) {
+        const chunk = next;
+        next += 1;
+        const response = await this.rewriteText(chunks[chunk].text, options, {
+          onToken: (token) => emitToken(chunk, token),
+          onComplete: (truncated, spanIssues, source) =>
+            finish(chunk, () => callbacks.onComplete(chunk, truncated, spanIssues, source)),
+          onError: (error) => finish(chunk, () => callbacks.onError(chunk, error)),
+        });
+        responses[chunk] = response;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CHUNKS, chunks.length) }, worker));
+    return chunks.map((_, chunk) => responses[chunk] ?? { success: false, content: '', error: CANCELLED_ERROR });
+  }
+
+  private async prepareRequest(text: string, options: RewriteOptions): Promise<PreparedRequest | { error: RewriteError }> {
+    const [resolved, glossary] = await Promise.all([
+      this.resolveSettings(options),
+      StorageService.getInstance().getGlossary(),
+    ]);
+    if ('error' in resolved) {
+      return resolved;
+    }
+    const { adapter, settings } = resolved;
+
+    // Protected spans travel as tokens so the model cannot reword them; earlier
+    // results in the refinement turns are masked with the same tokens.
+    const masker = createSpanMasker(glossary);
+    const maskedText = masker.mask(text, true);
+    const refinements = options.refinements?.map((turn) => ({ ...turn, content: masker.mask(turn.content) }));
+
+    return {
+      adapter,
+      masker,
+      request: {
+        settings,
+        model: settings.model || adapter.defaultModel,
+        messages: this.buildPromptMessages(
+          maskedText,
+          { ...options, refinements },
+          settings.systemPrompt,
+          masker.size > 0
+        ),
+        temperature: options.temperature ?? settings.temperature,
+        maxTokens: options.maxTokens ?? settings.maxTokens ?? autoMaxTokens(text),
+        topP: options.topP ?? settings.topP,
+        presencePenalty: options.presencePenalty ?? settings.presencePenalty,
+        frequencyPenalty: options.frequencyPenalty ?? settings.frequencyPenalty,
+        signal: options.signal ?? new AbortController().signal,
+      },
+    };
+  }
+
+  /** The provider adapter and settings, with the key, for `options`. */
+  private async resolveSettings(
+    options: RewriteOptions
+  ): Promise<{ adapter: ProviderAdapter; settings: Settings } | { error: RewriteError }> {
+    const profileSettings = await StorageService.getInstance().getSettings(options.profileId);
+    const storedSettings = this.applyOverrides(profileSettings, options);
+    const adapter = getProvider(storedSettings.provider);
 
+    let apiKey: string;
+    try {
+      // Per provider, so an action that overrides the provider also uses that provider's key,
+      // unless the profile keeps a key of its own.
+      apiKey = await KeyVaultService.getInstance().getKey(storedSettings.keyRef ?? adapter.id);
+    } catch (error) {
+      if (!(error instanceof VaultLockedError)) throw error;
+      return { error: { code: 'vault-locked', message: error.message } };
+    }
+    const settings: Settings = { ...storedSettings, apiKey };
+
+    if (adapter.requiresApiKey && !settings.apiKey) {
+      return {
+        error: {
+          code: 'missing-key',
+          message: `No ${adapter.label} API key found. Please set your API key in the extension settings.`,
+        },
+      };
+    }
+    return { adapter, settings };
+  }
+
+  /**
+   * Runs `attempt` on the primary model, retrying under the user's policy, then
+   * on each model of the fallback chain in turn. Moving on stops as soon as the
+   * request is cancelled or `canRetry` reports that an attempt already streamed.
+   * Resolves with the first result and the model that produced it.
+   */
+  private async runWithFallbacks<T>(
+    prepared: PreparedRequest,
+    options: RewriteOptions,
+    attempt: (target: PreparedRequest) => Promise<T>,
+    canRetry: () => boolean
+  ): Promise<{ result: T; source: ResultSource }> {
+    const storage = StorageService.getInstance();
+    const { signal } = prepared.request;
+    const policy = await storage.getRetryPolicy();
+    const run = (target: PreparedRequest) =>
+      withRetry(() => attempt(target), { policy, signal, providerLabel: target.adapter.label, canRetry });
+
+    try {
+      return { result: await run(prepared), source: this.toSource(prepared, false) };
+    } catch (error) {
+      const failure = classifyError(error, prepared.adapter.label);
+      let triedFallback = false;
+      for (const fallback of await storage.getFallbackChain()) {
+        if (signal.aborted || !canRetry()) break;
+        const target = await this.prepareFallback(prepared, fallback, options);
+        if (!target) continue;
+        triedFallback = true;
         try {
-          for await (const chunk of stream) {
-            const token = chunk.choices[0]?.delta?.content || '';
-            if (token) {
-              fullContent += token;
-              callbacks.onToken(token);
-            }
-          }
-          callbacks.onComplete();
-          return { success: true, content: fullContent, isStreaming: true };
-        } catch (error) {
-          if (error instanceof Error) {
-            errorHandled = true;
-            callbacks.onError(error.message);
-          }
-          return {
-            success: false,
-            content: '',
-            error: error instanceof Error ? error.message : 'An unknown error occurred',
-            isStreaming: true,
-            errorHandled,
-          };
+          return { result: await run(target), source: this.toSource(target, true) };
+        } catch (fallbackError) {
+          console.warn(`Fallback ${target.adapter.label} ${target.request.model} failed:`, fallbackError);
         }
       }
+      if (!triedFallback) throw failure;
+      throw new ProviderError(`${failure.message} (the fallback models failed too)`, failure.code, {
+        status: failure.status,
+      });
+    }
+  }
+
+  /**
+   * The primary request redirected to a fallback model. `null` when the entry
+   * cannot run (no key, locked vault) or names the primary model itself.
+   */
+  private async prepareFallback(
+    prepared: PreparedRequest,
+    fallback: FallbackModel,
+    options: RewriteOptions
+  ): Promise<PreparedRequest | null> {
+    try {
+      const resolved = await this.resolveSettings({ ...options, provider: fallback.provider, model: fallback.model });
+      if ('error' in resolved) return null;
+      const { adapter, settings } = resolved;
+      const model = settings.model || adapter.defaultModel;
+      if (adapter.id === prepared.adapter.id && model === prepared.request.model) return null;
+      return { ...prepared, adapter, request: { ...prepared.request, settings, model } };
+    } catch (error) {
+      console.warn('Skipping a fallback model:', error);
+      return null;
+    }
+  }
+
+  private toSource({ adapter, request }: PreparedRequest, fallback: boolean): ResultSource {
+    return {
+      provider: adapter.id,
+      providerLabel: adapter.label,
+      model: request.model,
+      ...(fallback ? { fallback } : {}),
+    };
+  }
+
+  /**
+   * Everything that shapes the answer: provider, endpoint, model, generation
+   * parameters and the prompt, which carries the instruction, system prompt,
+   * format and the (masked) text. The raw text is added because masking hides
+   * the protected spans themselves.
+   */
+  private getCacheKey(
+    adapter: ProviderAdapter,
+    request: ProviderRequest,
+    text: string,
+    options: RewriteOptions
+  ): Promise<string> {
+    return hashCacheKey({
+      provider: adapter.id,
+      baseUrl: request.settings.baseUrl || undefined,
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      topP: request.topP,
+      presencePenalty: request.presencePenalty,
+      frequencyPenalty: request.frequencyPenalty,
+      messages: request.messages,
+      text,
+      refinements: options.refinements,
+    });
+  }
+
+  private async readCachedResult(key: string): Promise<CachedResponse | null> {
+    try {
+      return await ResponseCacheService.getInstance().get(key);
+    } catch (error) {
+      console.error('Failed to read the response cache:', error);
+      return null;
+    }
+  }
 
-      const response = await client.chat.completions.create(payload, {
-        signal: this.abortController.signal,
+  private async cacheResult(
+    key: string,
+    signal: AbortSignal,
+    result: ProviderResult,
+    source: ResultSource
+  ): Promise<void> {
+    if (signal.aborted || !result.content.trim()) return;
+    try {
+      await ResponseCacheService.getInstance().set(key, {
+        content: result.content,
+        truncated: result.truncated,
+        provider: source.provider,
+        model: source.model,
       });
-      return {
-        success: true,
-        content: response.choices[0]?.message?.content?.trim() || '',
-        isStreaming: false,
-      };
     } catch (error) {
-      return {
-        success: false,
-        content: '',
-        error: error instanceof Error ? error.message : 'An unknown error occurred',
-        isStreaming: false,
-        errorHandled,
-      };
+      // A full or unavailable cache must never fail the rewrite itself.
+      console.error('Failed to cache the response:', error);
     }
   }
 
-  private buildPromptMessages(text: string, options: RewriteOptions): AIRequestPayload['messages'] {
-    const instruction = options.instruction?.trim() || 'Rewrite the following text in clear, basic English.';
+  private applyOverrides(settings: StoredSettings, options: RewriteOptions): StoredSettings {
+    if (options.provider && options.provider !== settings.provider) {
+      // The saved model and profile key belong to another provider, so fall back to
+      // the adapter default and that provider's shared key.
+      return { ...settings, provider: options.provider, model: options.model, keyRef: undefined };
+    }
+    return options.model ? { ...settings, model: options.model } : settings;
+  }
+
+  private toRewriteError(error: unknown, signal?: AbortSignal, providerLabel?: string): RewriteError {
+    // However the SDK reports an aborted request, it was the user's doing.
+    if (signal?.aborted) return CANCELLED_ERROR;
+    return classifyError(error, providerLabel).toRewriteError();
+  }
+
+  /** A cancelled request is reported by whoever cancelled it, so only other failures reach `onError`. */
+  private reportFailure(error: RewriteError, onError?: (error: RewriteError) => void): AIResponse {
+    if (error.code !== 'cancelled') onError?.(error);
+    return { success: false, content: '', error };
+  }
+
+  private buildPromptMessages(
+    text: string,
+    options: RewriteOptions,
+    systemPrompt?: string,
+    hasProtectedSpans = false
+  ): AIRequestPayload['messages'] {
+    const instruction = options.instruction?.trim() || DEFAULT_INSTRUCTION;
+    const system = [
+      systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT,
+      options.format === 'html' ? RICH_TEXT_PROMPT : '',
+      hasProtectedSpans ? PROTECTED_SPANS_PROMPT : '',
+    ];
     return [
       {
         role: 'system',
-        content:
-          'You are a helpful editor. Follow the rewrite instruction and only return the rewritten text without additional commentary.',
+        content: system.filter(Boolean).join('\n'),
       },
       {
         role: 'user',
@@ -161,89 +572,7 @@ export class AIService {
         role: 'user',
         content: `${instruction}\n${text}`,
       },
+      ...(options.refinements ?? []),
     ];
   }
-
-  private createOpenAIClient(settings: Settings): OpenAI {
-    return new OpenAI({
-      apiKey: settings.apiKey,
-      baseURL: this.OPENROUTER_BASE_URL,
-      dangerouslyAllowBrowser: true,
-    });
-  }
-
-  private async rewriteWithGemini(
-    text: string,
-    apiKey: string,
-    modelName: string | undefined,
-    options: RewriteOptions,
-    callbacks?: StreamCallbacks
-  ): Promise<AIResponse> {
-    try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: modelName || "gemini-1.5-flash" });
-
-      const instruction = options.instruction?.trim() || 'Rewrite the following text in clear, basic English.';
-      const prompt = `${instruction}\n${text}`;
-
-      if (callbacks) {
-        this.abortController = new AbortController();
-        const result = await model.generateContentStream(prompt, { signal: this.abortController.signal });
-        let fullContent = '';
-        let wasCancelled = false;
-
-        try {
-          for await (const chunk of result.stream) {
-            if (this.abortController?.signal.aborted) {
-              wasCancelled = true;
-              break;
-            }
-            const chunkText = chunk.text();
-            fullContent += chunkText;
-            callbacks.onToken(chunkText);
-          }
-          if (wasCancelled) {
-            return { success: true, content: fullContent, isStreaming: true };
-          }
-          callbacks.onComplete();
-          return { success: true, content: fullContent, isStreaming: true };
-        } catch (error) {
-          if (error instanceof Error) {
-            callbacks.onError(error.message);
-          }
-          return {
-            success: false,
-            content: '',
-            error: error instanceof Error ? error.message : 'An unknown error occurred with Gemini',
-            isStreaming: true,
-            errorHandled: true,
-          };
-        }
-      } else {
-        this.abortController = new AbortController();
-        const result = await model.generateContent(prompt, { signal: this.abortController.signal });
-        const response = await result.response;
-        const text = response.text();
-        return {
-          success: true,
-          content: text.trim(),
-          isStreaming: false
-        };
-      }
-    } catch (error) {
-      return {
-        success: false,
-        content: '',
-        error: error instanceof Error ? error.message : 'An unknown error occurred with Gemini',
-        isStreaming: false
-      };
-    }
-  }
-
-  public cancelStream(): void {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
-    }
-  }
 }
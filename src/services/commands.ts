@@ -0,0 +1,35 @@
+import { RewriteAction } from '../types';
+
+/** Command names declared under "commands" in public/manifest.json. */
+export const COMMANDS = {
+  rewriteDefault: 'rewrite-default',
+  openActionPicker: 'open-action-picker',
+  applySuggestion: 'apply-suggestion',
+  cancelRewrite: 'cancel-rewrite',
+} as const;
+
+/**
+ * Commands that rewrite the selection straight away. The popup binds each one to
+ * an action; unbound ones use the first enabled action.
+ */
+export const REWRITE_COMMANDS: string[] = [
+  COMMANDS.rewriteDefault,
+  'rewrite-action-1',
+  'rewrite-action-2',
+  'rewrite-action-3',
+];
+
+/** Maps a command name to the id of the action it runs. */
+export type CommandBindings = Record<string, string>;
+
+export const resolveCommandAction = (
+  command: string,
+  actions: RewriteAction[],
+  bindings: CommandBindings
+): RewriteAction | undefined => {
+  const boundId = bindings[command];
+  return (
+    actions.find((action) => action.id === boundId && action.enabled) ??
+    actions.find((action) => action.enabled)
+  );
+};
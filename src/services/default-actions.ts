@@ -0,0 +1,49 @@
+import { RewriteAction } from '../types';
+
+export const DEFAULT_INSTRUCTION = 'Rewrite the following text in clear, basic English.';
+
+/** Seed actions used until the user customises the list, and restored by "Reset to defaults". */
+export const DEFAULT_REWRITE_ACTIONS: RewriteAction[] = [
+  {
+    id: 'rewriteText',
+    title: 'Rewrite it',
+    instruction: DEFAULT_INSTRUCTION,
+    enabled: true,
+  },
+  {
+    id: 'rewriteShorter',
+    title: 'Make it shorter',
+    instruction: 'Shorten the following text while preserving the meaning.',
+    enabled: true,
+  },
+  {
+    id: 'rewriteLonger',
+    title: 'Make it longer',
+    instruction: 'Expand the following text with more detail while keeping the meaning.',
+    enabled: true,
+  },
+  {
+    id: 'rewriteFormal',
+    title: 'Make it formal',
+    instruction: 'Rewrite the following text in a formal, professional tone.',
+    enabled: true,
+  },
+  {
+    id: 'rewriteCasual',
+    title: 'Make it casual',
+    instruction: 'Rewrite the following text in a friendly, casual tone.',
+    enabled: true,
+  },
+  {
+    id: 'rewriteGrammar',
+    title: 'Fix grammar',
+    instruction: 'Fix grammar, spelling, and punctuation while keeping the same tone.',
+    enabled: true,
+  },
+  {
+    id: 'rewriteSimplify',
+    title: 'Simplify',
+    instruction: 'Simplify the following text to be easier to understand.',
+    enabled: true,
+  },
+];
@@ -0,0 +1,179 @@
+import { HistoryEntry, HistorySettings } from '../types';
+
+export const HISTORY_KEY = 'rewriteHistory';
+export const HISTORY_SETTINGS_KEY = 'historySettings';
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  enabled: true,
+  maxEntries: 200,
+  retentionDays: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Drops entries past the retention window and trims to the cap, newest first. */
+export const pruneHistory = (
+  entries: HistoryEntry[],
+  settings: HistorySettings,
+  now: number = Date.now()
+): HistoryEntry[] => {
+  const cutoff = settings.retentionDays > 0 ? now - settings.retentionDays * DAY_MS : -Infinity;
+  return entries
+    .filter((entry) => entry.createdAt >= cutoff)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, Math.max(0, settings.maxEntries));
+};
+
+/** Every whitespace-separated term must appear in one of the entry's text fields. */
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+
+  return entries.filter((entry) => {
+    const haystack = [
+      entry.originalText,
+      entry.rewrittenText,
+      ...(entry.variants ?? []),
+      entry.actionTitle,
+      entry.model,
+      entry.pageTitle,
+      entry.pageUrl,
+    ]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+const CSV_COLUMNS: Array<keyof HistoryEntry> = [
+  'createdAt',
+  'actionTitle',
+  'provider',
+  'model',
+  'pageTitle',
+  'pageUrl',
+  'originalText',
+  'rewrittenText',
+  'variants',
+];
+
+// Spreadsheets run a cell that starts with one of these as a formula; a leading quote keeps it text.
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const escapeCsvField = (field: string): string => {
+  const value = FORMULA_TRIGGER.test(field) ? `'${field}` : field;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const historyToCsv = (entries: HistoryEntry[]): string => {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => {
+      const value = entry[column];
+      if (column === 'createdAt') return new Date(entry.createdAt).toISOString();
+      // One variant per line, all in the one cell.
+      if (column === 'variants') return escapeCsvField((entry.variants ?? []).join('\n'));
+      return escapeCsvField(value === undefined ? '' : String(value));
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const historyToJson = (entries: HistoryEntry[]): string => JSON.stringify(entries, null, 2);
+
+export class HistoryService {
+  private static instance: HistoryService;
+  // Every change is a read-modify-write of the whole list, so they run one after another.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  public async getSettings(): Promise<HistorySettings> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([HISTORY_SETTINGS_KEY], (result) => {
+        resolve({ ...DEFAULT_HISTORY_SETTINGS, ...(result[HISTORY_SETTINGS_KEY] || {}) });
+      });
+    });
+  }
+
+  public async saveSettings(settings: HistorySettings): Promise<void> {
+    await new Promise<void>((resolve) => {
+      chrome.storage.sync.set({ [HISTORY_SETTINGS_KEY]: settings }, () => {
+        resolve();
+      });
+    });
+    // Apply a lower cap or shorter retention right away.
+    await this.enqueue(async () => this.writeEntries(pruneHistory(await this.readEntries(), settings)));
+  }
+
+  public async getEntries(): Promise<HistoryEntry[]> {
+    return pruneHistory(await this.readEntries(), await this.getSettings());
+  }
+
+  /** Returns null without saving anything when the user has opted out. */
+  public async addEntry(entry: Omit<HistoryEntry, 'id' | 'createdAt'>): Promise<HistoryEntry | null> {
+    const settings = await this.getSettings();
+    if (!settings.enabled) {
+      return null;
+    }
+
+    return this.enqueue(async () => {
+      const createdAt = Date.now();
+      const saved: HistoryEntry = {
+        ...entry,
+        id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        createdAt,
+      };
+      await this.writeEntries(pruneHistory([saved, ...(await this.readEntries())], settings, createdAt));
+      return saved;
+    });
+  }
+
+  public async deleteEntry(id: string): Promise<void> {
+    await this.enqueue(async () => {
+      const entries = await this.readEntries();
+      await this.writeEntries(entries.filter((entry) => entry.id !== id));
+    });
+  }
+
+  public async clear(): Promise<void> {
+    await this.enqueue(
+      () =>
+        new Promise<void>((resolve) => {
+          chrome.storage.local.remove(HISTORY_KEY, () => {
+            resolve();
+          });
+        })
+    );
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readEntries(): Promise<HistoryEntry[]> {
+    return new Promise((resolve) => {
+      chrome.storage.local.get([HISTORY_KEY], (result) => {
+        const entries = result[HISTORY_KEY];
+        resolve(Array.isArray(entries) ? entries : []);
+      });
+    });
+  }
+
+  private async writeEntries(entries: HistoryEntry[]): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.local.set({ [HISTORY_KEY]: entries }, () => {
+        resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,319 @@
+import { Provider } from '../types';
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface VaultRecord {
+  /** Raw AES key, present while no passphrase is set. Keeps keys out of sync storage and exports. */
+  deviceKey?: string;
+  /** PBKDF2 salt, present once the vault is protected by a passphrase. */
+  salt?: string;
+  /** A known value encrypted with the passphrase key, to reject a wrong passphrase. */
+  check?: EncryptedValue;
+  /** Keyed by slot: a provider id, or a profile's own `keyRef`. */
+  keys: Record<string, EncryptedValue>;
+  /** Last characters of each key, so the popup can show a masked key while locked. */
+  hints: Record<string, string>;
+  /** Minutes of inactivity before a passphrase vault locks again; 0 keeps it open until the browser closes. */
+  autoLockMinutes: number;
+}
+
+interface VaultSession {
+  key: string;
+  expiresAt: number | null;
+}
+
+export interface VaultStatus {
+  hasPassphrase: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+  hints: Record<string, string>;
+}
+
+export const KEY_VAULT_KEY = 'keyVault';
+const SESSION_KEY = 'keyVaultSession';
+const LEGACY_API_KEY = 'apiKey';
+const CHECK_VALUE = 'ai-rewriter-key-vault';
+const PBKDF2_ITERATIONS = 310000;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Your API keys are locked. Open the extension popup and enter your passphrase to unlock them.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const importAesKey = (raw: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', raw, 'AES-GCM', true, ['encrypt', 'decrypt']);
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+const decrypt = async (key: CryptoKey, value: EncryptedValue): Promise<string> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.data)
+  );
+  return new TextDecoder().decode(data);
+};
+
+export const maskApiKey = (hint: string | undefined): string => (hint ? `••••••••${hint}` : '');
+
+/**
+ * API keys per provider (or per profile that keeps its own), encrypted with AES-GCM in `chrome.storage.local`.
+ * Without a passphrase the AES key sits next to the data, which keeps keys out
+ * of sync and backups but not away from someone with access to the profile.
+ * With a passphrase the key is derived with PBKDF2 and only kept, once
+ * unlocked, in memory-only `chrome.storage.session` until the auto-lock fires.
+ */
+export class KeyVaultService {
+  private static instance: KeyVaultService;
+  private migration: Promise<void> | null = null;
+  private recordCreation: Promise<VaultRecord> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): KeyVaultService {
+    if (!KeyVaultService.instance) {
+      KeyVaultService.instance = new KeyVaultService();
+    }
+    return KeyVaultService.instance;
+  }
+
+  public async getStatus(): Promise<VaultStatus> {
+    const record = await this.getRecord();
+    return {
+      hasPassphrase: !!record.salt,
+      locked: !!record.salt && !(await this.getSessionKey(record)),
+      autoLockMinutes: record.autoLockMinutes,
+      hints: record.hints,
+    };
+  }
+
+  /**
+   * Resolves with an empty string when no key is stored in `slot`, which is a
+   * provider id or a profile's own `keyRef`.
+   */
+  public async getKey(slot: string): Promise<string> {
+    // Parallel requests (e.g. variants) share one migration instead of racing on the record.
+    // A locked vault leaves the legacy key where it is, so the next call tries again.
+    this.migration ??= this.migrateLegacyKey().then(
+      (done) => {
+        if (!done) this.migration = null;
+      },
+      (error) => {
+        console.error('Failed to migrate the legacy API key:', error);
+        this.migration = null;
+      }
+    );
+    await this.migration;
+    const record = await this.getRecord();
+    const encrypted = record.keys[slot];
+    if (!encrypted) return '';
+    return decrypt(await this.requireCryptoKey(record), encrypted);
+  }
+
+  /** Stores `apiKey` in `slot`; an empty key removes it. */
+  public async setKey(slot: string, apiKey: string): Promise<void> {
+    const record = await this.getRecord();
+    const trimmed = apiKey.trim();
+    if (!trimmed) {
+      delete record.keys[slot];
+      delete record.hints[slot];
+    } else {
+      record.keys[slot] = await encrypt(await this.requireCryptoKey(record), trimmed);
+      record.hints[slot] = trimmed.slice(-4);
+    }
+    await this.saveRecord(record);
+  }
+
+  public async unlock(passphrase: string): Promise<boolean> {
+    const record = await this.getRecord();
+    if (!record.salt || !record.check) return true;
+
+    const key = await deriveKey(passphrase, fromBase64(record.salt));
+    try {
+      if ((await decrypt(key, record.check)) !== CHECK_VALUE) return false;
+    } catch (error) {
+      // AES-GCM authentication fails when the passphrase is wrong.
+      return false;
+    }
+    await this.saveSession(key, record.autoLockMinutes);
+    return true;
+  }
+
+  public async lock(): Promise<void> {
+    await new Promise<void>((resolve) => chrome.storage.session.remove(SESSION_KEY, () => resolve()));
+  }
+
+  /**
+   * Re-encrypts every stored key with a key derived from `passphrase`, or with a
+   * fresh device key when `passphrase` is empty. Requires an unlocked vault.
+   */
+  public async setPassphrase(passphrase: string): Promise<void> {
+    const record = await this.getRecord();
+    const currentKey = await this.requireCryptoKey(record);
+    const plainKeys = await this.decryptAll(record, currentKey);
+
+    let nextKey: CryptoKey;
+    if (passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      nextKey = await deriveKey(passphrase, salt);
+      record.salt = toBase64(salt);
+      record.check = await encrypt(nextKey, CHECK_VALUE);
+      delete record.deviceKey;
+    } else {
+      nextKey = await importAesKey(crypto.getRandomValues(new Uint8Array(32)));
+      record.deviceKey = toBase64(await crypto.subtle.exportKey('raw', nextKey));
+      delete record.salt;
+      delete record.check;
+    }
+
+    record.keys = {};
+    for (const [slot, apiKey] of plainKeys) {
+      record.keys[slot] = await encrypt(nextKey, apiKey);
+    }
+    await this.saveRecord(record);
+
+    if (passphrase) {
+      await this.saveSession(nextKey, record.autoLockMinutes);
+    } else {
+      await this.lock();
+    }
+  }
+
+  public async setAutoLockMinutes(minutes: number): Promise<void> {
+    const record = await this.getRecord();
+    record.autoLockMinutes = Math.max(0, Math.round(minutes));
+    await this.saveRecord(record);
+
+    const key = await this.getSessionKey(record);
+    if (key) await this.saveSession(key, record.autoLockMinutes);
+  }
+
+  /**
+   * Moves the single plain-text key that older versions kept in sync storage into
+   * the vault under the provider it was used with, then deletes it from sync.
+   * Resolves false when the vault is locked and the key has to wait for an unlock.
+   */
+  public async migrateLegacyKey(): Promise<boolean> {
+    const legacy = await new Promise<{ apiKey?: string; provider?: Provider }>((resolve) => {
+      chrome.storage.sync.get([LEGACY_API_KEY, 'provider'], (result) => resolve(result));
+    });
+    if (!legacy.apiKey) return true;
+
+    const record = await this.getRecord();
+    const provider = legacy.provider || 'openrouter';
+    if (!record.keys[provider]) {
+      try {
+        await this.setKey(provider, legacy.apiKey);
+      } catch (error) {
+        // A locked vault cannot take the key yet; try again after it is unlocked.
+        if (error instanceof VaultLockedError) return false;
+        throw error;
+      }
+    }
+    await new Promise<void>((resolve) => chrome.storage.sync.remove(LEGACY_API_KEY, () => resolve()));
+    return true;
+  }
+
+  private async decryptAll(record: VaultRecord, key: CryptoKey): Promise<Array<[string, string]>> {
+    return Promise.all(
+      Object.entries(record.keys).map(async ([slot, value]) => [slot, await decrypt(key, value)] as [string, string])
+    );
+  }
+
+  private async requireCryptoKey(record: VaultRecord): Promise<CryptoKey> {
+    if (record.deviceKey) {
+      return importAesKey(fromBase64(record.deviceKey));
+    }
+    const key = await this.getSessionKey(record);
+    if (!key) throw new VaultLockedError();
+    return key;
+  }
+
+  // Reading the unlocked key counts as activity and pushes the auto-lock back.
+  private async getSessionKey(record: VaultRecord): Promise<CryptoKey | null> {
+    const session = await new Promise<VaultSession | undefined>((resolve) => {
+      chrome.storage.session.get([SESSION_KEY], (result) => resolve(result[SESSION_KEY]));
+    });
+    if (!session) return null;
+    if (session.expiresAt !== null && session.expiresAt <= Date.now()) {
+      await this.lock();
+      return null;
+    }
+
+    const key = await importAesKey(fromBase64(session.key));
+    await this.saveSession(key, record.autoLockMinutes);
+    return key;
+  }
+
+  private async saveSession(key: CryptoKey, autoLockMinutes: number): Promise<void> {
+    const session: VaultSession = {
+      key: toBase64(await crypto.subtle.exportKey('raw', key)),
+      expiresAt: autoLockMinutes > 0 ? Date.now() + autoLockMinutes * 60 * 1000 : null,
+    };
+    await new Promise<void>((resolve) => chrome.storage.session.set({ [SESSION_KEY]: session }, () => resolve()));
+  }
+
+  private async getRecord(): Promise<VaultRecord> {
+    const stored = await new Promise<VaultRecord | undefined>((resolve) => {
+      chrome.storage.local.get([KEY_VAULT_KEY], (result) => resolve(result[KEY_VAULT_KEY]));
+    });
+    if (stored) return stored;
+
+    // Two first reads at once must not each create (and save) a different device key.
+    this.recordCreation ??= (async () => {
+      const record: VaultRecord = {
+        deviceKey: toBase64(crypto.getRandomValues(new Uint8Array(32))),
+        keys: {},
+        hints: {},
+        autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+      };
+      await this.saveRecord(record);
+      return record;
+    })();
+    const created = await this.recordCreation;
+    this.recordCreation = null;
+    return { ...created, keys: { ...created.keys }, hints: { ...created.hints } };
+  }
+
+  private async saveRecord(record: VaultRecord): Promise<void> {
+    await new Promise<void>((resolve) => chrome.storage.local.set({ [KEY_VAULT_KEY]: record }, () => resolve()));
+  }
+}
@@ -0,0 +1,184 @@
+import { PromptMessage, RewriteErrorCode, Settings } from '../../types';
+import { ProviderAdapter, ProviderRequest, ProviderResult } from './provider';
+import { ProviderError, codeFromStatus, parseRetryAfter } from './provider-error';
+import { readServerSentEvents } from './sse';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const ERROR_CODES: Record<string, RewriteErrorCode> = {
+  authentication_error: 'invalid-key',
+  permission_error: 'invalid-key',
+  billing_error: 'quota-exceeded',
+  not_found_error: 'model-not-found',
+  rate_limit_error: 'rate-limited',
+  overloaded_error: 'server',
+  api_error: 'server',
+  request_too_large: 'context-too-long',
+};
+
+interface AnthropicErrorPayload {
+  type?: string;
+  error?: {
+    type?: string;
+    message?: string;
+  };
+}
+
+/**
+ * Talks to the Anthropic Messages API directly. The SDK is not used because the
+ * extension only needs two endpoints and plain fetch keeps the bundle small.
+ */
+export class AnthropicProvider implements ProviderAdapter {
+  readonly id = 'anthropic' as const;
+  readonly label = 'Anthropic';
+  readonly defaultModel = 'claude-3-5-haiku-latest';
+  readonly modelExample = 'claude-3-5-sonnet-latest';
+  readonly apiKeyUrl = 'https://console.anthropic.com/settings/keys';
+  readonly requiresApiKey = true;
+  readonly requiresBaseUrl = false;
+
+  constructor(private readonly baseUrl: string = 'https://api.anthropic.com/v1') {}
+
+  public validateModel(model: string): string | null {
+    if (!/^claude-[\w.-]+$/i.test(model)) {
+      return 'Anthropic models should look like "claude-3-5-sonnet-latest".';
+    }
+    return null;
+  }
+
+  public async fetchModels(settings: Settings): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models?limit=1000`, {
+      headers: this.getHeaders(settings.apiKey),
+    });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return (data.data || []).map((m: any) => m.id);
+  }
+
+  public async complete(request: ProviderRequest): Promise<ProviderResult> {
+    const response = await this.send(request, false);
+    const data = await response.json();
+    return {
+      content: (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('')
+        .trim(),
+      truncated: data.stop_reason === 'max_tokens',
+    };
+  }
+
+  public async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderResult> {
+    const response = await this.send(request, true);
+    if (!response.body) {
+      throw new Error('Anthropic returned an empty stream.');
+    }
+
+    let fullContent = '';
+    let truncated = false;
+    await readServerSentEvents(response.body, ({ event, data }) => {
+      if (event === 'error') {
+        throw this.toError(JSON.parse(data) as AnthropicErrorPayload);
+      }
+      // The stop reason arrives with the final message delta.
+      if (event === 'message_delta') {
+        truncated = JSON.parse(data).delta?.stop_reason === 'max_tokens';
+        return;
+      }
+      if (event !== 'content_block_delta') {
+        return;
+      }
+      const payload = JSON.parse(data);
+      if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+        fullContent += payload.delta.text;
+        onToken(payload.delta.text);
+      }
+    });
+    return { content: fullContent, truncated };
+  }
+
+  private async send(request: ProviderRequest, stream: boolean): Promise<Response> {
+    const { system, messages } = this.splitMessages(request.messages);
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: this.getHeaders(request.settings.apiKey),
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.2,
+        // Anthropic has no presence or frequency penalties.
+        ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+        ...(system ? { system } : {}),
+        messages,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      let payload: AnthropicErrorPayload = {};
+      try {
+        payload = await response.json();
+      } catch (error) {
+        payload = {};
+      }
+      throw this.toError(payload, response.status, parseRetryAfter(response.headers));
+    }
+    return response;
+  }
+
+  // The Messages API takes the system prompt as a top-level field, not as a message.
+  private splitMessages(messages: PromptMessage[]) {
+    return {
+      system: messages
+        .filter((message) => message.role === 'system')
+        .map((message) => message.content)
+        .join('\n\n'),
+      messages: messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => ({ role: message.role, content: message.content })),
+    };
+  }
+
+  private getHeaders(apiKey: string): Record<string, string> {
+    return {
+      'content-type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      // Required for CORS requests made from the extension rather than a server.
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private toError(payload: AnthropicErrorPayload, status?: number, retryAfterMs?: number): ProviderError {
+    const type = payload.error?.type;
+    const code =
+      (type && ERROR_CODES[type]) || (status ? codeFromStatus(status, undefined, payload.error?.message) : 'unknown');
+    return new ProviderError(this.getErrorMessage(payload, status), code, { status, retryAfterMs });
+  }
+
+  private getErrorMessage(payload: AnthropicErrorPayload, status?: number): string {
+    const type = payload.error?.type;
+    const detail = payload.error?.message;
+
+    switch (type) {
+      case 'authentication_error':
+        return 'Invalid Anthropic API key. Please check the key in the extension settings.';
+      case 'permission_error':
+        return 'This Anthropic API key does not have access to the requested model.';
+      case 'not_found_error':
+        return detail ? `Anthropic model not found: ${detail}` : 'Anthropic model not found.';
+      case 'rate_limit_error':
+        return 'Anthropic rate limit reached. Please wait a moment and try again.';
+      case 'overloaded_error':
+        return 'Anthropic is temporarily overloaded. Please try again shortly.';
+      case 'request_too_large':
+        return 'The selected text is too large for Anthropic. Try a shorter selection.';
+      default:
+        if (detail) return `Anthropic error: ${detail}`;
+        return status
+          ? `Anthropic request failed with status ${status}.`
+          : 'An unknown error occurred with Anthropic';
+    }
+  }
+}
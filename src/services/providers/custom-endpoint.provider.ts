@@ -0,0 +1,27 @@
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { ProviderError } from './provider-error';
+import { Settings } from '../../types';
+
+/**
+ * Any self-hosted server exposing `/v1/chat/completions`: LM Studio, vLLM,
+ * llama.cpp server, Ollama's OpenAI endpoint and similar.
+ */
+export class CustomEndpointProvider extends OpenAICompatibleProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly label = 'OpenAI-compatible';
+  readonly defaultModel = 'local-model';
+  readonly modelExample = 'llama3.1:8b';
+  readonly requiresApiKey = false;
+  readonly requiresBaseUrl = true;
+
+  protected getBaseUrl(settings: Settings): string {
+    const baseUrl = settings.baseUrl?.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new ProviderError(
+        'Base URL not set. Please enter your server URL in the extension settings.',
+        'missing-base-url'
+      );
+    }
+    return baseUrl;
+  }
+}
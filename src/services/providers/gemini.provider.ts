@@ -0,0 +1,112 @@
+import { Content, FinishReason, GenerationConfig, GoogleGenerativeAI } from '@google/generative-ai';
+import { PromptMessage, Settings } from '../../types';
+import { ProviderAdapter, ProviderRequest, ProviderResult } from './provider';
+
+export class GeminiProvider implements ProviderAdapter {
+  readonly id = 'gemini' as const;
+  readonly label = 'Gemini';
+  readonly defaultModel = 'gemini-1.5-flash';
+  readonly modelExample = 'gemini-1.5-pro';
+  readonly apiKeyUrl = 'https://aistudio.google.com/app/apikey';
+  readonly requiresApiKey = true;
+  readonly requiresBaseUrl = false;
+
+  public validateModel(model: string): string | null {
+    if (!/^gemini-[\w.-]+$/i.test(model)) {
+      return 'Gemini models should look like "gemini-1.5-pro".';
+    }
+    return null;
+  }
+
+  public async fetchModels(settings: Settings): Promise<string[]> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models?key=${settings.apiKey}`
+    );
+    if (!response.ok) return [];
+    const data = await response.json();
+    // Gemini returns model names like "models/gemini-1.5-flash". The SDK accepts
+    // both forms, so strip the prefix for a cleaner list.
+    return (data.models || [])
+      .map((m: any) => m.name.replace(/^models\//, ''))
+      .filter((name: string) => name.includes('gemini'));
+  }
+
+  public async complete(request: ProviderRequest): Promise<ProviderResult> {
+    const { chat, message } = this.startChat(request);
+    const result = await chat.sendMessage(message, { signal: request.signal });
+    return {
+      content: result.response.text().trim(),
+      truncated: result.response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS,
+    };
+  }
+
+  public async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderResult> {
+    const { chat, message } = this.startChat(request);
+    const result = await chat.sendMessageStream(message, { signal: request.signal });
+
+    let fullContent = '';
+    let truncated = false;
+    for await (const chunk of result.stream) {
+      if (request.signal.aborted) {
+        break;
+      }
+      const chunkText = chunk.text();
+      fullContent += chunkText;
+      onToken(chunkText);
+      if (chunk.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS) {
+        truncated = true;
+      }
+    }
+    return { content: fullContent, truncated };
+  }
+
+  /**
+   * Replays every turn but the last as chat history and sends the last user
+   * turn as the new message, so follow-up refinements continue a real session.
+   */
+  private startChat(request: ProviderRequest) {
+    const { model, contents } = this.prepare(request);
+    const last = contents[contents.length - 1];
+    if (!last || last.role !== 'user') {
+      throw new Error('Gemini requests must end with a user message.');
+    }
+    return {
+      chat: model.startChat({ history: contents.slice(0, -1) }),
+      message: last.parts,
+    };
+  }
+
+  private prepare(request: ProviderRequest) {
+    const genAI = new GoogleGenerativeAI(request.settings.apiKey);
+    const systemInstruction = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const model = genAI.getGenerativeModel({
+      model: request.model,
+      ...(systemInstruction ? { systemInstruction } : {}),
+      generationConfig: this.toGenerationConfig(request),
+    });
+    return { model, contents: this.toContents(request.messages) };
+  }
+
+  // Unset values are left out so the model's own defaults apply; not every
+  // Gemini model accepts the penalties.
+  private toGenerationConfig(request: ProviderRequest): GenerationConfig {
+    const config: GenerationConfig = { maxOutputTokens: request.maxTokens };
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+    if (request.topP !== undefined) config.topP = request.topP;
+    if (request.presencePenalty !== undefined) config.presencePenalty = request.presencePenalty;
+    if (request.frequencyPenalty !== undefined) config.frequencyPenalty = request.frequencyPenalty;
+    return config;
+  }
+
+  private toContents(messages: PromptMessage[]): Content[] {
+    return messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      }));
+  }
+}
@@ -0,0 +1,32 @@
+import { Provider } from '../../types';
+import { AnthropicProvider } from './anthropic.provider';
+import { CustomEndpointProvider } from './custom-endpoint.provider';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAIProvider } from './openai.provider';
+import { OpenRouterProvider } from './openrouter.provider';
+import { ProviderAdapter } from './provider';
+
+export type { ProviderAdapter, ProviderRequest, ProviderResult } from './provider';
+export { ProviderError, classifyError } from './provider-error';
+
+export const DEFAULT_PROVIDER: Provider = 'openrouter';
+
+const registry = new Map<Provider, ProviderAdapter>();
+
+export const registerProvider = (adapter: ProviderAdapter): void => {
+  registry.set(adapter.id, adapter);
+};
+
+[
+  new OpenRouterProvider(),
+  new OpenAIProvider(),
+  new AnthropicProvider(),
+  new CustomEndpointProvider(),
+  new GeminiProvider(),
+].forEach(registerProvider);
+
+/** Falls back to the default provider for ids left over from older settings. */
+export const getProvider = (id: Provider | undefined): ProviderAdapter =>
+  (id && registry.get(id)) || (registry.get(DEFAULT_PROVIDER) as ProviderAdapter);
+
+export const listProviders = (): ProviderAdapter[] => Array.from(registry.values());
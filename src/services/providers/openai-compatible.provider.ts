@@ -0,0 +1,121 @@
+import OpenAI from 'openai';
+import { AIRequestPayload, Provider, Settings } from '../../types';
+import { ProviderAdapter, ProviderRequest, ProviderResult } from './provider';
+
+/**
+ * Base adapter for any backend that speaks the OpenAI Chat Completions API.
+ * Subclasses only describe where the endpoint lives and how model ids look.
+ */
+export abstract class OpenAICompatibleProvider implements ProviderAdapter {
+  abstract readonly id: Provider;
+  abstract readonly label: string;
+  abstract readonly defaultModel: string;
+  abstract readonly modelExample: string;
+  readonly apiKeyUrl?: string;
+  readonly requiresApiKey: boolean = true;
+  readonly requiresBaseUrl: boolean = false;
+
+  protected abstract getBaseUrl(settings: Settings): string;
+
+  public validateModel(_model: string): string | null {
+    return null;
+  }
+
+  public async fetchModels(settings: Settings): Promise<string[]> {
+    const headers: Record<string, string> = {};
+    if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+    const response = await fetch(`${this.getBaseUrl(settings)}/models`, { headers });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return (data.data || []).map((m: any) => m.id);
+  }
+
+  public async complete(request: ProviderRequest): Promise<ProviderResult> {
+    const client = this.createClient(request.settings);
+    const response = await client.chat.completions.create(this.buildPayload(request), {
+      signal: request.signal,
+    });
+    const choice = response.choices[0];
+    return {
+      content: choice?.message?.content?.trim() || '',
+      truncated: choice?.finish_reason === 'length',
+    };
+  }
+
+  public async stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderResult> {
+    const client = this.createClient(request.settings);
+    const stream = await client.chat.completions.create(
+      { ...this.buildPayload(request), stream: true },
+      { signal: request.signal }
+    );
+
+    let fullContent = '';
+    let truncated = false;
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content || '';
+      if (token) {
+        fullContent += token;
+        onToken(token);
+      }
+      if (chunk.choices[0]?.finish_reason === 'length') {
+        truncated = true;
+      }
+    }
+    return { content: fullContent, truncated };
+  }
+
+  /** Shared by subclasses whose endpoint honours `n`; see OpenAIProvider. */
+  protected async streamMultipleChoices(
+    request: ProviderRequest,
+    count: number,
+    onToken: (choice: number, token: string) => void
+  ): Promise<ProviderResult[]> {
+    const client = this.createClient(request.settings);
+    const stream = await client.chat.completions.create(
+      { ...this.buildPayload(request), n: count, stream: true },
+      { signal: request.signal }
+    );
+
+    const results: ProviderResult[] = Array.from({ length: count }, () => ({ content: '', truncated: false }));
+    for await (const chunk of stream) {
+      chunk.choices.forEach((choice) => {
+        const result = results[choice.index];
+        if (!result) return;
+        const token = choice.delta?.content || '';
+        if (token) {
+          result.content += token;
+          onToken(choice.index, token);
+        }
+        if (choice.finish_reason === 'length') {
+          result.truncated = true;
+        }
+      });
+    }
+    return results;
+  }
+
+  protected buildPayload(request: ProviderRequest): AIRequestPayload {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0.2,
+      top_p: request.topP ?? 1,
+      presence_penalty: request.presencePenalty ?? 0.1,
+      frequency_penalty: request.frequencyPenalty ?? 0.1,
+      messages: request.messages,
+    };
+  }
+
+  private createClient(settings: Settings): OpenAI {
+    return new OpenAI({
+      // Local servers usually ignore the key, but the SDK refuses to start without one.
+      apiKey: settings.apiKey || 'not-needed',
+      baseURL: this.getBaseUrl(settings),
+      dangerouslyAllowBrowser: true,
+      // AIService retries with the user's policy and then tries the fallback models.
+      maxRetries: 0,
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { Settings } from '../../types';
+import { ProviderRequest, ProviderResult } from './provider';
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly id = 'openai' as const;
+  readonly label = 'OpenAI';
+  readonly defaultModel = 'gpt-4o-mini';
+  readonly modelExample = 'gpt-4o-mini';
+  readonly apiKeyUrl = 'https://platform.openai.com/api-keys';
+
+  protected getBaseUrl(): string {
+    return 'https://api.openai.com/v1';
+  }
+
+  public validateModel(model: string): string | null {
+    if (model.includes('/')) {
+      return 'OpenAI models should not include a provider prefix, e.g. "gpt-4o-mini".';
+    }
+    return null;
+  }
+
+  public streamChoices(
+    request: ProviderRequest,
+    count: number,
+    onToken: (choice: number, token: string) => void
+  ): Promise<ProviderResult[]> {
+    return this.streamMultipleChoices(request, count, onToken);
+  }
+
+  public async fetchModels(settings: Settings): Promise<string[]> {
+    const models = await super.fetchModels(settings);
+    // The list also contains embedding, audio and image models that cannot rewrite text.
+    return models.filter((id) => /^(gpt-|o\d|chatgpt-)/.test(id)).sort();
+  }
+}
@@ -0,0 +1,28 @@
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly id = 'openrouter' as const;
+  readonly label = 'OpenRouter';
+  readonly defaultModel = 'openai/gpt-4o-mini';
+  readonly modelExample = 'openai/gpt-4o-mini';
+  readonly apiKeyUrl = 'https://openrouter.ai/keys';
+
+  protected getBaseUrl(): string {
+    return 'https://openrouter.ai/api/v1';
+  }
+
+  public validateModel(model: string): string | null {
+    if (!model.includes('/')) {
+      return 'OpenRouter models should look like "provider/model".';
+    }
+    return null;
+  }
+
+  public async fetchModels(): Promise<string[]> {
+    // The OpenRouter model list is public, so no key is sent.
+    const response = await fetch(`${this.getBaseUrl()}/models`);
+    if (!response.ok) return [];
+    const data = await response.json();
+    return data.data.map((m: any) => m.id);
+  }
+}
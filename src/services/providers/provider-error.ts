@@ -0,0 +1,111 @@
+import { RewriteError, RewriteErrorCode } from '../../types';
+
+const RETRYABLE_CODES: RewriteErrorCode[] = ['rate-limited', 'network', 'server'];
+
+export class ProviderError extends Error {
+  readonly status?: number;
+  /** How long the server asked us to wait before trying again. */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    readonly code: RewriteErrorCode,
+    details: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+
+  toRewriteError(): RewriteError {
+    return { code: this.code, message: this.message };
+  }
+}
+
+type HeaderSource = Headers | Record<string, string | undefined> | null | undefined;
+
+const readHeader = (headers: HeaderSource, name: string): string | undefined => {
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  return (headers as Record<string, string | undefined>)[name];
+};
+
+/** Milliseconds from `retry-after-ms` or `Retry-After` (seconds or an HTTP date). */
+export const parseRetryAfter = (headers: HeaderSource, now: number = Date.now()): number | undefined => {
+  const milliseconds = readHeader(headers, 'retry-after-ms')?.trim();
+  if (milliseconds && /^\d+(\.\d+)?$/.test(milliseconds)) return Number(milliseconds);
+  const value = readHeader(headers, 'retry-after')?.trim();
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+};
+
+const QUOTA_CODES = ['insufficient_quota', 'billing_hard_limit_reached', 'billing_error'];
+const SAFETY_CODES = ['content_filter', 'content_policy_violation'];
+const CONTEXT_CODES = ['context_length_exceeded', 'string_above_max_length'];
+// Providers without an error code for it say so in the message (Gemini, local servers).
+const CONTEXT_MESSAGE = /context length|context window|maximum number of tokens|too many tokens|too long/i;
+// Gemini rejects a bad key with a 400 and says so only in the message.
+const INVALID_KEY_MESSAGE = /api key not valid|api_key_invalid|invalid api key|incorrect api key/i;
+
+/** Code of an HTTP failure, refined by the API's error code or message where it has one. */
+export const codeFromStatus = (status: number, code?: string | null, message = ''): RewriteErrorCode => {
+  if (code && QUOTA_CODES.includes(code)) return 'quota-exceeded';
+  if (code && SAFETY_CODES.includes(code)) return 'safety-blocked';
+  if (code && CONTEXT_CODES.includes(code)) return 'context-too-long';
+  if (code === 'model_not_found') return 'model-not-found';
+  if (status === 401 || status === 403 || INVALID_KEY_MESSAGE.test(message)) return 'invalid-key';
+  if (status === 402) return 'quota-exceeded';
+  if (status === 404) return 'model-not-found';
+  if (status === 413 || (status === 400 && CONTEXT_MESSAGE.test(message))) return 'context-too-long';
+  if (status === 429) return 'rate-limited';
+  if (status === 408 || status === 409 || status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Normalises whatever an adapter or SDK threw: `ProviderError`s pass through,
+ * errors with an HTTP `status` (OpenAI and Gemini SDKs) are classified by it,
+ * and failed connections count as network errors.
+ */
+export const classifyError = (error: unknown, providerLabel = 'the provider'): ProviderError => {
+  if (error instanceof ProviderError) return error;
+
+  const message = error instanceof Error ? error.message : `An unknown error occurred with ${providerLabel}`;
+  const details = (error && typeof error === 'object' ? error : {}) as {
+    name?: string;
+    status?: unknown;
+    code?: string | null;
+    headers?: HeaderSource;
+  };
+
+  if (typeof details.status === 'number') {
+    return new ProviderError(message, codeFromStatus(details.status, details.code, message), {
+      status: details.status,
+      retryAfterMs: parseRetryAfter(details.headers),
+    });
+  }
+  if (details.name === 'AbortError' || details.name === 'APIUserAbortError') {
+    return new ProviderError('The rewrite was cancelled.', 'cancelled');
+  }
+  // fetch rejects with a TypeError when the connection fails; the OpenAI SDK wraps it.
+  if (error instanceof TypeError || /^APIConnection(Timeout)?Error$/.test(details.name ?? '')) {
+    return new ProviderError(`Could not reach ${providerLabel}. Check your connection.`, 'network');
+  }
+  // Gemini reports blocked prompts and answers as response errors without a status.
+  if (/blocked due to|SAFETY|content.?(filter|policy)/i.test(message)) {
+    return new ProviderError(message, 'safety-blocked');
+  }
+  if (INVALID_KEY_MESSAGE.test(message)) {
+    return new ProviderError(message, 'invalid-key');
+  }
+  return new ProviderError(message, 'unknown');
+};
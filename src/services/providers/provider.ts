@@ -0,0 +1,47 @@
+import { GenerationParams, PromptMessage, Provider, Settings } from '../../types';
+
+/** Adapters map the parameters to their API and apply their own defaults to unset ones. */
+export interface ProviderRequest extends GenerationParams {
+  settings: Settings;
+  model: string;
+  messages: PromptMessage[];
+  maxTokens: number;
+  signal: AbortSignal;
+}
+
+export interface ProviderResult {
+  content: string;
+  /** The backend stopped because it reached `maxTokens`. */
+  truncated: boolean;
+}
+
+/**
+ * One adapter per backend. `AIService` resolves the adapter for the configured
+ * provider through the registry and never branches on the provider id itself.
+ */
+export interface ProviderAdapter {
+  readonly id: Provider;
+  readonly label: string;
+  readonly defaultModel: string;
+  readonly requiresApiKey: boolean;
+  readonly requiresBaseUrl: boolean;
+  /** Example model id shown in the popup help text. */
+  readonly modelExample: string;
+  /** Where users can create an API key, if the provider has a public page for it. */
+  readonly apiKeyUrl?: string;
+
+  validateModel(model: string): string | null;
+  fetchModels(settings: Settings): Promise<string[]>;
+  complete(request: ProviderRequest): Promise<ProviderResult>;
+  /** Streams tokens through `onToken` and resolves with the full text. */
+  stream(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderResult>;
+  /**
+   * Streams `count` alternative completions from a single request. Only set by
+   * backends with native support (OpenAI's `n`); others get parallel requests.
+   */
+  streamChoices?(
+    request: ProviderRequest,
+    count: number,
+    onToken: (choice: number, token: string) => void
+  ): Promise<ProviderResult[]>;
+}
@@ -0,0 +1,57 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Minimal `text/event-stream` reader for providers we talk to with plain fetch.
+ * Calls `onEvent` for every complete event; comments and `retry:` lines are ignored.
+ */
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach((line) => {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    });
+    if (data.length > 0) {
+      onEvent({ event, data: data.join('\n') });
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let separator = buffer.match(/\r?\n\r?\n/);
+      while (separator && separator.index !== undefined) {
+        const block = buffer.slice(0, separator.index);
+        buffer = buffer.slice(separator.index + separator[0].length);
+        dispatch(block);
+        separator = buffer.match(/\r?\n\r?\n/);
+      }
+    }
+  } catch (error) {
+    // Stop the underlying connection when a handler rejects an event or the read fails.
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
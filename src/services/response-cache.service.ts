@@ -0,0 +1,164 @@
+import { Provider } from '../types';
+
+export const RESPONSE_CACHE_INDEX_KEY = 'responseCacheIndex';
+const ENTRY_KEY_PREFIX = 'responseCache:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RESPONSE_CACHE_LIMITS = {
+  ttlMs: 7 * DAY_MS,
+  maxEntries: 200,
+  /** Total characters of cached responses. */
+  maxSize: 1_000_000,
+};
+
+/** A provider answer as it came back, before protected spans are restored. */
+export interface CachedResponse {
+  content: string;
+  truncated: boolean;
+  provider: Provider;
+  model: string;
+}
+
+export interface CacheIndexEntry {
+  createdAt: number;
+  lastUsedAt: number;
+  size: number;
+}
+
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+/**
+ * Keys to evict: expired entries first, then the least recently used until the
+ * rest fits within the entry and size caps.
+ */
+export const selectEvictions = (
+  index: CacheIndex,
+  limits: typeof RESPONSE_CACHE_LIMITS = RESPONSE_CACHE_LIMITS,
+  now: number = Date.now()
+): string[] => {
+  const expired = Object.keys(index).filter((key) => now - index[key].createdAt > limits.ttlMs);
+  const live = Object.entries(index)
+    .filter(([key]) => !expired.includes(key))
+    .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt);
+
+  const evicted = [...expired];
+  let size = 0;
+  live.forEach(([key, entry], position) => {
+    size += entry.size;
+    if (position >= limits.maxEntries || size > limits.maxSize) {
+      evicted.push(key);
+    }
+  });
+  return evicted;
+};
+
+/** SHA-256 of the JSON of `parts`, as hex. */
+export const hashCacheKey = async (parts: unknown): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Content-addressed cache of rewrite responses in `chrome.storage.local`, so
+ * re-running the same request does not pay for it again. Each response is
+ * stored under its own key; a small index drives TTL and LRU eviction.
+ */
+export class ResponseCacheService {
+  private static instance: ResponseCacheService;
+  // Index updates are read-modify-write, so they run one after another.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): ResponseCacheService {
+    if (!ResponseCacheService.instance) {
+      ResponseCacheService.instance = new ResponseCacheService();
+    }
+    return ResponseCacheService.instance;
+  }
+
+  /** A hit refreshes the entry's last use; expired entries are not returned. */
+  public async get(key: string): Promise<CachedResponse | null> {
+    return this.enqueue(async () => {
+      const index = await this.readIndex();
+      const entry = index[key];
+      if (!entry || Date.now() - entry.createdAt > RESPONSE_CACHE_LIMITS.ttlMs) return null;
+
+      const response = (await this.read([ENTRY_KEY_PREFIX + key]))[ENTRY_KEY_PREFIX + key] as
+        | CachedResponse
+        | undefined;
+      if (!response) return null;
+      await this.write({ [RESPONSE_CACHE_INDEX_KEY]: { ...index, [key]: { ...entry, lastUsedAt: Date.now() } } });
+      return response;
+    });
+  }
+
+  public async set(key: string, response: CachedResponse): Promise<void> {
+    await this.enqueue(async () => {
+      const now = Date.now();
+      const index: CacheIndex = {
+        ...(await this.readIndex()),
+        [key]: { createdAt: now, lastUsedAt: now, size: response.content.length },
+      };
+      const evicted = selectEvictions(index, RESPONSE_CACHE_LIMITS, now);
+      evicted.forEach((evictedKey) => delete index[evictedKey]);
+
+      await this.remove(evicted.map((evictedKey) => ENTRY_KEY_PREFIX + evictedKey));
+      if (index[key]) {
+        await this.write({ [ENTRY_KEY_PREFIX + key]: response, [RESPONSE_CACHE_INDEX_KEY]: index });
+      } else {
+        await this.write({ [RESPONSE_CACHE_INDEX_KEY]: index });
+      }
+    });
+  }
+
+  public async getStats(): Promise<{ entries: number; size: number }> {
+    const index = await this.readIndex();
+    const entries = Object.values(index);
+    return { entries: entries.length, size: entries.reduce((total, entry) => total + entry.size, 0) };
+  }
+
+  public async clear(): Promise<void> {
+    await this.enqueue(async () => {
+      const index = await this.readIndex();
+      await this.remove([RESPONSE_CACHE_INDEX_KEY, ...Object.keys(index).map((key) => ENTRY_KEY_PREFIX + key)]);
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readIndex(): Promise<CacheIndex> {
+    const index = (await this.read([RESPONSE_CACHE_INDEX_KEY]))[RESPONSE_CACHE_INDEX_KEY];
+    return index && typeof index === 'object' ? (index as CacheIndex) : {};
+  }
+
+  private async read(keys: string[]): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => {
+      chrome.storage.local.get(keys, (result) => {
+        resolve(result);
+      });
+    });
+  }
+
+  private async write(items: Record<string, unknown>): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.local.set(items, () => {
+        resolve();
+      });
+    });
+  }
+
+  private async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    return new Promise((resolve) => {
+      chrome.storage.local.remove(keys, () => {
+        resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { RetryPolicy } from '../types';
+import { ProviderError, classifyError } from './providers/provider-error';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Delay before retry number `attempt` (0-based): the server's Retry-After when
+ * it sent one, otherwise exponential backoff with jitter, so clients that failed
+ * together do not retry together. `null` when the wait would exceed the policy.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number | null => {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+  }
+  const backoff = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+};
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+export const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` until it succeeds, retrying rate limits, server and network
+ * errors under `policy`. Stops at once when `signal` aborts, and never retries
+ * once `canRetry` says the attempt already had visible effects (e.g. streamed
+ * tokens). Rejects with the last error, classified.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  {
+    policy,
+    signal,
+    providerLabel,
+    canRetry = () => true,
+  }: { policy: RetryPolicy; signal: AbortSignal; providerLabel?: string; canRetry?: () => boolean }
+): Promise<T> => {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      const failure: ProviderError = classifyError(error, providerLabel);
+      if (signal.aborted || !failure.retryable || attempt >= policy.maxRetries || !canRetry()) {
+        throw failure;
+      }
+      const delay = getRetryDelay(attempt, policy, failure.retryAfterMs);
+      if (delay === null) throw failure;
+      await sleep(delay, signal);
+      if (signal.aborted) throw failure;
+    }
+  }
+};
@@ -0,0 +1,5 @@
+/**
+ * Name of the port the side panel opens to the background. Its rewrites stream
+ * back over that port, and closing the panel disconnects it, which cancels them.
+ */
+export const SIDE_PANEL_PORT = 'side-panel';
@@ -1,4 +1,17 @@
-import { Provider, Settings } from '../types';
+import {
+  Appearance,
+  FallbackModel,
+  PanelSource,
+  Provider,
+  RetryPolicy,
+  RewriteAction,
+  SettingsProfile,
+  StoredSettings,
+} from '../types';
+import { CARD_PLACEMENTS, DEFAULT_APPEARANCE, UI_THEMES, isHexColor } from '../utils/theme';
+import { CommandBindings } from './commands';
+import { DEFAULT_REWRITE_ACTIONS } from './default-actions';
+import { DEFAULT_RETRY_POLICY } from './retry';
 
 interface ModelCacheEntry {
   models: string[];
@@ -8,6 +21,19 @@ interface ModelCacheEntry {
 type ModelCache = Partial<Record<Provider, ModelCacheEntry>>;
 
 const MODEL_CACHE_KEY = 'modelCache';
+export const ACTIONS_KEY = 'rewriteActions';
+const COMMAND_BINDINGS_KEY = 'commandBindings';
+export const PROFILES_KEY = 'settingsProfiles';
+export const ACTIVE_PROFILE_KEY = 'activeProfileId';
+const GLOSSARY_KEY = 'glossary';
+const RETRY_POLICY_KEY = 'retryPolicy';
+const FALLBACK_CHAIN_KEY = 'fallbackChain';
+export const APPEARANCE_KEY = 'appearance';
+export const PANEL_SOURCE_KEY = 'panelSource';
+const DEFAULT_PROFILE_ID = 'default';
+
+/** Settings shared by every profile. */
+export type GeneralSettings = Pick<StoredSettings, 'variantCount' | 'preserveFormatting'>;
 
 export class StorageService {
   private static instance: StorageService;
@@ -21,26 +47,124 @@ export class StorageService {
     return StorageService.instance;
   }
 
-  public async getSettings(): Promise<Settings> {
+  /**
+   * Resolves the settings of `profileId`, or of the active profile when it is
+   * unset or unknown. API keys live in `KeyVaultService`, not here.
+   */
+  public async getSettings(profileId?: string): Promise<StoredSettings> {
+    const [profile, general] = await Promise.all([
+      this.getProfile(profileId),
+      new Promise<GeneralSettings>((resolve) => {
+        chrome.storage.sync.get(['variantCount', 'preserveFormatting'], (result) => resolve(result));
+      }),
+    ]);
+    return {
+      provider: profile.provider,
+      model: profile.model || '',
+      baseUrl: profile.baseUrl || '',
+      variantCount: general.variantCount || 1,
+      preserveFormatting: general.preserveFormatting ?? false,
+      profileId: profile.id,
+      keyRef: profile.keyRef,
+      temperature: profile.temperature,
+      maxTokens: profile.maxTokens,
+      topP: profile.topP,
+      presencePenalty: profile.presencePenalty,
+      frequencyPenalty: profile.frequencyPenalty,
+      systemPrompt: profile.systemPrompt,
+    };
+  }
+
+  public async saveSettings(settings: GeneralSettings): Promise<void> {
     return new Promise((resolve) => {
-      chrome.storage.sync.get(['apiKey', 'provider', 'model'], (result) => {
-        resolve({
-          apiKey: result.apiKey || '',
-          provider: result.provider || 'openrouter',
-          model: result.model || '',
-        });
+      chrome.storage.sync.set(settings, () => {
+        resolve();
       });
     });
   }
 
-  public async saveSettings(settings: Settings): Promise<void> {
+  /**
+   * Until the first profile is saved, a "Default" profile is built from the
+   * provider, model and base URL that earlier versions stored directly.
+   */
+  public async getProfiles(): Promise<SettingsProfile[]> {
     return new Promise((resolve) => {
-      chrome.storage.sync.set(settings, () => {
+      chrome.storage.sync.get([PROFILES_KEY, 'provider', 'model', 'baseUrl'], (result) => {
+        const profiles = result[PROFILES_KEY] as SettingsProfile[] | undefined;
+        if (Array.isArray(profiles) && profiles.length > 0) {
+          resolve(profiles);
+          return;
+        }
+        resolve([
+          {
+            id: DEFAULT_PROFILE_ID,
+            name: 'Default',
+            provider: result.provider || 'openrouter',
+            model: result.model || '',
+            baseUrl: result.baseUrl || '',
+          },
+        ]);
+      });
+    });
+  }
+
+  public async saveProfiles(profiles: SettingsProfile[]): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [PROFILES_KEY]: profiles }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** Inserts `profile`, or replaces the stored profile with the same id. */
+  public async saveProfile(profile: SettingsProfile): Promise<void> {
+    const profiles = await this.getProfiles();
+    const index = profiles.findIndex((item) => item.id === profile.id);
+    if (index === -1) {
+      profiles.push(profile);
+    } else {
+      profiles[index] = profile;
+    }
+    await this.saveProfiles(profiles);
+  }
+
+  /** The last profile cannot be deleted. */
+  public async deleteProfile(id: string): Promise<void> {
+    const profiles = await this.getProfiles();
+    const remaining = profiles.filter((profile) => profile.id !== id);
+    if (remaining.length === 0) return;
+    await this.saveProfiles(remaining);
+    if ((await this.getActiveProfileId()) === id) {
+      await this.setActiveProfileId(remaining[0].id);
+    }
+  }
+
+  public async getActiveProfileId(): Promise<string | undefined> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([ACTIVE_PROFILE_KEY], (result) => {
+        resolve(result[ACTIVE_PROFILE_KEY]);
+      });
+    });
+  }
+
+  public async setActiveProfileId(id: string): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [ACTIVE_PROFILE_KEY]: id }, () => {
         resolve();
       });
     });
   }
 
+  /** `id`'s profile, else the active one, else the first. */
+  public async getProfile(id?: string): Promise<SettingsProfile> {
+    const [profiles, activeId] = await Promise.all([this.getProfiles(), this.getActiveProfileId()]);
+    return (
+      profiles.find((profile) => profile.id === id) ??
+      profiles.find((profile) => profile.id === activeId) ??
+      profiles[0]
+    );
+  }
+
   public async getModelCache(provider: Provider): Promise<ModelCacheEntry | null> {
     return new Promise((resolve) => {
       chrome.storage.local.get([MODEL_CACHE_KEY], (result) => {
@@ -68,6 +192,157 @@ export class StorageService {
     });
   }
 
+  public async getActions(): Promise<RewriteAction[]> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([ACTIONS_KEY], (result) => {
+        const actions = result[ACTIONS_KEY] as RewriteAction[] | undefined;
+        resolve(
+          Array.isArray(actions) ? actions : DEFAULT_REWRITE_ACTIONS.map((action) => ({ ...action }))
+        );
+      });
+    });
+  }
+
+  public async saveActions(actions: RewriteAction[]): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [ACTIONS_KEY]: actions }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** Drops the customised list so `getActions` falls back to the built-in defaults. */
+  public async resetActions(): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.remove(ACTIONS_KEY, () => {
+        resolve();
+      });
+    });
+  }
+
+  public async getCommandBindings(): Promise<CommandBindings> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([COMMAND_BINDINGS_KEY], (result) => {
+        resolve((result[COMMAND_BINDINGS_KEY] as CommandBindings) || {});
+      });
+    });
+  }
+
+  public async saveCommandBindings(bindings: CommandBindings): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [COMMAND_BINDINGS_KEY]: bindings }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** Terms (e.g. product names) that rewrites must keep exactly as written. */
+  public async getGlossary(): Promise<string[]> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([GLOSSARY_KEY], (result) => {
+        const glossary = result[GLOSSARY_KEY] as string[] | undefined;
+        resolve(Array.isArray(glossary) ? glossary : []);
+      });
+    });
+  }
+
+  public async saveGlossary(terms: string[]): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [GLOSSARY_KEY]: terms }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** The stored policy, with defaults for anything unset. */
+  public async getRetryPolicy(): Promise<RetryPolicy> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([RETRY_POLICY_KEY], (result) => {
+        const policy = result[RETRY_POLICY_KEY] as Partial<RetryPolicy> | undefined;
+        resolve({ ...DEFAULT_RETRY_POLICY, ...(policy && typeof policy === 'object' ? policy : {}) });
+      });
+    });
+  }
+
+  public async saveRetryPolicy(policy: RetryPolicy): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [RETRY_POLICY_KEY]: policy }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** Provider/model pairs tried in order when the primary model fails. */
+  public async getFallbackChain(): Promise<FallbackModel[]> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([FALLBACK_CHAIN_KEY], (result) => {
+        const chain = result[FALLBACK_CHAIN_KEY] as FallbackModel[] | undefined;
+        resolve(Array.isArray(chain) ? chain : []);
+      });
+    });
+  }
+
+  public async saveFallbackChain(chain: FallbackModel[]): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [FALLBACK_CHAIN_KEY]: chain }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** Theme, accent colour and card placement of the in-page UI; invalid stored values fall back to the defaults. */
+  public async getAppearance(): Promise<Appearance> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.get([APPEARANCE_KEY], (result) => {
+        const stored = (result[APPEARANCE_KEY] ?? {}) as Partial<Appearance>;
+        resolve({
+          theme: stored.theme && UI_THEMES.includes(stored.theme) ? stored.theme : DEFAULT_APPEARANCE.theme,
+          accentColor:
+            typeof stored.accentColor === 'string' && isHexColor(stored.accentColor)
+              ? stored.accentColor
+              : DEFAULT_APPEARANCE.accentColor,
+          cardPlacement:
+            stored.cardPlacement && CARD_PLACEMENTS.includes(stored.cardPlacement)
+              ? stored.cardPlacement
+              : DEFAULT_APPEARANCE.cardPlacement,
+        });
+      });
+    });
+  }
+
+  public async saveAppearance(appearance: Appearance): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.sync.set({ [APPEARANCE_KEY]: appearance }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** The text last sent to the side panel. Session storage, so it is gone when the browser closes. */
+  public async getPanelSource(): Promise<PanelSource | null> {
+    return new Promise((resolve) => {
+      chrome.storage.session.get([PANEL_SOURCE_KEY], (result) => {
+        resolve((result[PANEL_SOURCE_KEY] as PanelSource | undefined) ?? null);
+      });
+    });
+  }
+
+  public async savePanelSource(source: PanelSource): Promise<void> {
+    return new Promise((resolve) => {
+      chrome.storage.session.set({ [PANEL_SOURCE_KEY]: source }, () => {
+        resolve();
+      });
+    });
+  }
+
+  /** Marks the panel source as no longer the page's text; see `PanelSource.detached`. */
+  public async detachPanelSource(): Promise<void> {
+    const source = await this.getPanelSource();
+    if (source && !source.detached) {
+      await this.savePanelSource({ ...source, detached: true });
+    }
+  }
+
   public async clearSettings(): Promise<void> {
     return new Promise((resolve) => {
       chrome.storage.sync.clear(() => {
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { composeResult, EditorState, getWorkspaceTarget } from '../workspace';
+
+const editor = (value: string, selectionStart = 0, selectionEnd = selectionStart): EditorState => ({
+  value,
+  selectionStart,
+  selectionEnd,
+});
+
+describe('workspace', () => {
+  it('runs on the part selected in the editor used last', () => {
+    const editors = { source: editor('One. Two. Three.', 5, 9), result: editor('Uno. Dos.', 0, 4) };
+
+    expect(getWorkspaceTarget(editors, 'source')).toEqual({
+      editor: 'source',
+      text: 'Two.',
+      before: 'One. ',
+      after: ' Three.',
+    });
+    expect(getWorkspaceTarget(editors, 'result')).toEqual({ editor: 'result', text: 'Uno.', before: '', after: ' Dos.' });
+  });
+
+  it('falls back to the whole source without a selection', () => {
+    const editors = { source: editor('One. Two.', 3), result: editor('Uno.', 4) };
+
+    expect(getWorkspaceTarget(editors, 'result')).toEqual({ editor: 'source', text: 'One. Two.', before: '', after: '' });
+    expect(getWorkspaceTarget({ source: editor('  '), result: editor('') }, 'source')).toBeNull();
+  });
+
+  it('puts the rewrite back between the untouched text', () => {
+    const target = { editor: 'source' as const, text: ' Two.\n', before: 'One.', after: 'Three.' };
+
+    expect(composeResult(target, '2.\n')).toBe('One. 2.\nThree.');
+    expect(composeResult({ editor: 'source', text: 'Hi', before: '', after: '' }, '')).toBe('');
+  });
+});
@@ -0,0 +1,323 @@
+import { SIDE_PANEL_PORT } from '../services/side-panel';
+import {
+  ACTIONS_KEY,
+  ACTIVE_PROFILE_KEY,
+  PANEL_SOURCE_KEY,
+  PROFILES_KEY,
+  StorageService,
+} from '../services/storage.service';
+import { Message, PanelSource } from '../types';
+import { composeResult, getWorkspaceTarget, WorkspaceEditor, WorkspaceTarget } from './workspace';
+import '../popup/popup.css';
+import './sidepanel.css';
+
+interface PanelRun {
+  target: WorkspaceTarget;
+  /** The result editor's text before the run, restored when it fails. */
+  previous: string;
+  output: string;
+  requestId?: string;
+}
+
+/**
+ * The side panel workspace: a source and a result editor for longer sessions.
+ * Rewrites stream from the background over the panel's port, and the result
+ * goes back to the page field the source came from.
+ */
+class SidePanelUI {
+  private storageService: StorageService;
+  private port: chrome.runtime.Port | null = null;
+  private source: PanelSource | null = null;
+  private run: PanelRun | null = null;
+  private lastFocused: WorkspaceEditor = 'source';
+
+  private profileSelect: HTMLSelectElement;
+  private statusElement: HTMLDivElement;
+  private sourceEditor: HTMLTextAreaElement;
+  private sourceOrigin: HTMLParagraphElement;
+  private actionButtons: HTMLDivElement;
+  private instructionInput: HTMLInputElement;
+  private runInstructionBtn: HTMLButtonElement;
+  private resultEditor: HTMLTextAreaElement;
+  private resultSource: HTMLParagraphElement;
+  private stopBtn: HTMLButtonElement;
+  private applyToPageBtn: HTMLButtonElement;
+
+  constructor() {
+    this.storageService = StorageService.getInstance();
+    this.profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+    this.statusElement = document.getElementById('status') as HTMLDivElement;
+    this.sourceEditor = document.getElementById('sourceEditor') as HTMLTextAreaElement;
+    this.sourceOrigin = document.getElementById('sourceOrigin') as HTMLParagraphElement;
+    this.actionButtons = document.getElementById('actionButtons') as HTMLDivElement;
+    this.instructionInput = document.getElementById('instructionInput') as HTMLInputElement;
+    this.runInstructionBtn = document.getElementById('runInstructionBtn') as HTMLButtonElement;
+    this.resultEditor = document.getElementById('resultEditor') as HTMLTextAreaElement;
+    this.resultSource = document.getElementById('resultSource') as HTMLParagraphElement;
+    this.stopBtn = document.getElementById('stopBtn') as HTMLButtonElement;
+    this.applyToPageBtn = document.getElementById('applyToPageBtn') as HTMLButtonElement;
+
+    this.setupEventListeners();
+    void this.loadProfiles();
+    void this.loadActions();
+    void this.storageService.getPanelSource().then((source) => this.loadSource(source));
+    this.updateButtons();
+  }
+
+  private setupEventListeners(): void {
+    this.sourceEditor.addEventListener('focus', () => (this.lastFocused = 'source'));
+    this.resultEditor.addEventListener('focus', () => (this.lastFocused = 'result'));
+    this.resultEditor.addEventListener('input', () => this.updateButtons());
+
+    this.runInstructionBtn.addEventListener('click', () => this.runInstruction());
+    this.instructionInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.runInstruction();
+      }
+    });
+
+    document.getElementById('usePageSelectionBtn')?.addEventListener('click', () => {
+      this.getPort().postMessage({ type: 'CAPTURE_PAGE_SELECTION', payload: {} } as Message);
+    });
+    this.stopBtn.addEventListener('click', () => {
+      this.getPort().postMessage({ type: 'STREAM_CANCEL', payload: {} } as Message);
+    });
+    document.getElementById('copyResultBtn')?.addEventListener('click', () => this.copyResult());
+    document.getElementById('useAsSourceBtn')?.addEventListener('click', () => {
+      if (this.run || !this.resultEditor.value.trim()) return;
+      // The result can still go back to the page's field, but the panel's text is no longer the page's.
+      void this.storageService.detachPanelSource();
+      this.sourceEditor.value = this.resultEditor.value;
+      this.resultEditor.value = '';
+      this.resultSource.hidden = true;
+      this.lastFocused = 'source';
+      this.updateButtons();
+    });
+    this.applyToPageBtn.addEventListener('click', () => this.applyToPage());
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'session' && changes[PANEL_SOURCE_KEY]) {
+        this.loadSource((changes[PANEL_SOURCE_KEY].newValue as PanelSource | undefined) ?? null);
+      }
+      if (areaName === 'sync' && (changes[PROFILES_KEY] || changes[ACTIVE_PROFILE_KEY])) {
+        void this.loadProfiles();
+      }
+      if (areaName === 'sync' && changes[ACTIONS_KEY]) {
+        void this.loadActions();
+      }
+    });
+  }
+
+  // Connected on first use; a restarted service worker drops the port, so it reconnects lazily.
+  private getPort(): chrome.runtime.Port {
+    if (!this.port) {
+      const port = chrome.runtime.connect({ name: SIDE_PANEL_PORT });
+      port.onMessage.addListener((message: Message) => this.handleMessage(message));
+      port.onDisconnect.addListener(() => {
+        this.port = null;
+        if (this.run) this.failRun('The rewrite was interrupted. Please try again.');
+      });
+      this.port = port;
+    }
+    return this.port;
+  }
+
+  private async loadProfiles(): Promise<void> {
+    const [profiles, activeId] = await Promise.all([
+      this.storageService.getProfiles(),
+      this.storageService.getActiveProfileId(),
+    ]);
+    const selected = this.profileSelect.value;
+    const active = profiles.find((profile) => profile.id === activeId);
+
+    this.profileSelect.replaceChildren(
+      // Empty means what the page would use: the action's own profile, else the active one.
+      new Option(active ? `Default (${active.name})` : 'Default profile', ''),
+      ...profiles.map(
+        (profile) => new Option(`${profile.name} · ${profile.model || profile.provider}`, profile.id)
+      )
+    );
+    this.profileSelect.value = profiles.some((profile) => profile.id === selected) ? selected : '';
+  }
+
+  private async loadActions(): Promise<void> {
+    const actions = (await this.storageService.getActions()).filter((action) => action.enabled);
+    this.actionButtons.replaceChildren(
+      ...actions.map((action) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = action.title;
+        button.title = action.instruction;
+        button.addEventListener('click', () => this.startRun({ actionId: action.id }));
+        return button;
+      })
+    );
+    this.updateButtons();
+  }
+
+  private loadSource(source: PanelSource | null): void {
+    if (!source || source.detached) return;
+    if (this.run) {
+      this.getPort().postMessage({ type: 'STREAM_CANCEL', payload: {} } as Message);
+      this.run = null;
+    }
+    this.source = source;
+    this.sourceEditor.value = source.text;
+    this.resultEditor.value = '';
+    this.resultSource.hidden = true;
+    this.sourceOrigin.textContent = `From ${source.pageTitle || 'the page'}`;
+    this.sourceOrigin.hidden = false;
+    this.lastFocused = 'source';
+    this.updateButtons();
+  }
+
+  private runInstruction(): void {
+    const instruction = this.instructionInput.value.trim();
+    if (!instruction) {
+      this.instructionInput.focus();
+      return;
+    }
+    this.startRun({ instruction });
+  }
+
+  private startRun(request: { actionId?: string; instruction?: string }): void {
+    if (this.run) return;
+    const target = getWorkspaceTarget(
+      {
+        source: this.getEditorState(this.sourceEditor),
+        result: this.getEditorState(this.resultEditor),
+      },
+      this.lastFocused
+    );
+    if (!target) {
+      this.showStatus('Type or paste some text first.', 'error');
+      this.sourceEditor.focus();
+      return;
+    }
+
+    this.run = { target, previous: this.resultEditor.value, output: '' };
+    this.resultEditor.value = composeResult(target, '');
+    this.resultSource.hidden = true;
+    this.updateButtons();
+    this.getPort().postMessage({
+      type: 'REWRITE_SELECTED_TEXT',
+      payload: { text: target.text, ...request, profileId: this.profileSelect.value || undefined },
+    } as Message);
+  }
+
+  private getEditorState(editor: HTMLTextAreaElement) {
+    return { value: editor.value, selectionStart: editor.selectionStart, selectionEnd: editor.selectionEnd };
+  }
+
+  private handleMessage(message: Message): void {
+    if (message.type === 'SHOW_ERROR') {
+      this.showStatus(message.payload.error ?? 'Something went wrong.', 'error');
+      return;
+    }
+
+    const run = this.run;
+    if (!run) return;
+    if (message.type === 'STREAM_START') {
+      run.requestId = message.payload.requestId;
+      return;
+    }
+    if (message.payload.requestId !== run.requestId) return;
+
+    switch (message.type) {
+      case 'STREAM_TOKEN':
+        run.output += message.payload.token ?? '';
+        this.resultEditor.value = composeResult(run.target, run.output);
+        break;
+      case 'STREAM_END': {
+        const source = message.payload.source;
+        if (source) {
+          this.resultSource.textContent = `Written by ${source.providerLabel} · ${source.model}${
+            source.fallback ? ' (fallback)' : ''
+          }`;
+          this.resultSource.hidden = false;
+        }
+        // Stopped before anything arrived: keep what the editor had.
+        if (!run.output.trim()) this.resultEditor.value = run.previous;
+        if (message.payload.truncated) {
+          this.showStatus('The result hit the length limit and may be cut off.', 'error');
+        }
+        this.run = null;
+        this.updateButtons();
+        break;
+      }
+      case 'STREAM_ERROR':
+        this.failRun(message.payload.error ?? 'Failed to rewrite text. Please try again.');
+        break;
+    }
+  }
+
+  private failRun(error: string): void {
+    if (this.run) this.resultEditor.value = this.run.previous;
+    this.run = null;
+    this.showStatus(error, 'error');
+    this.updateButtons();
+  }
+
+  private updateButtons(): void {
+    const running = this.run !== null;
+    this.actionButtons.querySelectorAll('button').forEach((button) => (button.disabled = running));
+    this.runInstructionBtn.disabled = running;
+    this.stopBtn.hidden = !running;
+    this.resultEditor.readOnly = running;
+    this.applyToPageBtn.disabled = running || !this.source || !this.resultEditor.value.trim();
+    this.applyToPageBtn.title = this.source ? '' : 'Send a selection from the page to apply the result back to it.';
+  }
+
+  private async copyResult(): Promise<void> {
+    if (!this.resultEditor.value) return;
+    try {
+      await navigator.clipboard.writeText(this.resultEditor.value);
+      this.showStatus('Copied to clipboard.', 'success');
+    } catch (error) {
+      this.showStatus('Could not copy the result.', 'error');
+    }
+  }
+
+  private async applyToPage(): Promise<void> {
+    const source = this.source;
+    const text = this.resultEditor.value;
+    if (!source || !text.trim()) return;
+
+    let applied = false;
+    try {
+      const response = (await chrome.tabs.sendMessage(
+        source.tabId,
+        { type: 'APPLY_PANEL_RESULT', payload: { text } } as Message,
+        { frameId: source.frameId }
+      )) as { applied?: boolean };
+      applied = Boolean(response?.applied);
+    } catch (error) {
+      // The tab was closed or navigated away.
+    }
+
+    if (!applied) {
+      this.showStatus('The page field is gone or has changed. Copy the result instead.', 'error');
+      return;
+    }
+    // The page no longer holds that selection; the next round starts from a new one.
+    this.source = null;
+    void this.storageService.detachPanelSource();
+    this.sourceOrigin.textContent = `Applied to ${source.pageTitle || 'the page'}`;
+    this.showStatus('Applied to the page.', 'success');
+    this.updateButtons();
+  }
+
+  private showStatus(message: string, type: 'success' | 'error'): void {
+    this.statusElement.textContent = message;
+    this.statusElement.className = `status ${type}`;
+    setTimeout(() => {
+      this.statusElement.textContent = '';
+      this.statusElement.className = 'status';
+    }, 3000);
+  }
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  new SidePanelUI();
+});
@@ -0,0 +1,44 @@
+export type WorkspaceEditor = 'source' | 'result';
+
+export interface EditorState {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/** The text an action rewrites, and the text around it that stays as it is. */
+export interface WorkspaceTarget {
+  editor: WorkspaceEditor;
+  text: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * What the next action runs on: the part selected in the editor used last, or
+ * the whole source when nothing is selected there. Null when there is no text.
+ */
+export const getWorkspaceTarget = (
+  editors: Record<WorkspaceEditor, EditorState>,
+  lastFocused: WorkspaceEditor
+): WorkspaceTarget | null => {
+  const { value, selectionStart, selectionEnd } = editors[lastFocused];
+  const start = Math.min(selectionStart, selectionEnd);
+  const end = Math.max(selectionStart, selectionEnd);
+  const selected = value.slice(start, end);
+  if (selected.trim()) {
+    return { editor: lastFocused, text: selected, before: value.slice(0, start), after: value.slice(end) };
+  }
+  const source = editors.source.value;
+  return source.trim() ? { editor: 'source', text: source, before: '', after: '' } : null;
+};
+
+/**
+ * The result editor's text for a rewrite of `target`. Models trim their output,
+ * so the whitespace around a selected part is put back to keep it in its paragraph.
+ */
+export const composeResult = ({ text, before, after }: WorkspaceTarget, output: string): string => {
+  const leading = /^\s*/.exec(text)?.[0] ?? '';
+  const trailing = /\s*$/.exec(text)?.[0] ?? '';
+  return `${before}${leading}${output.trim()}${trailing}${after}`;
+};
@@ -1,17 +1,165 @@
-export type Provider = 'openrouter' | 'gemini';
+export type Provider = 'openrouter' | 'openai' | 'anthropic' | 'openai-compatible' | 'gemini';
 
-export interface Settings {
+/**
+ * Sampling and length controls. Unset values fall back to the profile, then to
+ * provider defaults; an unset `maxTokens` is derived from the input length.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  /** Ignored by providers without penalties (Anthropic). */
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export interface Settings extends GenerationParams {
+  /** Resolved per provider from the encrypted key vault; never written to sync storage. */
   apiKey: string;
   provider: Provider;
   model?: string;
+  /** Only used by the OpenAI-compatible provider, e.g. "http://localhost:1234/v1". */
+  baseUrl?: string;
+  /** How many alternative rewrites to generate at once; 1 disables variants. */
+  variantCount?: number;
+  /** Send formatted selections as HTML and insert the result with its formatting. */
+  preserveFormatting?: boolean;
+  /** The profile these settings were resolved from, and its extras. */
+  profileId?: string;
+  keyRef?: string;
+  systemPrompt?: string;
+}
+
+/** A named provider/key/model/prompt bundle; the active one supplies the Settings. */
+export interface SettingsProfile extends GenerationParams {
+  id: string;
+  name: string;
+  provider: Provider;
+  model?: string;
+  baseUrl?: string;
+  /** Key vault slot for this profile; unset uses the key shared by every profile of the provider. */
+  keyRef?: string;
+  /** Replaces the built-in editor system prompt when set. */
+  systemPrompt?: string;
+}
+
+/** Settings without the key, as resolved from `chrome.storage.sync`. */
+export type StoredSettings = Omit<Settings, 'apiKey'>;
+
+export interface RewriteAction extends GenerationParams {
+  id: string;
+  title: string;
+  instruction: string;
+  enabled: boolean;
+  /** Optional overrides; when unset the action uses the provider, model and parameters from Settings. */
+  provider?: Provider;
+  model?: string;
+  /** Runs the action with this profile instead of the active one. */
+  profileId?: string;
 }
 
 export interface AIResponse {
   success: boolean;
   content: string;
-  error?: string;
+  error?: RewriteError;
   isStreaming?: boolean;
-  errorHandled?: boolean;
+  /** The provider and model that produced `content`. */
+  provider?: Provider;
+  model?: string;
+  /** The response stopped at the max tokens limit, so `content` is cut off. */
+  truncated?: boolean;
+  /** Protected spans the model dropped or repeated. */
+  spanIssues?: ProtectedSpanIssues;
+}
+
+/** Why a rewrite failed; decides how the card offers to recover. */
+export type RewriteErrorCode =
+  | 'missing-key'
+  | 'missing-base-url'
+  | 'vault-locked'
+  | 'invalid-key'
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'model-not-found'
+  | 'context-too-long'
+  | 'safety-blocked'
+  | 'network'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+export interface RewriteError {
+  code: RewriteErrorCode;
+  /** Shown to the user as is. */
+  message: string;
+}
+
+/** The provider and model that actually produced a result. */
+export interface ResultSource {
+  provider: Provider;
+  /** Display name of the provider, e.g. "Anthropic". */
+  providerLabel: string;
+  model: string;
+  /** Set when the primary model failed and an entry of the fallback chain answered. */
+  fallback?: boolean;
+}
+
+/** How often and how patiently failed requests are retried before the fallback chain takes over. */
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for every further one. */
+  baseDelayMs: number;
+  /** Upper bound for one delay; a longer Retry-After moves on to the fallbacks instead. */
+  maxDelayMs: number;
+}
+
+/** A provider/model pair tried, in order, when the primary one keeps failing. */
+export interface FallbackModel {
+  provider: Provider;
+  /** Unset uses the provider's default model. */
+  model?: string;
+}
+
+/** Colour scheme of the in-page UI; `auto` follows the page, or the OS when the page has no background. */
+export type UITheme = 'auto' | 'light' | 'dark';
+
+/** `modal` centres the card over a dimmed page; `inline` anchors it next to the selection. */
+export type CardPlacement = 'modal' | 'inline';
+
+export interface Appearance {
+  theme: UITheme;
+  /** Hex colour of primary buttons, the selected variant and focus rings, e.g. "#3d8fd9". */
+  accentColor: string;
+  cardPlacement: CardPlacement;
+}
+
+/** Protected spans (code, URLs, placeholders, glossary terms) a rewrite did not keep intact. */
+export interface ProtectedSpanIssues {
+  missing: string[];
+  duplicated: string[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  originalText: string;
+  rewrittenText: string;
+  /** The other variants generated with `rewrittenText` by the same request. */
+  variants?: string[];
+  actionId?: string;
+  actionTitle: string;
+  provider?: Provider;
+  model?: string;
+  pageUrl?: string;
+  pageTitle?: string;
+  createdAt: number;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  maxEntries: number;
+  /** Entries older than this are dropped; 0 keeps them forever. */
+  retentionDays: number;
 }
 
 export interface Message {
@@ -26,30 +174,120 @@ export interface Message {
     | 'STREAM_CANCEL'
     | 'GET_SELECTED_TEXT'
     | 'GET_LAST_SELECTION'
-    | 'REWRITE_SELECTED_TEXT';
+    | 'REWRITE_SELECTED_TEXT'
+    | 'REGENERATE_VARIANT'
+    | 'REFINE_REWRITE'
+    | 'RETRY_CHUNK'
+    | 'OPEN_ACTION_PICKER'
+    | 'APPLY_SUGGESTION'
+    | 'CANCEL_REWRITE'
+    | 'OPEN_SETTINGS'
+    | 'FRAME_FOCUSED'
+    | 'CAPTURE_FOR_PANEL'
+    | 'CAPTURE_PAGE_SELECTION'
+    | 'APPLY_PANEL_RESULT'
+    | 'RERUN_HISTORY_ENTRY';
   payload: {
     text?: string;
     error?: string;
+    /** Sent with STREAM_ERROR so the card can offer the right way out. */
+    errorCode?: RewriteErrorCode;
     selectedText?: string;
     token?: string;
+    /** Rewrite action chosen in the picker, or a free-text instruction that overrides it. */
+    actionId?: string;
+    instruction?: string;
+    /** Profile to rewrite with instead of the active one. */
+    profileId?: string;
+    /** Identifies one rewrite (tab + frame + nonce) so stream events reach only their owner. */
+    requestId?: string;
+    /**
+     * Index of the variant a stream event belongs to. STREAM_END and STREAM_ERROR
+     * without it end the whole request.
+     */
+    variant?: number;
+    /** Number of variants announced by STREAM_START. */
+    variantCount?: number;
+    /** Earlier results and follow-up instructions that continue the rewrite conversation. */
+    refinements?: PromptMessage[];
+    /** Marks a STREAM_START that refines the card's current result instead of replacing it. */
+    isRefinement?: boolean;
+    /** Set on STREAM_END when the result hit the max tokens limit. */
+    truncated?: boolean;
+    /** Set on STREAM_END when the result dropped or repeated protected spans. */
+    spanIssues?: ProtectedSpanIssues;
+    /** Set on STREAM_END: the provider and model that produced the result. */
+    source?: ResultSource;
+    /**
+     * Sections of a long selection, announced by STREAM_START. Stream events that
+     * carry `chunk` belong to that section; RETRY_CHUNK redoes one of them.
+     */
+    chunks?: TextChunk[];
+    chunk?: number;
+    /** `html` when `text` is a formatted selection serialised to the rich-text subset. */
+    format?: TextFormat;
+    /** History entry that RERUN_HISTORY_ENTRY rewrites again with `actionId`. */
+    entryId?: string;
   };
 }
 
+export type TextFormat = 'text' | 'html';
+
+/** Text sent from a page to the side panel, and the frame its result goes back to. */
+export interface PanelSource {
+  text: string;
+  tabId: number;
+  frameId: number;
+  pageTitle?: string;
+  pageUrl?: string;
+  /** Set when the page is in an incognito window; the panel's rewrites then stay out of the history. */
+  incognito?: boolean;
+  /**
+   * Set once the result went back to the page or the panel's text was replaced. The panel
+   * no longer loads it and its rewrites no longer count as the page's, though `incognito` still holds.
+   */
+  detached?: boolean;
+}
+
+/** A section of a long selection, rewritten on its own and joined back with `separator`. */
+export interface TextChunk {
+  text: string;
+  /** The whitespace that followed the chunk in the original text. */
+  separator: string;
+}
+
+export interface PromptMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
 export interface AIRequestPayload {
   model: string;
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
+  messages: PromptMessage[];
   max_tokens?: number;
   temperature?: number;
   top_p?: number;
   presence_penalty?: number;
   frequency_penalty?: number;
+  n?: number;
 }
 
 export interface StreamCallbacks {
   onToken: (token: string) => void;
-  onComplete: () => void;
-  onError: (error: string) => void;
+  onComplete: (truncated?: boolean, spanIssues?: ProtectedSpanIssues, source?: ResultSource) => void;
+  onError: (error: RewriteError) => void;
+}
+
+/** Like StreamCallbacks, but every event names the chunk it belongs to. */
+export interface ChunkStreamCallbacks {
+  onToken: (chunk: number, token: string) => void;
+  onComplete: (chunk: number, truncated?: boolean, spanIssues?: ProtectedSpanIssues, source?: ResultSource) => void;
+  onError: (chunk: number, error: RewriteError) => void;
+}
+
+/** Like StreamCallbacks, but every event names the variant it belongs to. */
+export interface VariantStreamCallbacks {
+  onToken: (variant: number, token: string) => void;
+  onComplete: (variant: number, truncated?: boolean, spanIssues?: ProtectedSpanIssues, source?: ResultSource) => void;
+  onError: (variant: number, error: RewriteError) => void;
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createSpanMasker } from '../protected-spans';
+
+describe('createSpanMasker', () => {
+  it('masks code, URLs, emails, placeholders and glossary terms', () => {
+    const masker = createSpanMasker(['Acme Cloud']);
+    const text =
+      'Hi {{name}}, run `npm ci` and see https://example.com/docs?a=1. ' +
+      'Mail ops@acme.io about Acme Cloud (%s, 50% off).';
+
+    const masked = masker.mask(text, true);
+
+    expect(masked).toBe('Hi ⟦1⟧, run ⟦2⟧ and see ⟦3⟧. Mail ⟦4⟧ about ⟦5⟧ (⟦6⟧, 50% off).');
+    expect(masker.restore(masked)).toEqual({ text, issues: undefined });
+  });
+
+  it('matches glossary terms as whole, case-sensitive words', () => {
+    const masker = createSpanMasker(['Rewriter']);
+
+    expect(masker.mask('Rewriter, rewriter and Rewriters')).toBe('⟦1⟧, rewriter and Rewriters');
+  });
+
+  it('reports dropped and repeated spans', () => {
+    const masker = createSpanMasker();
+    masker.mask('Call {a} then {b}.', true);
+
+    expect(masker.restore('Call ⟦1⟧ then ⟦1⟧.')).toEqual({
+      text: 'Call {a} then {a}.',
+      issues: { missing: ['{b}'], duplicated: ['{a}'] },
+    });
+  });
+
+  it('restores tokens split across streamed pieces', () => {
+    const masker = createSpanMasker();
+    masker.mask('See `x` and `y`.', true);
+    const output: string[] = [];
+    const restorer = masker.createStreamRestorer((text) => output.push(text));
+
+    ['Look at ⟦', '1', '⟧ and ⟦2', '⟧', ' now ⟦'].forEach((piece) => restorer.push(piece));
+    restorer.flush();
+
+    expect(output.join('')).toBe('Look at `x` and `y` now ⟦');
+    expect(output.every((piece) => !/⟦\d+⟧/.test(piece))).toBe(true);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { RewriteErrorCode } from '../../types';
+import { getErrorActions, getErrorTitle } from '../rewrite-errors';
+
+describe('rewrite error actions', () => {
+  it('offers the settings for key and configuration problems', () => {
+    expect(getErrorActions('missing-key')).toEqual(['open-settings']);
+    expect(getErrorActions('invalid-key')[0]).toBe('open-settings');
+    expect(getErrorTitle('missing-base-url')).toBe('Server URL missing');
+  });
+
+  it('offers a retry for transient failures and a shorter selection for long ones', () => {
+    expect(getErrorActions('network')).toEqual(['retry']);
+    expect(getErrorActions('rate-limited')).toContain('retry');
+    expect(getErrorActions('context-too-long')).toEqual(['shorten-selection', 'switch-model']);
+    expect(getErrorActions('cancelled')).toEqual([]);
+  });
+
+  it('falls back to the generic error for missing or unknown codes', () => {
+    expect(getErrorTitle()).toBe('Rewrite failed');
+    expect(getErrorActions('not-a-code' as RewriteErrorCode)).toEqual(getErrorActions('unknown'));
+  });
+});
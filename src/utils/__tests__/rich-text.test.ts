@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { extractHrefs, richTextToPlainText, sanitizeRichText } from '../rich-text';
+
+describe('sanitizeRichText', () => {
+  it('keeps allowlisted tags and drops attributes, unknown tags and scripts', () => {
+    const html =
+      '<p class="x" onclick="steal()"><strong style="color:red">Bold</strong> and <span>plain</span>' +
+      '<img src=x onerror=alert(1)></p><script>alert(1)</script><ul><li>One</li></ul>';
+
+    expect(sanitizeRichText(html, [])).toBe('<p><strong>Bold</strong> and plain</p><ul><li>One</li></ul>');
+  });
+
+  it('keeps original hrefs exactly and restores ones the model changed', () => {
+    const original = '<a href="https://example.com/a?x=1&amp;y=2">first</a> <a href="/docs#intro">second</a>';
+    const hrefs = extractHrefs(original);
+    expect(hrefs).toEqual(['https://example.com/a?x=1&y=2', '/docs#intro']);
+
+    const output = '<a href="https://example.com/a?x=1&amp;y=2">1st</a> and <a href="https://example.com/docs">2nd</a>';
+
+    expect(sanitizeRichText(output, hrefs)).toBe(
+      '<a href="https://example.com/a?x=1&amp;y=2">1st</a> and <a href="/docs#intro">2nd</a>'
+    );
+  });
+
+  it('unwraps links it cannot match and never allows script URLs', () => {
+    expect(sanitizeRichText('<a href="https://evil.test">text</a> more', ['https://a.test', 'https://b.test'])).toBe(
+      'text more'
+    );
+    expect(sanitizeRichText('<a href="javascript:alert(1)">x</a>', ['javascript:alert(1)'])).toBe('x');
+  });
+
+  it('escapes stray markup characters and strips a code fence', () => {
+    expect(sanitizeRichText('```html\n<b>1 < 2 & 3</b>\n```', [])).toBe('<b>1 &lt; 2 &amp; 3</b>');
+  });
+});
+
+describe('richTextToPlainText', () => {
+  it('turns blocks, breaks and list items into lines', () => {
+    const html = '<p>Hello <b>world</b></p>\n<ul><li>One</li><li>Two &amp; three</li></ul><p>a<br>b</p>';
+
+    expect(richTextToPlainText(html)).toBe('Hello world\n\n- One\n- Two & three\n\na\nb');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { joinChunks, splitIntoChunks } from '../text-chunks';
+import { estimateTokens } from '../token-estimator';
+import { TextChunk } from '../../types';
+
+const rebuild = (chunks: TextChunk[]) => chunks.map((chunk) => chunk.text + chunk.separator).join('');
+
+const sentence = (index: number) => `This is sentence number ${index} of the test article.`;
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token for space-separated text', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello world!')).toBe(3);
+  });
+
+  it('counts CJK characters one by one', () => {
+    expect(estimateTokens('你好世界')).toBe(4);
+    expect(estimateTokens('日本語 text')).toBe(5);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps short text in a single chunk', () => {
+    expect(splitIntoChunks('  Short text.\n', 100)).toEqual([{ text: 'Short text.', separator: '' }]);
+  });
+
+  it('packs whole paragraphs and keeps the breaks between them', () => {
+    const paragraphs = Array.from({ length: 6 }, (_, index) => sentence(index));
+    const text = paragraphs.join('\n\n');
+
+    const chunks = splitIntoChunks(text, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(rebuild(chunks)).toBe(text);
+    chunks.forEach((chunk) => {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(30);
+      expect(chunk.text.startsWith('This')).toBe(true);
+    });
+    expect(chunks.slice(0, -1).every((chunk) => chunk.separator === '\n\n')).toBe(true);
+  });
+
+  it('splits an oversized paragraph at sentence ends', () => {
+    const text = Array.from({ length: 8 }, (_, index) => sentence(index)).join(' ');
+
+    const chunks = splitIntoChunks(text, 40);
+
+    expect(rebuild(chunks)).toBe(text);
+    chunks.forEach((chunk) => {
+      expect(chunk.text).toMatch(/^This .*article\.$/);
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(40);
+    });
+  });
+
+  it('falls back to words, then characters, for text without sentence breaks', () => {
+    const words = Array.from({ length: 50 }, (_, index) => `word${index}`).join(' ');
+    const wordChunks = splitIntoChunks(words, 10);
+    expect(rebuild(wordChunks)).toBe(words);
+    expect(wordChunks.every((chunk) => estimateTokens(chunk.text) <= 10)).toBe(true);
+
+    const blob = 'x'.repeat(200);
+    const blobChunks = splitIntoChunks(blob, 10);
+    expect(rebuild(blobChunks)).toBe(blob);
+    expect(blobChunks.every((chunk) => estimateTokens(chunk.text) <= 10)).toBe(true);
+  });
+});
+
+describe('joinChunks', () => {
+  it('reassembles outputs in order with the original separators', () => {
+    const chunks: TextChunk[] = [
+      { text: 'First.', separator: '\n\n' },
+      { text: 'Second.', separator: ' ' },
+      { text: 'Third.', separator: '' },
+    ];
+
+    expect(joinChunks(chunks, ['\nOne.\n\n', 'Two.', ' Three. '])).toBe('One.\n\nTwo. Three.');
+  });
+
+  it('leaves a gap for outputs that are missing', () => {
+    const chunks: TextChunk[] = [
+      { text: 'First.', separator: '\n' },
+      { text: 'Second.', separator: '' },
+    ];
+
+    expect(joinChunks(chunks, ['One.'])).toBe('One.\n');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getContrastColor, isHexColor, parseColor, resolveTheme } from '../theme';
+
+describe('theme', () => {
+  it('parses hex colours and computed rgb() values', () => {
+    expect(parseColor('#3d8fd9')).toEqual([61, 143, 217, 1]);
+    expect(parseColor('#fff')).toEqual([255, 255, 255, 1]);
+    expect(parseColor('rgb(20, 20, 20)')).toEqual([20, 20, 20, 1]);
+    expect(parseColor('rgba(0, 0, 0, 0)')).toEqual([0, 0, 0, 0]);
+    expect(parseColor('transparent')).toBeNull();
+    expect(isHexColor('#12345')).toBe(false);
+  });
+
+  it('follows the page background, or the OS when the page has none', () => {
+    expect(resolveTheme('auto', { pageBackground: 'rgb(18, 18, 18)', prefersDark: false })).toBe('dark');
+    expect(resolveTheme('auto', { pageBackground: 'rgb(255, 255, 255)', prefersDark: true })).toBe('light');
+    expect(resolveTheme('auto', { pageBackground: 'rgba(0, 0, 0, 0)', prefersDark: true })).toBe('dark');
+    expect(resolveTheme('auto', { pageBackground: null, prefersDark: false })).toBe('light');
+    expect(resolveTheme('light', { pageBackground: 'rgb(0, 0, 0)', prefersDark: true })).toBe('light');
+  });
+
+  it('picks readable text for the accent', () => {
+    expect(getContrastColor('#3d8fd9')).toBe('#fff');
+    expect(getContrastColor('#ffd54f')).toBe('#000');
+  });
+});
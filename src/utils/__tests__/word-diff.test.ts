@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DiffPart, diffWords, tokenizeWords } from '../word-diff';
+
+const rebuild = (parts: DiffPart[], side: 'before' | 'after') =>
+  parts
+    .filter((part) => part.type === 'equal' || part.type === (side === 'before' ? 'delete' : 'insert'))
+    .map((part) => part.value)
+    .join('');
+
+describe('tokenizeWords', () => {
+  it('keeps words, whitespace and punctuation as separate tokens', () => {
+    expect(tokenizeWords("Don't stop, e-mail me.\n")).toEqual([
+      "Don't",
+      ' ',
+      'stop',
+      ',',
+      ' ',
+      'e-mail',
+      ' ',
+      'me',
+      '.',
+      '\n',
+    ]);
+  });
+});
+
+describe('diffWords', () => {
+  it('returns a single equal part for identical text', () => {
+    expect(diffWords('Same text here.', 'Same text here.')).toEqual([
+      { type: 'equal', value: 'Same text here.' },
+    ]);
+  });
+
+  it('reports replaced words as a deletion followed by an insertion', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox')).toEqual([
+      { type: 'equal', value: 'The ' },
+      { type: 'delete', value: 'quick' },
+      { type: 'insert', value: 'slow' },
+      { type: 'equal', value: ' brown fox' },
+    ]);
+  });
+
+  it('handles pure insertions and deletions', () => {
+    expect(diffWords('We received it.', 'We have received it.')).toEqual([
+      { type: 'equal', value: 'We ' },
+      { type: 'insert', value: 'have ' },
+      { type: 'equal', value: 'received it.' },
+    ]);
+    expect(diffWords('abc', '')).toEqual([{ type: 'delete', value: 'abc' }]);
+    expect(diffWords('', 'abc')).toEqual([{ type: 'insert', value: 'abc' }]);
+  });
+
+  it('merges adjacent changed words separated only by a space', () => {
+    expect(diffWords('one two three four', 'one five six four')).toEqual([
+      { type: 'equal', value: 'one ' },
+      { type: 'delete', value: 'two three' },
+      { type: 'insert', value: 'five six' },
+      { type: 'equal', value: ' four' },
+    ]);
+  });
+
+  it('reconstructs both texts for long, heavily edited inputs within the time budget', () => {
+    const words = Array.from({ length: 4000 }, (_, i) => `word${i % 97}`);
+    const before = words.join(' ');
+    const after = words.map((word, i) => (i % 7 === 0 ? `changed${i}` : word)).join(' ');
+
+    const started = Date.now();
+    const parts = diffWords(before, after, { timeoutMs: 500 });
+
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(rebuild(parts, 'before')).toBe(before);
+    expect(rebuild(parts, 'after')).toBe(after);
+    expect(parts.some((part) => part.type === 'equal')).toBe(true);
+  });
+
+  it('falls back to a coarse but correct diff when the timeout is exhausted', () => {
+    const before = Array.from({ length: 500 }, (_, i) => `a${i}`).join(' ');
+    const after = Array.from({ length: 500 }, (_, i) => `b${i}`).join(' ');
+
+    const parts = diffWords(before, after, { timeoutMs: 0 });
+
+    expect(rebuild(parts, 'before')).toBe(before);
+    expect(rebuild(parts, 'after')).toBe(after);
+  });
+});
@@ -0,0 +1,114 @@
+import { ProtectedSpanIssues } from '../types';
+
+// Alternatives are tried left to right at each position, so longer forms come first.
+const DETECTORS = [
+  /```[\s\S]*?```/, // fenced code
+  /`[^`\n]+`/, // inline code
+  /\b(?:https?:\/\/|www\.)[^\s<>"'`]*[^\s<>"'`.,;:!?)\]]/, // URLs
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/, // email addresses
+  /\{\{[^{}\n]*\}\}|\$\{[^{}\n]*\}|\{[\w.]+\}/, // {{name}}, ${name}, {name}, {0}
+  /%(?:\d+\$|\([\w]+\))?[-+0#]*\d*(?:\.\d+)?[sdifgxXeEcoubp](?![A-Za-z])/, // printf: %s, %1$d, %(name)s
+].map((pattern) => pattern.source);
+
+const TOKEN_PATTERN = /⟦(\d+)⟧/g;
+// A token the stream has only partly delivered, e.g. "⟦1".
+const PARTIAL_TOKEN_PATTERN = /⟦\d*$/;
+
+export const PROTECTED_SPANS_PROMPT =
+  'Markers such as ⟦1⟧ stand for text that must not change (code, links, placeholders, names). Keep every marker exactly as written, once each, where it belongs in the rewritten text.';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface SpanMasker {
+  /** Number of distinct protected spans found so far. */
+  readonly size: number;
+  /**
+   * Replaces every protected span with its token (the same span always gets
+   * the same token). With `counted`, `restore` expects the tokens back exactly
+   * as often as they occur here.
+   */
+  mask(text: string, counted?: boolean): string;
+  /** Puts the spans back and reports tokens the model dropped or repeated. */
+  restore(text: string): { text: string; issues?: ProtectedSpanIssues };
+  /**
+   * Restores a streamed answer piece by piece. A token split across pieces is
+   * held back until it is complete; call `flush` once the stream ends.
+   */
+  createStreamRestorer(onText: (text: string) => void): { push(piece: string): void; flush(): void };
+}
+
+/**
+ * Masks code, URLs, email addresses, template placeholders and the glossary's
+ * terms (whole words, case-sensitive) so the model cannot reword them.
+ */
+export const createSpanMasker = (glossary: string[] = []): SpanMasker => {
+  const terms = glossary
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => `(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`);
+  const pattern = new RegExp([...DETECTORS, ...terms].join('|'), 'gu');
+
+  const spans: string[] = [];
+  const tokens = new Map<string, number>();
+  const expected: number[] = [];
+
+  const replaceTokens = (text: string): string =>
+    text.replace(TOKEN_PATTERN, (token, index) => spans[Number(index) - 1] ?? token);
+
+  return {
+    get size() {
+      return spans.length;
+    },
+
+    mask(text, counted = false) {
+      return text.replace(pattern, (span) => {
+        let index = tokens.get(span);
+        if (index === undefined) {
+          spans.push(span);
+          index = spans.length;
+          tokens.set(span, index);
+        }
+        if (counted) expected[index - 1] = (expected[index - 1] ?? 0) + 1;
+        return `⟦${index}⟧`;
+      });
+    },
+
+    restore(text) {
+      const seen: number[] = [];
+      for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const index = Number(match[1]) - 1;
+        seen[index] = (seen[index] ?? 0) + 1;
+      }
+      const missing: string[] = [];
+      const duplicated: string[] = [];
+      expected.forEach((count, index) => {
+        const found = seen[index] ?? 0;
+        if (found < count) missing.push(spans[index]);
+        if (found > count) duplicated.push(spans[index]);
+      });
+      const issues = missing.length > 0 || duplicated.length > 0 ? { missing, duplicated } : undefined;
+      return { text: replaceTokens(text), issues };
+    },
+
+    createStreamRestorer(onText) {
+      let pending = '';
+      const emit = (text: string) => {
+        if (text) onText(replaceTokens(text));
+      };
+      return {
+        push(piece) {
+          pending += piece;
+          const partial = pending.match(PARTIAL_TOKEN_PATTERN);
+          const end = partial ? pending.length - partial[0].length : pending.length;
+          emit(pending.slice(0, end));
+          pending = pending.slice(end);
+        },
+        flush() {
+          emit(pending);
+          pending = '';
+        },
+      };
+    },
+  };
+};
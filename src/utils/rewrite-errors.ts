@@ -0,0 +1,50 @@
+import { RewriteErrorCode } from '../types';
+
+/** A way out of a failed rewrite that the suggestion card offers as a button. */
+export type ErrorAction = 'open-settings' | 'retry' | 'switch-model' | 'shorten-selection';
+
+export const ERROR_ACTION_LABELS: Record<ErrorAction, string> = {
+  'open-settings': 'Open settings',
+  retry: 'Retry',
+  'switch-model': 'Switch model',
+  'shorten-selection': 'Shorten selection',
+};
+
+const ERROR_TITLES: Record<RewriteErrorCode, string> = {
+  'missing-key': 'API key missing',
+  'missing-base-url': 'Server URL missing',
+  'vault-locked': 'API keys locked',
+  'invalid-key': 'API key rejected',
+  'rate-limited': 'Rate limited',
+  'quota-exceeded': 'Out of credits',
+  'model-not-found': 'Model not found',
+  'context-too-long': 'Selection too long',
+  'safety-blocked': 'Blocked by the safety filter',
+  network: 'Connection failed',
+  server: 'Provider unavailable',
+  cancelled: 'Cancelled',
+  unknown: 'Rewrite failed',
+};
+
+// Most useful first; the first action gets the focus.
+const ERROR_ACTIONS: Record<RewriteErrorCode, ErrorAction[]> = {
+  'missing-key': ['open-settings'],
+  'missing-base-url': ['open-settings'],
+  'vault-locked': ['open-settings', 'retry'],
+  'invalid-key': ['open-settings', 'switch-model'],
+  'rate-limited': ['retry', 'switch-model'],
+  'quota-exceeded': ['switch-model', 'open-settings'],
+  'model-not-found': ['switch-model', 'open-settings'],
+  'context-too-long': ['shorten-selection', 'switch-model'],
+  'safety-blocked': ['retry', 'switch-model'],
+  network: ['retry'],
+  server: ['retry', 'switch-model'],
+  cancelled: [],
+  unknown: ['retry', 'open-settings'],
+};
+
+export const getErrorTitle = (code: RewriteErrorCode = 'unknown'): string => ERROR_TITLES[code] ?? ERROR_TITLES.unknown;
+
+/** The recovery buttons for an error; codes from newer versions get the generic ones. */
+export const getErrorActions = (code: RewriteErrorCode = 'unknown'): ErrorAction[] =>
+  ERROR_ACTIONS[code] ?? ERROR_ACTIONS.unknown;
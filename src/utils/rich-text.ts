@@ -0,0 +1,184 @@
+/** Tags kept when formatted text is sent to the model and when its answer is inserted. */
+export const RICH_TEXT_TAGS = new Set([
+  'a',
+  'b',
+  'blockquote',
+  'br',
+  'code',
+  'del',
+  'div',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'i',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  's',
+  'strong',
+  'sub',
+  'sup',
+  'u',
+  'ul',
+]);
+
+/** Tags that start a new line in plain text. */
+export const BLOCK_TAGS = new Set([
+  'blockquote',
+  'div',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'ul',
+]);
+
+// Dropped together with everything inside them.
+const DROPPED_TAGS = new Set([
+  'head',
+  'iframe',
+  'noscript',
+  'object',
+  'script',
+  'style',
+  'template',
+  'textarea',
+  'title',
+]);
+
+const SAFE_URL_PATTERN = /^(?:https?:|mailto:|tel:|[#/?.]|[^:]*$)/i;
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const HREF_PATTERN = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/i;
+const ENTITY_PATTERN = /&(?:#(\d+)|#x([0-9a-f]+)|(amp|lt|gt|quot|apos|nbsp));/gi;
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const decodeEntities = (text: string): string =>
+  text.replace(ENTITY_PATTERN, (entity, decimal, hex, name) => {
+    if (name) return NAMED_ENTITIES[name.toLowerCase()];
+    const codePoint = decimal ? Number(decimal) : parseInt(hex, 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+
+const readHref = (attributes: string): string | undefined => {
+  const match = attributes.match(HREF_PATTERN);
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3]);
+};
+
+interface HtmlToken {
+  type: 'text' | 'open' | 'close';
+  value: string;
+  tag?: string;
+  attributes?: string;
+}
+
+/** Splits HTML into text and tags; comments are skipped and stray `<` stays text. */
+const tokenize = (html: string): HtmlToken[] => {
+  const tokens: HtmlToken[] = [];
+  let start = 0;
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > start) tokens.push({ type: 'text', value: html.slice(start, index) });
+    start = index + match[0].length;
+    if (!match[2]) continue;
+    tokens.push({
+      type: match[1] ? 'close' : 'open',
+      value: match[0],
+      tag: match[2].toLowerCase(),
+      attributes: match[3],
+    });
+  }
+  if (start < html.length) tokens.push({ type: 'text', value: html.slice(start) });
+  return tokens;
+};
+
+/** Yields the tokens outside dropped tags such as `<script>`. */
+const visibleTokens = (html: string): HtmlToken[] => {
+  const tokens: HtmlToken[] = [];
+  let dropping: string | null = null;
+  for (const token of tokenize(html)) {
+    if (dropping) {
+      if (token.type === 'close' && token.tag === dropping) dropping = null;
+      continue;
+    }
+    if (token.type === 'open' && DROPPED_TAGS.has(token.tag ?? '')) {
+      dropping = token.tag ?? null;
+      continue;
+    }
+    tokens.push(token);
+  }
+  return tokens;
+};
+
+/** The href of every link in `html`, in document order. */
+export const extractHrefs = (html: string): string[] =>
+  visibleTokens(html)
+    .filter((token) => token.type === 'open' && token.tag === 'a')
+    .map((token) => readHref(token.attributes ?? '') ?? '');
+
+// Models like to wrap markup in a ```html fence.
+const stripCodeFence = (text: string): string =>
+  text.replace(/^\s*```[a-z]*\s*\n([\s\S]*?)\n?\s*```\s*$/i, '$1');
+
+/**
+ * Reduces model output to `RICH_TEXT_TAGS`, without any attribute except a
+ * link's href. Hrefs must come from `originalHrefs`, so links keep exactly the
+ * address they had on the page: an href the model changed falls back to the
+ * original link at the same position, and a link without one is unwrapped.
+ * Text is escaped, so the result is safe to parse into the page.
+ */
+export const sanitizeRichText = (html: string, originalHrefs: string[]): string => {
+  const tokens = visibleTokens(stripCodeFence(html));
+  const linkCount = tokens.filter((token) => token.type === 'open' && token.tag === 'a').length;
+  const allowed = new Set(originalHrefs.filter((href) => SAFE_URL_PATTERN.test(href.trim())));
+  const openLinks: boolean[] = [];
+  let linkIndex = 0;
+
+  return tokens
+    .map((token) => {
+      if (token.type === 'text') return escapeHtml(decodeEntities(token.value));
+      const tag = token.tag ?? '';
+      if (!RICH_TEXT_TAGS.has(tag)) return '';
+      if (tag === 'br') return token.type === 'open' ? '<br>' : '';
+
+      if (tag !== 'a') return token.type === 'open' ? `<${tag}>` : `</${tag}>`;
+      if (token.type === 'close') return openLinks.pop() ? '</a>' : '';
+
+      const href = readHref(token.attributes ?? '');
+      const positional = linkCount === originalHrefs.length ? originalHrefs[linkIndex] : undefined;
+      linkIndex += 1;
+      const resolved = href !== undefined && allowed.has(href) ? href : positional;
+      const keep = resolved !== undefined && allowed.has(resolved);
+      openLinks.push(keep);
+      return keep ? `<a href="${escapeHtml(resolved)}">` : '';
+    })
+    .join('');
+};
+
+/** Readable plain text for `html`: one line per block, list items as "- ". */
+export const richTextToPlainText = (html: string): string =>
+  visibleTokens(html)
+    .map((token) => {
+      if (token.type === 'text') return decodeEntities(token.value.replace(/\s+/g, ' '));
+      if (token.tag === 'br') return '\n';
+      if (token.tag === 'li') return token.type === 'open' ? '\n- ' : '';
+      return BLOCK_TAGS.has(token.tag ?? '') ? '\n' : '';
+    })
+    .join('')
+    .replace(/[^\S\n]*\n[^\S\n]*/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
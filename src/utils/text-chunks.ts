@@ -0,0 +1,94 @@
+import { TextChunk } from '../types';
+import { estimateTokens } from './token-estimator';
+
+const PARAGRAPH_PATTERN = /\n[^\S\n]*\n\s*/g;
+// A sentence ends at ., ! or ? (optionally followed by closing quotes or brackets) and whitespace.
+const SENTENCE_PATTERN = /(?<=[.!?…。！？]["'”’)\]]*)\s+/g;
+const WORD_PATTERN = /\s+/g;
+
+/** Splits `text` after every match of `pattern`, keeping the matched whitespace as the separator. */
+const splitKeepingSeparators = (text: string, pattern: RegExp): TextChunk[] => {
+  const pieces: TextChunk[] = [];
+  let start = 0;
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index ?? 0;
+    if (end > start) {
+      pieces.push({ text: text.slice(start, end), separator: match[0] });
+    } else if (pieces.length > 0) {
+      pieces[pieces.length - 1].separator += match[0];
+    }
+    start = end + match[0].length;
+  }
+  if (start < text.length) {
+    pieces.push({ text: text.slice(start), separator: '' });
+  }
+  return pieces;
+};
+
+/** Breaks a piece over budget at sentences, then at words, then hard at characters. */
+const splitOversized = (piece: TextChunk, maxTokens: number, level: number): TextChunk[] => {
+  if (estimateTokens(piece.text) <= maxTokens) return [piece];
+
+  const pattern = [SENTENCE_PATTERN, WORD_PATTERN][level];
+  if (!pattern) {
+    // Iterate code points so a surrogate pair is never cut in half.
+    const chars = Array.from(piece.text);
+    const size = Math.max(maxTokens, 1);
+    const parts: TextChunk[] = [];
+    for (let index = 0; index < chars.length; index += size) {
+      parts.push({ text: chars.slice(index, index + size).join(''), separator: '' });
+    }
+    parts[parts.length - 1].separator = piece.separator;
+    return parts;
+  }
+
+  const parts = splitKeepingSeparators(piece.text, pattern);
+  if (parts.length === 0) return [piece];
+  parts[parts.length - 1].separator += piece.separator;
+  return packPieces(parts.flatMap((part) => splitOversized(part, maxTokens, level + 1)), maxTokens);
+};
+
+/** Greedily merges consecutive pieces while the result stays within `maxTokens`. */
+const packPieces = (pieces: TextChunk[], maxTokens: number): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last && estimateTokens(last.text + last.separator + piece.text) <= maxTokens) {
+      last.text += last.separator + piece.text;
+      last.separator = piece.separator;
+    } else {
+      chunks.push({ ...piece });
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Splits `text` into chunks of at most `maxTokens` (estimated), preferring
+ * paragraph breaks, then sentence ends, then spaces. Leading and trailing
+ * whitespace is dropped; the whitespace between chunks is kept as each chunk's
+ * `separator`, so `chunks.map((c) => c.text + c.separator).join('')` gives the
+ * trimmed text back.
+ */
+export const splitIntoChunks = (text: string, maxTokens: number): TextChunk[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const paragraphs = splitKeepingSeparators(trimmed, PARAGRAPH_PATTERN);
+  return packPieces(
+    paragraphs.flatMap((paragraph) => splitOversized(paragraph, maxTokens, 0)),
+    maxTokens
+  );
+};
+
+/**
+ * Puts rewritten chunks back together in order with the original separators.
+ * Each output is trimmed, since models tend to add or drop surrounding blank lines.
+ */
+export const joinChunks = (chunks: TextChunk[], outputs: string[]): string =>
+  chunks
+    .map((chunk, index) => {
+      const output = outputs[index]?.trim() ?? '';
+      return index < chunks.length - 1 ? output + chunk.separator : output;
+    })
+    .join('');
@@ -0,0 +1,64 @@
+import { Appearance, CardPlacement, UITheme } from '../types';
+
+export const DEFAULT_APPEARANCE: Appearance = {
+  theme: 'auto',
+  accentColor: '#3d8fd9',
+  cardPlacement: 'modal',
+};
+
+export const UI_THEMES: UITheme[] = ['auto', 'light', 'dark'];
+export const CARD_PLACEMENTS: CardPlacement[] = ['modal', 'inline'];
+
+type Rgba = [number, number, number, number];
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const RGB_COLOR = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i;
+
+export const isHexColor = (value: string): boolean => HEX_COLOR.test(value.trim());
+
+/** Reads `#rgb`, `#rrggbb` and the `rgb()`/`rgba()` values `getComputedStyle` returns. */
+export const parseColor = (value: string): Rgba | null => {
+  const color = value.trim();
+  if (HEX_COLOR.test(color)) {
+    const hex = color.length === 4 ? color.replace(/[0-9a-f]/gi, (digit) => digit + digit) : color;
+    return [
+      parseInt(hex.slice(1, 3), 16),
+      parseInt(hex.slice(3, 5), 16),
+      parseInt(hex.slice(5, 7), 16),
+      1,
+    ];
+  }
+  const match = RGB_COLOR.exec(color);
+  if (!match) return null;
+  const alpha = match[4] === undefined ? 1 : parseFloat(match[4]) / (match[4].endsWith('%') ? 100 : 1);
+  return [Number(match[1]), Number(match[2]), Number(match[3]), alpha];
+};
+
+/** Relative luminance as defined by WCAG, from 0 (black) to 1 (white). */
+export const getLuminance = ([r, g, b]: Rgba): number => {
+  const channel = (value: number) => {
+    const srgb = value / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+/** Text colour for a filled accent: white unless the accent is a light colour. */
+export const getContrastColor = (background: string): string => {
+  const rgba = parseColor(background);
+  return rgba && getLuminance(rgba) > 0.45 ? '#000' : '#fff';
+};
+
+/**
+ * The scheme the UI is drawn in. `auto` matches the page background where the
+ * page paints one; a transparent page shows the browser canvas, which follows the OS.
+ */
+export const resolveTheme = (
+  theme: UITheme,
+  { pageBackground, prefersDark }: { pageBackground?: string | null; prefersDark: boolean }
+): 'light' | 'dark' => {
+  if (theme !== 'auto') return theme;
+  const rgba = pageBackground ? parseColor(pageBackground) : null;
+  if (rgba && rgba[3] > 0) return getLuminance(rgba) < 0.4 ? 'dark' : 'light';
+  return prefersDark ? 'dark' : 'light';
+};
@@ -0,0 +1,13 @@
+// Scripts without spaces between words come out at roughly one token per character.
+const WIDE_CHAR_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/gu;
+
+/**
+ * Rough token count for budgeting requests, without shipping a tokenizer: about
+ * four characters per token for space-separated text and one per character for
+ * CJK and Thai. Errs slightly high so budgets stay on the safe side.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const wideChars = text.match(WIDE_CHAR_PATTERN)?.length ?? 0;
+  return wideChars + Math.ceil((text.length - wideChars) / 4);
+};
@@ -0,0 +1,245 @@
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+export interface DiffOptions {
+  /**
+   * Upper bound on the time spent searching for a minimal diff. When it runs out
+   * the remaining region is reported as one deletion plus one insertion, which is
+   * still correct, just coarser.
+   */
+  timeoutMs?: number;
+}
+
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+(?:['’-][\p{L}\p{N}_]+)*|[^\s\p{L}\p{N}_]/gu;
+
+/** Splits text into words, runs of whitespace and single punctuation marks. */
+export const tokenizeWords = (text: string): string[] => text.match(TOKEN_PATTERN) ?? [];
+
+type Op = [DiffType, number, number];
+
+/**
+ * Word-level diff between `before` and `after` using Myers' O(ND) algorithm with
+ * the linear-space middle-snake split, so multi-thousand-word inputs stay cheap.
+ * Concatenating the equal+delete parts yields `before`; equal+insert yields `after`.
+ */
+export const diffWords = (before: string, after: string, options: DiffOptions = {}): DiffPart[] => {
+  const beforeTokens = tokenizeWords(before);
+  const afterTokens = tokenizeWords(after);
+
+  // Compare integers instead of strings in the hot loop.
+  const ids = new Map<string, number>();
+  const toIds = (tokens: string[]) =>
+    Int32Array.from(tokens, (token) => {
+      let id = ids.get(token);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(token, id);
+      }
+      return id;
+    });
+
+  const deadline = Date.now() + (options.timeoutMs ?? 250);
+  const ops: Op[] = [];
+  diffRange(toIds(beforeTokens), 0, toIds(afterTokens), 0, deadline, ops);
+
+  const parts = ops.map(([type, start, end]): DiffPart => ({
+    type,
+    value: (type === 'insert' ? afterTokens : beforeTokens).slice(start, end).join(''),
+  }));
+  return cleanup(parts);
+};
+
+const pushOp = (ops: Op[], type: DiffType, start: number, end: number): void => {
+  if (start >= end) return;
+  const last = ops[ops.length - 1];
+  if (last && last[0] === type && last[2] === start) {
+    last[2] = end;
+    return;
+  }
+  ops.push([type, start, end]);
+};
+
+const diffRange = (
+  a: Int32Array,
+  aOffset: number,
+  b: Int32Array,
+  bOffset: number,
+  deadline: number,
+  ops: Op[]
+): void => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  pushOp(ops, 'equal', aOffset, aOffset + prefix);
+
+  const aMid = a.subarray(prefix, a.length - suffix);
+  const bMid = b.subarray(prefix, b.length - suffix);
+  const aMidOffset = aOffset + prefix;
+  const bMidOffset = bOffset + prefix;
+
+  if (aMid.length === 0 || bMid.length === 0) {
+    pushOp(ops, 'delete', aMidOffset, aMidOffset + aMid.length);
+    pushOp(ops, 'insert', bMidOffset, bMidOffset + bMid.length);
+  } else {
+    const split = findMiddleSnake(aMid, bMid, deadline);
+    if (split) {
+      const [x, y] = split;
+      diffRange(aMid.subarray(0, x), aMidOffset, bMid.subarray(0, y), bMidOffset, deadline, ops);
+      diffRange(aMid.subarray(x), aMidOffset + x, bMid.subarray(y), bMidOffset + y, deadline, ops);
+    } else {
+      pushOp(ops, 'delete', aMidOffset, aMidOffset + aMid.length);
+      pushOp(ops, 'insert', bMidOffset, bMidOffset + bMid.length);
+    }
+  }
+
+  pushOp(ops, 'equal', aOffset + a.length - suffix, aOffset + a.length);
+};
+
+/**
+ * Runs the forward and reverse searches until they overlap and returns the
+ * point where the edit script can be split in two. Returns null on timeout.
+ */
+const findMiddleSnake = (a: Int32Array, b: Int32Array, deadline: number): [number, number] | null => {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  const forward = new Int32Array(size).fill(-1);
+  const reverse = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths can only meet while extending the forward path.
+  const checkOnForward = delta % 2 !== 0;
+  let k1Start = 0;
+  let k1End = 0;
+  let k2Start = 0;
+  let k2End = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    if ((d & 15) === 0 && Date.now() > deadline) {
+      return null;
+    }
+
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const k1Offset = offset + k1;
+      let x1 =
+        k1 === -d || (k1 !== d && forward[k1Offset - 1] < forward[k1Offset + 1])
+          ? forward[k1Offset + 1]
+          : forward[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && a[x1] === b[y1]) {
+        x1++;
+        y1++;
+      }
+      forward[k1Offset] = x1;
+      if (x1 > n) {
+        k1End += 2;
+      } else if (y1 > m) {
+        k1Start += 2;
+      } else if (checkOnForward) {
+        const k2Offset = offset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < size && reverse[k2Offset] !== -1) {
+          if (x1 >= n - reverse[k2Offset]) {
+            return [x1, y1];
+          }
+        }
+      }
+    }
+
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const k2Offset = offset + k2;
+      let x2 =
+        k2 === -d || (k2 !== d && reverse[k2Offset - 1] < reverse[k2Offset + 1])
+          ? reverse[k2Offset + 1]
+          : reverse[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && a[n - x2 - 1] === b[m - y2 - 1]) {
+        x2++;
+        y2++;
+      }
+      reverse[k2Offset] = x2;
+      if (x2 > n) {
+        k2End += 2;
+      } else if (y2 > m) {
+        k2Start += 2;
+      } else if (!checkOnForward) {
+        const k1Offset = offset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < size && forward[k1Offset] !== -1) {
+          const x1 = forward[k1Offset];
+          const y1 = x1 - (k1Offset - offset);
+          if (x1 >= n - x2) {
+            return [x1, y1];
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Makes the output readable: a lone space between two changes is folded into
+ * them, and each run of changes is reported as one deletion followed by one
+ * insertion instead of interleaved fragments.
+ */
+const cleanup = (parts: DiffPart[]): DiffPart[] => {
+  const folded: DiffPart[] = [];
+  parts.forEach((part, index) => {
+    const isBridge =
+      part.type === 'equal' &&
+      /^\s+$/.test(part.value) &&
+      index > 0 &&
+      index < parts.length - 1 &&
+      parts[index - 1].type !== 'equal' &&
+      parts[index + 1].type !== 'equal';
+    if (isBridge) {
+      folded.push({ type: 'delete', value: part.value }, { type: 'insert', value: part.value });
+    } else {
+      folded.push(part);
+    }
+  });
+
+  const result: DiffPart[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    if (deleted) result.push({ type: 'delete', value: deleted });
+    if (inserted) result.push({ type: 'insert', value: inserted });
+    deleted = '';
+    inserted = '';
+  };
+
+  folded.forEach((part) => {
+    if (part.type === 'delete') {
+      deleted += part.value;
+    } else if (part.type === 'insert') {
+      inserted += part.value;
+    } else {
+      flush();
+      const last = result[result.length - 1];
+      if (last?.type === 'equal') {
+        last.value += part.value;
+      } else {
+        result.push({ ...part });
+      }
+    }
+  });
+  flush();
+  return result;
+};
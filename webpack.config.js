@@ -8,8 +8,10 @@ module.exports = {
   devtool: 'source-map',
   entry: {
     popup: './src/popup/popup.ts',
+    sidepanel: './src/sidepanel/sidepanel.ts',
     background: './src/background/background.ts',
-    content: './src/content/content.ts'
+    content: './src/content/content.ts',
+    'editor-bridge': './src/content/editor-bridge.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -47,6 +49,11 @@ module.exports = {
       filename: 'popup.html',
       chunks: ['popup'],
     }),
+    new HtmlWebpackPlugin({
+      template: './src/sidepanel/sidepanel.html',
+      filename: 'sidepanel.html',
+      chunks: ['sidepanel'],
+    }),
     new MiniCssExtractPlugin({
       filename: '[name].css',
     }),